@@ -0,0 +1,106 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AssetRecovery } from './assets';
+import { CdxClient } from './cdx';
+import { CONFIG, playbackUrl } from './config';
+import { CircuitOpenError, http } from './http';
+import { createInventoryItem, InventoryItem } from './inventory';
+import { IntegrityChecker } from './integrity';
+import { itemDirectory } from './layout';
+import { readProvenance } from './provenance';
+import { OfflineRewriter } from './rewriter';
+import { WaybackStandIn } from './standin';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'wayback');
+const PAGE_URL = 'http://www.usaweightlifting.org/competition/2003/meet_results.html';
+
+describe('AssetRecovery against the stand-in', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+    let item: InventoryItem;
+    let htmlPath: string;
+    let yearDir: string;
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(path.join(FIXTURES, 'captures.json'))).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-assets-'));
+        CONFIG.CDX_API_URL = standIn.cdxUrl;
+        CONFIG.WAYBACK_URL = standIn.waybackUrl;
+        CONFIG.DATA_DIR = path.join(workDir, 'data');
+        CONFIG.HTTP.REQUESTS_PER_SECOND = 1000;
+        CONFIG.HTTP.BURST = 1000;
+        CONFIG.HTTP.BACKOFF_BASE_MS = 10;
+
+        const [capture] = await new CdxClient().query({ url: PAGE_URL });
+        item = createInventoryItem(capture, 'early-web');
+        htmlPath = path.join(itemDirectory(item), item.filename);
+        yearDir = path.join(CONFIG.DATA_DIR, 'early-web', '2003');
+        await http.download(playbackUrl(item.timestamp, item.originalUrl), htmlPath);
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    it('recovers page-relative, root-relative and linked assets', async () => {
+        const stats = await new AssetRecovery().recover(item, htmlPath);
+
+        assert.deepEqual(stats, { scanned: 4, present: 0, saved: 3, failed: 1 });
+        assert.equal(await fs.readFile(path.join(yearDir, 'css', 'style.css'), 'utf-8'), 'body { font-family: Verdana; }');
+        // Only archived at /images/banner.gif: the root fallback saves it where the page looks
+        assert.deepEqual(
+            await fs.readFile(path.join(path.dirname(htmlPath), 'images', 'banner.gif')),
+            await fs.readFile(path.join(FIXTURES, 'bodies', 'banner.gif')));
+        assert.ok(await fs.pathExists(path.join(yearDir, 'results', '2003', 'nationals.pdf')));
+        // The only capture of photo.jpg is an HTML error page
+        assert.equal(await fs.pathExists(path.join(path.dirname(htmlPath), 'photo.jpg')), false);
+    });
+
+    it('records where each recovered asset came from next to it', async () => {
+        const banner = (await readProvenance(path.join(path.dirname(htmlPath), 'images', 'banner.gif')))!;
+        assert.equal(banner.kind, 'asset');
+        assert.equal(banner.originalUrl, 'http://www.usaweightlifting.org/images/banner.gif');
+        assert.equal(banner.timestamp, '20031015000000');
+        assert.equal(banner.lookup, 'root-fallback');
+        assert.equal(banner.contentType, 'image/gif');
+        assert.equal(banner.headers!['content-type'], 'image/gif');
+        assert.equal(banner.length, (await fs.stat(path.join(FIXTURES, 'bodies', 'banner.gif'))).size);
+        assert.deepEqual(banner.referencedBy, { url: PAGE_URL, timestamp: item.timestamp, reference: 'images/banner.gif' });
+
+        const css = (await readProvenance(path.join(yearDir, 'css', 'style.css')))!;
+        assert.equal(css.lookup, 'root');
+        assert.equal(css.sha1, IntegrityChecker.digestOf('body { font-family: Verdana; }'));
+        assert.equal(css.cdxDigest, css.sha1);
+    });
+
+    it('skips assets already on disk', async () => {
+        const before = standIn.requests.length;
+        const stats = await new AssetRecovery().recover(item, htmlPath);
+
+        assert.deepEqual(stats, { scanned: 4, present: 3, saved: 0, failed: 1 });
+        // photo.jpg: a CDX lookup, its playback, and the CDX lookup for the root fallback
+        assert.equal(standIn.requests.length - before, 3);
+    });
+
+    it('leaves the page linking recovered assets locally and the rest to playback', async () => {
+        const stats = await new OfflineRewriter([item]).rewrite(item, htmlPath);
+        // photo.jpg and the links to pages we don't have go to playback; mailto: is left alone
+        assert.deepEqual(stats, { local: 3, wayback: 3, untouched: 1 });
+
+        const html = await fs.readFile(htmlPath, 'utf-8');
+        assert.match(html, /href="\.\.\/css\/style\.css"/);
+        assert.match(html, /src="images\/banner\.gif"/);
+        // Links in the output point at the public archive, not at the stand-in that served the run
+        assert.ok(html.includes('src="https://web.archive.org/web/20031101000000id_/http://www.usaweightlifting.org/competition/2003/photo.jpg"'));
+    });
+
+    // Last: the circuit stays open for the rest of the file
+    it('stops at an open circuit instead of logging every remaining asset as failed', async () => {
+        standIn.failNext('cdx', 503, 20);
+        await assert.rejects(new AssetRecovery().recover(item, htmlPath), CircuitOpenError);
+    });
+});
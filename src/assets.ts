@@ -0,0 +1,207 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { CONFIG, playbackUrl, publicPlaybackUrl } from './config';
+import { CdxClient } from './cdx';
+import { CircuitOpenError, http, plainHeaders } from './http';
+import { InventoryItem } from './inventory';
+import { IntegrityChecker } from './integrity';
+import { AssetLookup, writeProvenance } from './provenance';
+import { resolveReference } from './rewriter';
+import { logger } from './logger';
+
+export interface AssetStats {
+    scanned: number;
+    present: number;
+    saved: number;
+    failed: number;
+}
+
+interface Asset {
+    url: string;
+    isImage: boolean;
+}
+
+// An asset reference of a page, resolved (see AssetRecovery.pageAssets)
+export interface PageAsset {
+    // The src/href as written in the page
+    reference: string;
+    url: string;
+    localPath: string;
+}
+
+/**
+ * Fills the holes in a downloaded HTML page: images, stylesheets, scripts and linked
+ * documents it references are looked up in the CDX index (capture closest to the page)
+ * and mirrored to where the rewriter expects them (see resolveReference).
+ */
+export class AssetRecovery {
+    private dataDir = CONFIG.DATA_DIR;
+
+    constructor(private cdxClient = new CdxClient()) { }
+
+    // Every asset the page references, images flagged so HTML error pages can be rejected
+    static collectAssets(html: string): Asset[] {
+        const $ = cheerio.load(html);
+        const assets: Asset[] = [];
+
+        $('img').each((_, el) => {
+            const src = $(el).attr('src');
+            if (src) assets.push({ url: src, isImage: true });
+        });
+        $('link[rel="stylesheet"]').each((_, el) => {
+            const href = $(el).attr('href');
+            if (href) assets.push({ url: href, isImage: false });
+        });
+        $('script[src]').each((_, el) => {
+            const src = $(el).attr('src');
+            if (src) assets.push({ url: src, isImage: false });
+        });
+
+        // Scrape linked documents (PDF, DOC, XLS)
+        $('a[href]').each((_, el) => {
+            const href = $(el).attr('href');
+            if (href && /\.(pdf|doc|docx|xls|xlsx)$/i.test(href)) {
+                assets.push({ url: href, isImage: false });
+            }
+        });
+
+        return assets;
+    }
+
+    async recover(item: InventoryItem, htmlPath: string): Promise<AssetStats> {
+        // Scan the page as downloaded, not a previously rewritten copy
+        const content = await fs.readFile(await IntegrityChecker.payloadPath(htmlPath), 'utf-8');
+        const assets = AssetRecovery.collectAssets(content);
+        const targetDir = path.dirname(htmlPath);
+        const yearDir = path.join(this.dataDir, item.era, item.year.toString());
+        const stats: AssetStats = { scanned: assets.length, present: 0, saved: 0, failed: 0 };
+
+        logger.info(`Scanning ${assets.length} potential assets for ${item.filename}`);
+
+        for (const asset of assets) {
+            const resolved = resolveReference(asset.url, item.originalUrl, targetDir, yearDir);
+            if (!resolved) continue;
+            const { cleanUrl, absoluteUrl, localPath } = resolved;
+
+            // Don't escape the Data Directory!
+            if (!localPath.startsWith(path.resolve(this.dataDir))) {
+                logger.warn(`Skipping unsafe path: ${localPath}`);
+                continue;
+            }
+
+            if (await fs.pathExists(localPath)) {
+                stats.present++;
+                continue;
+            }
+
+            const lookup: AssetLookup = /^[a-z]+:\/\//i.test(cleanUrl) ? 'absolute' : cleanUrl.startsWith('/') ? 'root' : 'page-relative';
+            let success = await this.tryDownload(item, asset, absoluteUrl, localPath, lookup);
+
+            // Pages often used page-relative image paths for files that only lived at
+            // the site root (images/x.gif on /foo/bar.aspx meaning /images/x.gif).
+            // The root copy is saved to the page-relative path to keep the HTML valid.
+            if (!success && !cleanUrl.startsWith('/') && asset.isImage) {
+                try {
+                    const u = new URL(item.originalUrl);
+                    const rootFallbackUrl = `${u.protocol}//${u.host}/${cleanUrl}`;
+                    logger.info(`  -> Fallback: Trying Root URL ${rootFallbackUrl}`);
+                    success = await this.tryDownload(item, asset, rootFallbackUrl, localPath, 'root-fallback');
+                } catch (e) {
+                    if (e instanceof CircuitOpenError) throw e;
+                }
+            }
+
+            if (success) {
+                stats.saved++;
+            } else {
+                stats.failed++;
+                logger.info(`  -> Failed to recover asset.`);
+            }
+        }
+
+        return stats;
+    }
+
+    /**
+     * Offline check: live URLs of assets the page references that have no local copy.
+     * Unsafe references (outside the data directory) are left out, as in `recover`.
+     */
+    async missingAssets(item: InventoryItem, htmlPath: string): Promise<string[]> {
+        const content = await fs.readFile(await IntegrityChecker.payloadPath(htmlPath), 'utf-8');
+        const missing = new Set<string>();
+
+        for (const asset of this.pageAssets(item, htmlPath, content)) {
+            if (!await fs.pathExists(asset.localPath)) {
+                missing.add(asset.url);
+            }
+        }
+        return Array.from(missing);
+    }
+
+    /**
+     * Every asset reference in a page with the live URL it points at and the absolute
+     * path its local copy belongs at, whether or not that copy exists. Unsafe
+     * references (outside the data directory) are left out.
+     */
+    pageAssets(item: InventoryItem, htmlPath: string, html: string): PageAsset[] {
+        const targetDir = path.dirname(htmlPath);
+        const yearDir = path.join(this.dataDir, item.era, item.year.toString());
+        const dataRoot = path.resolve(this.dataDir);
+        const found: PageAsset[] = [];
+
+        for (const asset of AssetRecovery.collectAssets(html)) {
+            const resolved = resolveReference(asset.url, item.originalUrl, targetDir, yearDir);
+            if (!resolved || !resolved.localPath.startsWith(dataRoot)) continue;
+            found.push({ reference: asset.url, url: resolved.absoluteUrl, localPath: resolved.localPath });
+        }
+        return found;
+    }
+
+    private async tryDownload(item: InventoryItem, asset: Asset, searchUrl: string, destPath: string, lookup: AssetLookup): Promise<boolean> {
+        try {
+            // Strip Port from Search URL for better CDX matching
+            // http://site.com:80/foo -> http://site.com/foo
+            const cdxSearchUrl = searchUrl.replace(/:\d+/, '');
+
+            logger.info(`[MISSING] Checking CDX: ${cdxSearchUrl} (Window: ${item.timestamp})`);
+            const [snapshot] = await this.cdxClient.query({
+                url: cdxSearchUrl,
+                closest: item.timestamp,
+                limit: '1',
+                filter: 'statuscode:200'
+            });
+            if (!snapshot) return false;
+
+            logger.info(`  -> Found Snapshot: ${snapshot.timestamp} | Downloading...`);
+            const response = await http.get(playbackUrl(snapshot.timestamp, snapshot.original), { responseType: 'arraybuffer' });
+
+            const type = response.headers['content-type'] || '';
+            if (asset.isImage && type.includes('text/html')) {
+                logger.warn(`  -> REJECTED: Corrupt HTML in image`);
+                return false;
+            }
+            await fs.ensureDir(path.dirname(destPath));
+            await fs.writeFile(destPath, response.data);
+            await writeProvenance(destPath, {
+                kind: 'asset',
+                originalUrl: snapshot.original,
+                timestamp: snapshot.timestamp,
+                waybackUrl: publicPlaybackUrl(snapshot.timestamp, snapshot.original),
+                cdxDigest: snapshot.digest,
+                ...(type ? { contentType: type } : {}),
+                headers: plainHeaders(response.headers),
+                referencedBy: { url: item.originalUrl, timestamp: item.timestamp, reference: asset.url },
+                lookup
+            });
+            logger.info(`  -> SAVED: ${destPath}`);
+            return true;
+        } catch (e: any) {
+            // The archive is refusing requests: stop the run rather than fail every asset
+            if (e instanceof CircuitOpenError) throw e;
+            logger.warn(`  -> CDX Error: ${e.message}`);
+        }
+        return false;
+    }
+}
@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Categorizer } from './categorizer';
+
+const RULES = path.join(__dirname, '..', 'categories.json');
+
+describe('Categorizer with categories.json', () => {
+    const categorizer = Categorizer.load(RULES);
+    const classify = (filename: string, url = `http://www.usaweightlifting.org/${filename}`, extra: { title?: string; text?: string; current?: any } = {}) =>
+        categorizer.classify({ filename, originalUrl: url, ...extra });
+
+    it('categorizes by filename and URL keywords', () => {
+        assert.equal(classify('2003_nationals_results.pdf').category, 'results');
+        assert.equal(classify('board-minutes-2002.pdf').category, 'governance');
+        assert.equal(classify('entry_form.pdf').category, 'event_info');
+        assert.equal(classify('newsletter.pdf').category, 'uncategorized');
+    });
+
+    it('lets higher priority rules win', () => {
+        // "results" (100) beats "form" (60)
+        assert.equal(classify('results-form.pdf').category, 'results');
+        // masters (100) beats national (70)
+        assert.equal(classify('masters-nationals-results.pdf').subcategory, 'masters');
+    });
+
+    it('uses titles and text when content is available', () => {
+        const byTitle = classify('displayPage-396.html', 'http://msbn.tv/usavision/displayPage.aspx?id=396', { title: '2005 American Open Results' });
+        assert.equal(byTitle.category, 'results');
+        assert.equal(byTitle.subcategory, 'national');
+
+        const byText = classify('page-12.html', 'http://msbn.tv/usavision/page.aspx?id=12', { text: 'Name Bwt Snatch 1 2 3 C&J 1 2 3 Total' });
+        assert.equal(byText.category, 'results');
+        assert.equal(byText.rule, 'results-table-text');
+    });
+
+    it('only applies restricted subcategory rules to their categories', () => {
+        assert.equal(classify('state-meet-results.pdf').subcategory, 'local');
+        assert.equal(classify('state-board-minutes.pdf').subcategory, undefined);
+    });
+
+    it('leaves out the keywords rejected as too broad', () => {
+        // 'meet' appears in nearly every results page; it says nothing about the level of competition
+        const meet = classify('2003-meet-results.pdf', undefined, { title: 'Meet Results' });
+        assert.equal(meet.category, 'results');
+        assert.equal(meet.subcategory, undefined);
+        assert.equal(classify('page-3.html', undefined, { title: 'Senior Meet', current: 'results' }).subcategory, undefined);
+        assert.equal(classify('page-4.html', undefined, { title: '2004 Prospectus' }).category, 'uncategorized');
+    });
+
+    it('keeps the current category when nothing matches', () => {
+        assert.equal(classify('page-7.html', undefined, { current: 'results' }).category, 'results');
+        assert.equal(classify('page-7.html').category, 'uncategorized');
+    });
+});
+
+describe('Categorizer.fromSpec', () => {
+    it('applies exclude patterns', () => {
+        const categorizer = Categorizer.fromSpec({
+            categories: [{ category: 'results', include: ['result'], exclude: ['template'] }]
+        }, 'test');
+        assert.equal(categorizer.classify({ filename: 'results.pdf', originalUrl: '' }).category, 'results');
+        assert.equal(categorizer.classify({ filename: 'results-template.pdf', originalUrl: '' }).category, 'uncategorized');
+    });
+
+    it('rejects invalid rules with the offending entry named', () => {
+        assert.throws(() => Categorizer.fromSpec({ categories: [{ category: 'photos', include: ['x'] }] }, 'test'),
+            /test categories\[0\]: unknown category "photos"/);
+        assert.throws(() => Categorizer.fromSpec({ categories: [{ category: 'results', include: ['('] }] }, 'test'),
+            /invalid include pattern "\("/);
+        assert.throws(() => Categorizer.fromSpec({ categories: [{ category: 'results' }] }, 'test'),
+            /needs at least one include, title or text pattern/);
+        assert.throws(() => Categorizer.fromSpec({ categories: [], subcategories: [{ subcategory: 'local', include: ['x'], categories: ['photos'] }] }, 'test'),
+            /"categories" must list known categories/);
+    });
+});
+
+describe('Categorizer.readContent', () => {
+    let workDir: string;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-categorizer-'));
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('reads the page text with entities decoded and cells apart', async () => {
+        const page = path.join(workDir, 'page.html');
+        await fs.writeFile(page, '<html><head><title>Results</title></head><body><noscript>Enable JavaScript</noscript>'
+            + '<table><tr><th>Name</th><th>Snatch</th></tr></table><p>Clean&nbsp;&amp; Jerk &lt;kg&gt; &#8211; Jos&eacute;</p></body></html>');
+
+        const { title, text } = await Categorizer.readContent(page);
+        assert.equal(title, 'Results');
+        assert.equal(text, 'Name Snatch Clean & Jerk <kg> \u2013 Jos\u00e9');
+    });
+});
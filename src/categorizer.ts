@@ -1,29 +1,245 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { htmlText } from './search';
+
 export type FileCategory = 'results' | 'event_info' | 'governance' | 'uncategorized';
+export type FileSubcategory = 'national' | 'local' | 'masters' | 'junior_youth' | 'international';
+
+export const CATEGORIES: FileCategory[] = ['results', 'event_info', 'governance', 'uncategorized'];
+export const SUBCATEGORIES: FileSubcategory[] = ['national', 'local', 'masters', 'junior_youth', 'international'];
+
+// Only the start of a document is read for content rules: titles, cover pages, headers
+const CONTENT_SAMPLE_CHARS = 5000;
+
+/**
+ * One rule as written in the rules file. Patterns are case-insensitive regular
+ * expressions. A rule matches when any `include` pattern matches the filename or URL,
+ * or any `title`/`text` pattern matches the document content, and no `exclude`
+ * pattern matches the filename, URL or title. Higher priority rules are tried first.
+ */
+interface RuleSpec {
+    name?: string;
+    category?: FileCategory;
+    subcategory?: FileSubcategory;
+    priority?: number;
+    include?: string[];
+    exclude?: string[];
+    title?: string[];
+    text?: string[];
+    // Subcategory rules only: limit the rule to documents in these categories
+    categories?: FileCategory[];
+}
+
+interface Rule<T> {
+    name: string;
+    value: T;
+    priority: number;
+    include: RegExp[];
+    exclude: RegExp[];
+    title: RegExp[];
+    text: RegExp[];
+    categories?: FileCategory[];
+}
+
+export interface CategorizeInput {
+    filename: string;
+    originalUrl: string;
+    // Only available once the document is downloaded
+    title?: string;
+    text?: string;
+    // Kept when no rule matches, so hand-assigned categories survive a re-run
+    current?: FileCategory;
+}
+
+export interface Categorization {
+    category: FileCategory;
+    subcategory?: FileSubcategory;
+    rule?: string;
+    subcategoryRule?: string;
+}
+
+/**
+ * Built-in rules, used when no rules file exists. Same keywords the categorizer
+ * always used ('qual', 'prospectus' and 'meet' were rejected as too broad).
+ */
+const DEFAULT_RULES: { categories: RuleSpec[]; subcategories: RuleSpec[] } = {
+    categories: [
+        { name: 'results-keyword', category: 'results', priority: 100, include: ['result'] },
+        { name: 'governance-keyword', category: 'governance', priority: 80, include: ['minute', 'bylaw', 'board'] },
+        { name: 'event-info-keyword', category: 'event_info', priority: 60, include: ['entry', 'form', 'packet', 'schedule'] },
+    ],
+    subcategories: [],
+};
 
 export class Categorizer {
+    private static defaultInstance: Categorizer | null = null;
+
+    private constructor(
+        private categoryRules: Rule<FileCategory>[],
+        private subcategoryRules: Rule<FileSubcategory>[]
+    ) { }
+
+    /**
+     * Category from filename and URL alone, using the rules file configured in
+     * CONFIG.CATEGORY_RULES. Used during discovery, before anything is downloaded.
+     */
     static categorize(filename: string, originalUrl: string): FileCategory {
-        const lowerName = filename.toLowerCase();
-        const lowerUrl = originalUrl.toLowerCase();
+        return Categorizer.default().classify({ filename, originalUrl }).category;
+    }
+
+    static default(): Categorizer {
+        if (!Categorizer.defaultInstance) {
+            if (fs.existsSync(CONFIG.CATEGORY_RULES)) {
+                logger.info(`Category rules: ${CONFIG.CATEGORY_RULES}`);
+                Categorizer.defaultInstance = Categorizer.load(CONFIG.CATEGORY_RULES);
+            } else {
+                logger.warn(`Category rules ${CONFIG.CATEGORY_RULES} not found; using the built-in keyword rules`);
+                Categorizer.defaultInstance = Categorizer.fromSpec(DEFAULT_RULES, 'built-in rules');
+            }
+        }
+        return Categorizer.defaultInstance;
+    }
+
+    static load(filePath: string): Categorizer {
+        let raw: unknown;
+        try {
+            raw = fs.readJSONSync(filePath);
+        } catch (e: any) {
+            throw new Error(`Category rules ${filePath} could not be read: ${e.message}`);
+        }
+        return Categorizer.fromSpec(raw, filePath);
+    }
+
+    static fromSpec(raw: any, source: string): Categorizer {
+        if (!raw || typeof raw !== 'object' || !Array.isArray(raw.categories)) {
+            throw new Error(`Category rules ${source} must be an object with a "categories" array`);
+        }
+        if (raw.subcategories !== undefined && !Array.isArray(raw.subcategories)) {
+            throw new Error(`Category rules ${source}: "subcategories" must be an array`);
+        }
+
+        const categoryRules = (raw.categories as RuleSpec[]).map((spec, i) => {
+            const where = `${source} categories[${i}]`;
+            if (!CATEGORIES.includes(spec?.category as FileCategory)) {
+                throw new Error(`Category rules ${where}: unknown category "${spec?.category}" (expected ${CATEGORIES.join(', ')})`);
+            }
+            return Categorizer.compile(spec, spec.category!, where);
+        });
 
-        // Check keywords in both filename and url
-        const textToCheck = `${lowerName} ${lowerUrl}`;
+        const subcategoryRules = ((raw.subcategories || []) as RuleSpec[]).map((spec, i) => {
+            const where = `${source} subcategories[${i}]`;
+            if (!SUBCATEGORIES.includes(spec?.subcategory as FileSubcategory)) {
+                throw new Error(`Category rules ${where}: unknown subcategory "${spec?.subcategory}" (expected ${SUBCATEGORIES.join(', ')})`);
+            }
+            const rule = Categorizer.compile(spec, spec.subcategory!, where);
+            if (spec.categories !== undefined) {
+                if (!Array.isArray(spec.categories) || spec.categories.some(c => !CATEGORIES.includes(c))) {
+                    throw new Error(`Category rules ${where}: "categories" must list known categories`);
+                }
+                rule.categories = spec.categories;
+            }
+            return rule;
+        });
+
+        // Stable sort: equal priorities keep file order
+        const byPriority = <T>(a: Rule<T>, b: Rule<T>) => b.priority - a.priority;
+        return new Categorizer(categoryRules.sort(byPriority), subcategoryRules.sort(byPriority));
+    }
+
+    private static compile<T>(spec: RuleSpec, value: T, where: string): Rule<T> {
+        const patterns = (field: 'include' | 'exclude' | 'title' | 'text'): RegExp[] => {
+            const list = spec[field];
+            if (list === undefined) return [];
+            if (!Array.isArray(list) || list.some(p => typeof p !== 'string')) {
+                throw new Error(`Category rules ${where}: "${field}" must be an array of strings`);
+            }
+            return list.map(pattern => {
+                try {
+                    return new RegExp(pattern, 'i');
+                } catch (e: any) {
+                    throw new Error(`Category rules ${where}: invalid ${field} pattern "${pattern}": ${e.message}`);
+                }
+            });
+        };
+
+        if (spec.priority !== undefined && typeof spec.priority !== 'number') {
+            throw new Error(`Category rules ${where}: "priority" must be a number`);
+        }
 
-        // 1. Results (Highest Priority)
-        if (textToCheck.includes('result')) {
-            return 'results';
+        const rule: Rule<T> = {
+            name: spec.name || where,
+            value,
+            priority: spec.priority ?? 0,
+            include: patterns('include'),
+            exclude: patterns('exclude'),
+            title: patterns('title'),
+            text: patterns('text'),
+        };
+        if (rule.include.length + rule.title.length + rule.text.length === 0) {
+            throw new Error(`Category rules ${where}: needs at least one include, title or text pattern`);
         }
+        return rule;
+    }
+
+    classify(input: CategorizeInput): Categorization {
+        const nameAndUrl = `${input.filename} ${input.originalUrl}`;
+
+        const category = this.firstMatch(this.categoryRules, nameAndUrl, input);
+        const result: Categorization = category
+            ? { category: category.value, rule: category.name }
+            : { category: input.current || 'uncategorized' };
 
-        // 2. Governance
-        if (textToCheck.includes('minute') || textToCheck.includes('bylaw') || textToCheck.includes('board')) {
-            return 'governance';
+        const subcategory = this.firstMatch(
+            this.subcategoryRules.filter(rule => !rule.categories || rule.categories.includes(result.category)),
+            nameAndUrl, input);
+        if (subcategory) {
+            result.subcategory = subcategory.value;
+            result.subcategoryRule = subcategory.name;
         }
 
-        // 3. Event Info
-        // User explicitly rejected 'qual', 'prospectus', 'meet' (too broad)
-        if (textToCheck.includes('entry') || textToCheck.includes('form') || textToCheck.includes('packet') || textToCheck.includes('schedule')) {
-            return 'event_info';
+        return result;
+    }
+
+    private firstMatch<T>(rules: Rule<T>[], nameAndUrl: string, input: CategorizeInput): Rule<T> | undefined {
+        return rules.find(rule => {
+            const matched = rule.include.some(re => re.test(nameAndUrl)) ||
+                (input.title !== undefined && rule.title.some(re => re.test(input.title!))) ||
+                (input.text !== undefined && rule.text.some(re => re.test(input.text!)));
+            if (!matched) return false;
+
+            return !rule.exclude.some(re => re.test(nameAndUrl) ||
+                (input.title !== undefined && re.test(input.title)));
+        });
+    }
+
+    /**
+     * Title and opening text of a downloaded document for content rules. PDFs use the
+     * text `extract` saved next to them; unextracted PDFs and other types give no text.
+     */
+    static async readContent(filePath: string): Promise<{ title?: string; text?: string }> {
+        if (!await fs.pathExists(filePath)) return {};
+        const ext = path.extname(filePath).toLowerCase();
+
+        if (ext === '.html' || ext === '.htm') {
+            const html = await fs.readFile(filePath, 'utf-8');
+            const $ = cheerio.load(html);
+            $('script, style').remove();
+            const clean = (s: string) => s.replace(/\s+/g, ' ').trim();
+            const title = [clean($('title').text()), ...$('h1, h2').toArray().slice(0, 2).map(el => clean($(el).text()))]
+                .filter(Boolean)
+                .join(' | ');
+            const text = clean(htmlText(html));
+            return { title, text: text.substring(0, CONTENT_SAMPLE_CHARS) };
         }
 
-        return 'uncategorized';
+        const sidecar = `${filePath}.txt`;
+        if (await fs.pathExists(sidecar)) {
+            const text = (await fs.readFile(sidecar, 'utf-8')).substring(0, CONTENT_SAMPLE_CHARS);
+            return { title: text.split('\n').find(line => line.trim())?.trim(), text };
+        }
+        return {};
     }
 }
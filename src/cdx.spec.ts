@@ -0,0 +1,117 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CdxClient } from './cdx';
+import { CONFIG, ERAS } from './config';
+import { WaybackStandIn } from './standin';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'wayback', 'captures.json');
+
+describe('CdxClient against the stand-in', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(FIXTURES)).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-cdx-'));
+        CONFIG.CDX_API_URL = standIn.cdxUrl;
+        CONFIG.HTTP.REQUESTS_PER_SECOND = 1000;
+        CONFIG.HTTP.BURST = 1000;
+        CONFIG.HTTP.BACKOFF_BASE_MS = 10;
+    });
+
+    beforeEach(async () => {
+        CONFIG.CDX_CACHE_DIR = path.join(workDir, `cache-${Date.now()}-${Math.random()}`);
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    it('discovers documents for an era target', async () => {
+        const results = await new CdxClient().search('usaweightlifting.org', { from: 2000, to: 2004, era: ERAS['early-web'] });
+        const urls = results.map(r => r.original).sort();
+
+        assert.deepEqual(urls, [
+            'http://www.usaweightlifting.org/competition/2003/meet_results.html',
+            'http://www.usaweightlifting.org/docs/bylaws-2002.doc',
+            // Different digests: both versions of the amended sheet are kept
+            'http://www.usaweightlifting.org/results/2002/state_results.html',
+            'http://www.usaweightlifting.org/results/2002/state_results.html',
+            // Two captures with one digest collapse into the first
+            'http://www.usaweightlifting.org/results/2003/nationals.pdf',
+        ]);
+        assert.equal(results.find(r => r.original.endsWith('.pdf'))!.timestamp, '20031213060615');
+    });
+
+    it('honours the year window', async () => {
+        const results = await new CdxClient().search('*.usaweightlifting.org', { from: 2003, to: 2003, era: ERAS['early-web'] });
+        assert.deepEqual(results.map(r => r.original.split('/').pop()).sort(), ['meet_results.html', 'nationals.pdf']);
+    });
+
+    it('answers closest-capture lookups', async () => {
+        const [nearest] = await new CdxClient().query({
+            url: 'http://www.usaweightlifting.org/results/2003/nationals.pdf',
+            closest: '20040401',
+            limit: '1'
+        });
+        assert.equal(nearest.timestamp, '20040302114500');
+    });
+
+    it('pages with resume keys and serves finished queries from the cache', async () => {
+        const client = new CdxClient();
+        const params = { url: 'usaweightlifting.org/*', filter: 'statuscode:200' };
+        const first = await client.queryPaged(params, { pageSize: 2 });
+        assert.equal(first.length, 10);
+
+        const cacheDir = (await fs.readdir(CONFIG.CDX_CACHE_DIR)).map(d => path.join(CONFIG.CDX_CACHE_DIR, d))[0];
+        const pages = (await fs.readdir(cacheDir)).filter(f => f.startsWith('page-'));
+        assert.equal(pages.length, 5);
+
+        const requestsBefore = standIn.requests.length;
+        const again = await client.queryPaged(params, { pageSize: 2 });
+        assert.deepEqual(again, first);
+        assert.equal(standIn.requests.length, requestsBefore);
+
+        await client.queryPaged(params, { pageSize: 2, refresh: true });
+        assert.equal(standIn.requests.length, requestsBefore + 5);
+    });
+
+    it('keeps one cache directory per incremental query as its start moves forward', async () => {
+        const client = new CdxClient();
+        const params = { url: 'usaweightlifting.org/*', filter: 'statuscode:200' };
+        const older = await client.queryPaged({ ...params, from: '2002' }, { pageSize: 2, refresh: true, incremental: true });
+        const newer = await client.queryPaged({ ...params, from: '2004' }, { pageSize: 2, refresh: true, incremental: true });
+
+        assert.ok(newer.length < older.length);
+        assert.equal((await fs.readdir(CONFIG.CDX_CACHE_DIR)).length, 1);
+    });
+
+    it('resumes an interrupted paged query after its last cached page', async () => {
+        const client = new CdxClient();
+        const params = { url: 'usaweightlifting.org/*', filter: 'statuscode:200' };
+
+        // Page 2 keeps failing: the run gives up with only page 1 on disk
+        standIn.failNext('cdx', 503, 3, { match: 'resumeKey' });
+        CONFIG.HTTP.MAX_ATTEMPTS = 2;
+        await assert.rejects(client.queryPaged(params, { pageSize: 3 }));
+        CONFIG.HTTP.MAX_ATTEMPTS = 5;
+
+        const requestsBefore = standIn.requests.length;
+        const results = await client.queryPaged(params, { pageSize: 3 });
+        assert.equal(results.length, 10);
+        // Only what was missing is fetched: the failed page (one canned 503 left) and the two after it
+        assert.equal(standIn.requests.length - requestsBefore, 4);
+    });
+
+    it('waits out a 429 and retries', async () => {
+        standIn.failNext('cdx', 429, 1, { retryAfter: '1' });
+        const started = Date.now();
+        const results = await new CdxClient().query({ url: 'usaweightlifting.org/docs/*' });
+        assert.equal(results.length, 1);
+        assert.ok(Date.now() - started >= 900, 'Retry-After was not honoured');
+    });
+});
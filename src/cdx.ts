@@ -1,5 +1,9 @@
-import axios from 'axios';
-import { CONFIG } from './config';
+import fs from 'fs-extra';
+import path from 'path';
+import * as crypto from 'crypto';
+import { CONFIG, EraConfig } from './config';
+import { http } from './http';
+import { logger } from './logger';
 
 export interface CdxResult {
     urlkey: string;
@@ -11,10 +15,45 @@ export interface CdxResult {
     length: string;
 }
 
+// One page of a paged query, as cached on disk
+interface CdxPage {
+    rows: CdxResult[];
+    resumeKey?: string;
+}
+
+export interface PagedQueryOptions {
+    pageSize?: number;
+    // Ignore cached pages and fetch the query again from the start
+    refresh?: boolean;
+    // Leave `from` out of the cache key: incremental runs move it forward every time, so
+    // they share (and, refreshing, replace) one cache directory instead of adding one per run
+    incremental?: boolean;
+}
+
+// Host + path the way CDX compares URLs: no scheme, no www., no default port, lowercase
+export function normalizeCdxUrl(url: string): string {
+    return url.toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^www\d*\./, '')
+        .replace(/:80(?=\/|$)/, '');
+}
+
+// SURT form as used for the CDX urlkey: http://www.usaw.org/a/B.pdf -> org,usaw)/a/b.pdf
+export function surtKey(url: string): string {
+    const normalized = normalizeCdxUrl(url);
+    const slash = normalized.search(/[/?]/);
+    const host = slash === -1 ? normalized : normalized.substring(0, slash);
+    const rest = slash === -1 ? '/' : normalized.substring(slash);
+    return `${host.split('.').reverse().join(',')})${rest.startsWith('/') ? rest : `/${rest}`}`;
+}
+
 export class CdxClient {
     private baseUrl = CONFIG.CDX_API_URL;
 
-    async search(target: string, options?: { from?: number; to?: number }): Promise<CdxResult[]> {
+    // `era` supplies per-era extension/MIME/keyword filters; CONFIG defaults otherwise.
+    // With `redirects`, 3xx captures come back too, unfiltered, for RedirectResolver to follow.
+    // `from`/`to` are CDX timestamp prefixes: a year, or a full capture timestamp
+    async search(target: string, options?: { from?: number | string; to?: number | string; era?: EraConfig; refresh?: boolean; incremental?: boolean; redirects?: boolean }): Promise<CdxResult[]> {
         // Ensure valid CDX match type. 
         // If target has no path, assume domain wildcard.
         // If target has path, we still want matchType=prefix usually, or just end with *
@@ -26,8 +65,6 @@ export class CdxClient {
 
         const params: any = {
             url: urlPattern,
-            output: 'json',
-            fl: 'urlkey,timestamp,original,mimetype,statuscode,digest,length',
             collapse: 'digest', // Collapse by digest to avoid duplicates
             filter: [
                 'statuscode:200',
@@ -39,90 +76,165 @@ export class CdxClient {
 
         try {
             // We will do a broad search for status 200 and filter client side to ensure we don't miss anything due to funky mime types
-            // console.log(`CDX Request: ${this.baseUrl} with params:`, JSON.stringify({ ...params, filter: 'statuscode:200' }, null, 2));
-
-            let response: any;
-            let retries = 0;
-            const maxRetries = 5;
-            let success = false;
-
-            while (!success && retries < maxRetries) {
-                try {
-                    response = await axios.get(this.baseUrl, {
-                        params: {
-                            ...params,
-                            filter: 'statuscode:200'
-                        },
-                        validateStatus: (status) => status < 400 || status === 429
-                    });
-
-                    if (response.status === 429) {
-                        const delay = Math.pow(2, retries) * 5000 + Math.random() * 1000;
-                        console.warn(`[CDX] 429 Too Many Requests. Retrying in ${Math.round(delay)}ms...`);
-                        await new Promise(res => setTimeout(res, delay));
-                        retries++;
-                        continue;
-                    }
-
-                    success = true;
-                    // Politeness delay after success
-                    await new Promise(res => setTimeout(res, 1000));
-
-                } catch (error: any) {
-                    console.error(`CDX Request failed: ${error.message}`);
-                    retries++;
-                    await new Promise(res => setTimeout(res, 2000));
-                }
-            }
+            const paging = { refresh: options?.refresh, incremental: options?.incremental };
+            const results = await this.queryPaged({ ...params, filter: 'statuscode:200' }, paging);
+            // console.log(`[DEBUG] Raw CDX results before filtering: ${results.length}`);
+            const documents = this.filterResults(results, options?.era);
+            if (!options?.redirects) return documents;
+
+            // Redirect bodies are tiny and often identical across URLs, so collapse=digest
+            // would drop all but the first of a run; keep one capture per URL and digest instead
+            const { collapse, ...uncollapsed } = params;
+            const redirects = await this.queryPaged({ ...uncollapsed, filter: 'statuscode:3..' }, paging);
+            const seen = new Set<string>();
+            return [...documents, ...redirects.filter(r => {
+                const key = `${r.urlkey} ${r.digest}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })];
+        } catch (error) {
+            console.error(`Error searching CDX for ${target}:`, error);
+            throw error;
+        }
+    }
 
-            if (!success || !response) {
-                throw new Error(`Failed to fetch from CDX after ${maxRetries} retries`);
-            }
+    /**
+     * Runs a raw CDX query and maps the JSON rows onto CdxResult, without the
+     * document/keyword filtering `search` applies. Repeated params (e.g. several
+     * `filter` values) are passed as arrays.
+     */
+    async query(params: Record<string, string | string[]>): Promise<CdxResult[]> {
+        return (await this.fetchPage(params)).rows;
+    }
+
+    /**
+     * Runs a query page by page using the CDX resume-key mechanism, so large prefixes
+     * don't time out or get cut off. Every page is cached under CONFIG.CDX_CACHE_DIR,
+     * keyed by server and query: a finished query is answered from disk, and an
+     * interrupted one continues after its last cached page.
+     */
+    async queryPaged(params: Record<string, string | string[]>, options?: PagedQueryOptions): Promise<CdxResult[]> {
+        const pageSize = String(options?.pageSize ?? CONFIG.CDX_PAGE_SIZE);
+        const { from, ...keyed } = params;
+        const cacheDir = path.join(CONFIG.CDX_CACHE_DIR, this.cacheKey({ ...(options?.incremental ? keyed : params), limit: pageSize }));
+        if (options?.refresh) {
+            await fs.remove(cacheDir);
+        }
+        await fs.ensureDir(cacheDir);
+        await fs.writeJSON(path.join(cacheDir, 'query.json'), { baseUrl: this.baseUrl, params, pageSize }, { spaces: 2 });
+
+        const results: CdxResult[] = [];
+        let resumeKey: string | undefined;
+        let cached = 0;
+        let fetched = 0;
+
+        for (let pageNumber = 1; ; pageNumber++) {
+            const pageFile = path.join(cacheDir, `page-${String(pageNumber).padStart(5, '0')}.json`);
+            let page: CdxPage | null = null;
 
-            if (response.data && Array.isArray(response.data)) {
-                // First element is the header: ["urlkey", "timestamp", ...]
-                const header = response.data[0];
-                const rows = response.data.slice(1);
-
-                const results = rows.map((row: string[]) => {
-                    const result: any = {};
-                    header.forEach((key: string, index: number) => {
-                        result[key] = row[index];
-                    });
-                    return result as CdxResult;
+            if (await fs.pathExists(pageFile)) {
+                page = await fs.readJSON(pageFile).catch(() => null);
+                if (page) cached++;
+            }
+            if (!page) {
+                page = await this.fetchPage({
+                    ...params,
+                    limit: pageSize,
+                    showResumeKey: 'true',
+                    ...(resumeKey ? { resumeKey } : {})
                 });
+                // Written via rename so an interrupted run never leaves half a page behind
+                const tmpFile = `${pageFile}.${process.pid}.tmp`;
+                await fs.writeJSON(tmpFile, page);
+                await fs.rename(tmpFile, pageFile);
+                fetched++;
+            }
 
-                // console.log(`[DEBUG] Raw CDX results before filtering: ${results.length}`);
-                return this.filterResults(results);
+            results.push(...page.rows);
+            if (!page.resumeKey) break;
+            if (page.resumeKey === resumeKey) {
+                logger.warn(`CDX returned the same resume key twice for ${params.url}; stopping after page ${pageNumber}`);
+                break;
             }
-            return [];
-        } catch (error) {
-            console.error(`Error searching CDX for ${target}:`, error);
-            throw error;
+            resumeKey = page.resumeKey;
         }
+
+        if (cached > 0) {
+            logger.info(`CDX ${params.url}: ${results.length} rows from ${cached} cached + ${fetched} fetched pages`);
+        }
+        return results;
+    }
+
+    private cacheKey(params: Record<string, string | string[]>): string {
+        const canonical = Object.keys(params).sort().map(key => [key, params[key]]);
+        return crypto.createHash('sha1').update(JSON.stringify([this.baseUrl, canonical])).digest('hex');
     }
 
-    private filterResults(results: CdxResult[]): CdxResult[] {
-        return results.filter(r => {
-            // 1. Mime type check
-            const validMime = CONFIG.TARGET_MIME_TYPES.some(mime => r.mimetype.includes(mime));
+    private async fetchPage(params: Record<string, string | string[]>): Promise<CdxPage> {
+        const fullParams = {
+            output: 'json',
+            fl: 'urlkey,timestamp,original,mimetype,statuscode,digest,length',
+            ...params
+        };
+
+        // Rate limiting, retries and Retry-After handling live in the shared client
+        const response = await http.get(this.baseUrl, { params: fullParams });
+        if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+            return { rows: [] };
+        }
 
-            // 2. Extension check (fallback if mime is generic 'application/octet-stream' but URL ends in .pdf)
-            const hasExtension = CONFIG.TARGET_EXTENSIONS.some(ext => r.original.toLowerCase().endsWith(ext));
+        // First element is the header: ["urlkey", "timestamp", ...]. With showResumeKey
+        // the body ends with an empty row followed by [resumeKey].
+        const data: string[][] = response.data;
+        let resumeKey: string | undefined;
+        let end = data.length;
+        if (end >= 2 && data[end - 1].length === 1 && data[end - 2].length === 0) {
+            resumeKey = data[end - 1][0];
+            end -= 2;
+        }
 
-            if (!validMime && !hasExtension) return false;
+        const header = data[0];
+        const rows = data.slice(1, end).filter(row => row.length > 0).map(row => {
+            const result: any = {};
+            header.forEach((key: string, index: number) => {
+                result[key] = row[index];
+            });
+            return result as CdxResult;
+        });
+        return { rows, resumeKey };
+    }
 
-            // Refinement: If it's HTML, only keep it if it looks like a result page
-            if (r.mimetype.includes('text/html') || r.original.endsWith('.html') || r.original.endsWith('.htm')) {
-                const lowerUrl = r.original.toLowerCase();
-                // Basic keywords common in result URLs
-                if (!lowerUrl.includes('result') && !lowerUrl.includes('event') && !lowerUrl.includes('meet')) {
-                    // Only skip if we are strictly looking for results. 
-                    return false;
-                }
+    isDocument(r: CdxResult, era?: EraConfig): boolean {
+        const mimeTypes = era?.mimeTypes ?? CONFIG.TARGET_MIME_TYPES;
+        const extensions = era?.extensions ?? CONFIG.TARGET_EXTENSIONS;
+        const validMime = mimeTypes.some(mime => (r.mimetype || '').includes(mime));
+        const hasExtension = extensions.some(ext => r.original.toLowerCase().endsWith(ext));
+        return validMime || hasExtension;
+    }
+
+    /**
+     * Whether discovery keeps a capture: a document by MIME type or extension, and for
+     * HTML only pages whose URL has one of the era's keywords.
+     */
+    isWanted(r: CdxResult, era?: EraConfig): boolean {
+        // 1. Mime type check, with an extension fallback for generic
+        // 'application/octet-stream' captures of URLs ending in .pdf
+        if (!this.isDocument(r, era)) return false;
+
+        // Refinement: If it's HTML, only keep it if it looks like a result page
+        if (r.mimetype.includes('text/html') || r.original.endsWith('.html') || r.original.endsWith('.htm')) {
+            const lowerUrl = r.original.toLowerCase();
+            const keywords = era?.htmlKeywords ?? CONFIG.HTML_KEYWORDS;
+            // Keywords common in result URLs (per era, see eras.json); an empty list keeps every page
+            if (keywords.length > 0 && !keywords.some(keyword => lowerUrl.includes(keyword))) {
+                return false;
             }
+        }
+        return true;
+    }
 
-            return true;
-        });
+    private filterResults(results: CdxResult[], era?: EraConfig): CdxResult[] {
+        return results.filter(r => this.isWanted(r, era));
     }
 }
@@ -1,43 +1,64 @@
-export interface EraConfig {
-    id: string;
-    description: string;
-    targets: string[];
-    startYear: number;
-    endYear: number;
+import path from 'path';
+import { defaultErasFile, EraConfig, loadEras } from './eras';
+
+export type { EraConfig } from './eras';
+
+// Loaded from eras.json (or the file in USAW_ERAS_FILE); see eras.ts for the schema
+export const ERAS: Record<string, EraConfig> = loadEras(defaultErasFile());
+
+// Strips scheme, port and a leading www. so URLs and era targets compare on host + path
+function normalizeTarget(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/:\d+(?=\/|$)/, '')
+        .replace(/\/?\*$/, '');
 }
 
-export const ERAS: Record<string, EraConfig> = {
-    'early-web': {
-        id: 'early-web',
-        description: 'Early Web (2000-2004)',
-        targets: ['usaweightlifting.org', '*.usaweightlifting.org'],
-        startYear: 2000,
-        endYear: 2004
-    },
-    'msbn': {
-        id: 'msbn',
-        description: 'MSBN Era (2004-2008)',
-        targets: ['msbn.tv/usavision', 'msbn.tv/mmsysFrontEnd/*'],
-        startYear: 2004,
-        endYear: 2008
-    },
-    'hangastar': {
-        id: 'hangastar',
-        description: 'Hangastar Era (2008-2015)',
-        targets: ['weightlifting.teamusa.org', 'assets.teamusa.org'],
-        startYear: 2008,
-        endYear: 2015
+/**
+ * Finds the era whose targets cover a URL. When several eras cover the same host
+ * (usaweightlifting.org outlived the early-web era), the capture year breaks the tie.
+ */
+export function resolveEra(originalUrl: string, year?: number): EraConfig | undefined {
+    const url = normalizeTarget(originalUrl);
+    const host = url.split('/')[0];
+
+    const matches = Object.values(ERAS).filter(era => era.targets.some(target => {
+        if (target.startsWith('*.')) {
+            const suffix = normalizeTarget(target.substring(2));
+            return host === suffix || host.endsWith(`.${suffix}`);
+        }
+        const prefix = normalizeTarget(target);
+        return url === prefix || url.startsWith(`${prefix}/`);
+    }));
+
+    if (year !== undefined) {
+        const inRange = matches.find(era => year >= era.startYear && year <= era.endYear);
+        if (inRange) return inRange;
     }
-};
+    return matches[0];
+}
+
+/**
+ * Wayback playback URL to fetch a capture from (CONFIG.WAYBACK_URL, which may be a
+ * mirror or the stand-in). `raw` (the default) asks for the bytes as captured (`id_`),
+ * without the Wayback toolbar and link rewriting.
+ */
+export function playbackUrl(timestamp: string, url: string, raw = true): string {
+    return `${CONFIG.WAYBACK_URL}/${timestamp}${raw ? 'id_' : ''}/${url}`;
+}
+
+/**
+ * The same capture on the public Wayback Machine, for links and records that outlive
+ * the run: the inventory, provenance sidecars, rewritten pages and the static site.
+ */
+export function publicPlaybackUrl(timestamp: string, url: string, raw = true): string {
+    return `${CONFIG.PUBLIC_WAYBACK_URL}/${timestamp}${raw ? 'id_' : ''}/${url}`;
+}
 
 export const CONFIG = {
-    // Legacy support (will be replaced by Era logic logic in main execution if era is selected)
-    SEARCH_TARGETS: [
-        'usaweightlifting.org',
-        '*.usaweightlifting.org',
-        'msbn.tv/usavision',
-        'weightlifting.teamusa.org',
-    ],
+    // Discovery defaults; eras can override them in eras.json
     TARGET_EXTENSIONS: ['.pdf', '.xls', '.xlsx', '.doc', '.docx', '.html', '.htm'],
     TARGET_MIME_TYPES: [
         'text/html',
@@ -47,7 +68,60 @@ export const CONFIG = {
         'application/msword',
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ],
-    CDX_API_URL: 'http://web.archive.org/cdx/search/cdx',
+    // HTML captures are only kept when the URL contains one of these
+    HTML_KEYWORDS: ['result', 'event', 'meet'],
+    // Mirrors and regional sites the hunt command scans on top of the era targets
+    HUNT_EXTRA_DOMAINS: [
+        'lifttilyadie.com',
+        'usaw.org',
+        'iwf.net',
+        'sportsetc.net',
+        'ohioweightlifting.org',
+    ],
+    // Archive endpoints; the env overrides point the tools at a mirror or the local stand-in (standin.ts)
+    CDX_API_URL: process.env.USAW_CDX_API_URL || 'http://web.archive.org/cdx/search/cdx',
+    WAYBACK_URL: (process.env.USAW_WAYBACK_URL || 'http://web.archive.org/web').replace(/\/+$/, ''),
+    // Base of the Wayback links written into output; fixed, whatever WAYBACK_URL fetches from
+    PUBLIC_WAYBACK_URL: 'https://web.archive.org/web',
+    // Rows per CDX page, and where paged query responses are cached (see CdxClient.queryPaged)
+    CDX_PAGE_SIZE: 5000,
+    CDX_CACHE_DIR: './data/_cdx_cache',
     DATA_DIR: './data',
+    // Suffix for the untouched copy of an HTML page kept when its links are rewritten
+    ORIGINAL_SUFFIX: '.orig',
+    // Lists of items each discovery run added, relative to the inventory (see runs.ts)
+    CHANGELOG_DIR: 'discovery-changes',
+    // Where each saved document and recovered asset came from (see provenance.ts)
+    PROVENANCE_SUFFIX: '.provenance.json',
+    // Snapshots of a rendered HTML page kept next to it by the render command (see render.ts)
+    RENDER: {
+        PDF_SUFFIX: '.render.pdf',
+        PNG_SUFFIX: '.render.png',
+        VIEWPORT_WIDTH: 1024,
+        TIMEOUT_MS: 30000
+    },
+    // Static browsable archive generated by build-site
+    SITE_DIR: './site',
+    // SQLite database written by export-db (see database.ts)
+    DATABASE_PATH: './data/archive.sqlite',
+    // Categorization rules (see categorizer.ts) next to package.json, whatever the working
+    // directory; USAW_CATEGORY_RULES picks another file. Built-in keyword rules apply if missing
+    CATEGORY_RULES: process.env.USAW_CATEGORY_RULES || path.join(__dirname, '..', 'categories.json'),
+    // Full-text index used by the search command
+    SEARCH_INDEX: './data/_search/index.json',
+    // Safe to raise: the shared HTTP client rate-limits archive.org across all downloads
     CONCURRENT_DOWNLOADS: 1,
+    // Shared HTTP client (see http.ts); limits apply per host, all *.archive.org counting as one
+    HTTP: {
+        USER_AGENT: 'usaw-results-archive/1.0 (historical results preservation; low request rate)',
+        REQUESTS_PER_SECOND: Number(process.env.USAW_REQUESTS_PER_SECOND) || 1,
+        BURST: 2,
+        TIMEOUT_MS: 60000,
+        MAX_ATTEMPTS: 5,
+        BACKOFF_BASE_MS: 2000,
+        MAX_RETRY_AFTER_MS: 10 * 60 * 1000,
+        BREAKER_THRESHOLD: 5,
+        BREAKER_COOLDOWN_MS: 60 * 1000,
+        BREAKER_MAX_COOLDOWN_MS: 15 * 60 * 1000,
+    },
 };
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CdxClient } from './cdx';
+import { CONFIG, playbackUrl } from './config';
+import { LinkCrawler } from './crawler';
+import { http } from './http';
+import { createInventoryItem, InventoryStore } from './inventory';
+import { itemPath } from './layout';
+import { WaybackStandIn } from './standin';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'wayback');
+const PAGE_URL = 'http://www.usaweightlifting.org/competition/2003/meet_results.html';
+const MASTERS_URL = 'http://www.mindspring.com/~us003288/results/2003/masters.html';
+
+describe('LinkCrawler.collectLinks', () => {
+    it('resolves links and iframes against the page, without fragments or non-web schemes', () => {
+        const html = `<a href="b.pdf#p2">b</a><a href="/x/c.html">c</a><a href="mailto:a@b.org">mail</a>
+            <a href="javascript:void(0)">js</a><area href="map.html"><iframe src="menu.html"></iframe><a href="b.pdf">again</a>`;
+        assert.deepEqual(LinkCrawler.collectLinks(html, 'http://www.usaweightlifting.org/results/2003/index.html'), [
+            'http://www.usaweightlifting.org/results/2003/b.pdf',
+            'http://www.usaweightlifting.org/x/c.html',
+            'http://www.usaweightlifting.org/results/2003/map.html',
+            'http://www.usaweightlifting.org/results/2003/menu.html'
+        ]);
+    });
+});
+
+describe('LinkCrawler against the stand-in', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+    let store: InventoryStore;
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(path.join(FIXTURES, 'captures.json'))).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-crawl-'));
+        CONFIG.CDX_API_URL = standIn.cdxUrl;
+        CONFIG.WAYBACK_URL = standIn.waybackUrl;
+        CONFIG.DATA_DIR = path.join(workDir, 'data');
+        CONFIG.HTTP.REQUESTS_PER_SECOND = 1000;
+        CONFIG.HTTP.BURST = 1000;
+
+        // Only the meet page is known and downloaded
+        const [capture] = await new CdxClient().query({ url: PAGE_URL });
+        const page = createInventoryItem(capture, 'early-web');
+        page.localPath = itemPath(page);
+        page.status = 'downloaded';
+        await http.download(playbackUrl(page.timestamp, page.originalUrl), page.localPath);
+
+        store = await InventoryStore.load(path.join(workDir, 'inventory.json'), { allowMissing: true });
+        store.add(page);
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    it('adds linked documents from the era hosts with the linking page as provenance', async () => {
+        const stats = await new LinkCrawler().crawl(store);
+
+        // staff.html is archived but not a results page; the off-site masters link is out of scope
+        assert.deepEqual(stats, { pages: 1, links: 2, added: 1, notArchived: 0, filtered: 1 });
+        const pdf = store.all().find(item => item.filename === 'nationals.pdf')!;
+        // The capture closest to the meet page (2003-11-01), not the 2004 one
+        assert.equal(pdf.timestamp, '20031213060615');
+        assert.equal(pdf.status, 'discovered');
+        assert.deepEqual(pdf.linkedFrom, { url: PAGE_URL, timestamp: '20031101000000', depth: 1 });
+    });
+
+    it('follows linked pages on allowed hosts up to the depth limit', async () => {
+        const stats = await new LinkCrawler().crawl(store, { depth: 2, hosts: ['usaweightlifting.org', 'mindspring.com'] });
+
+        // masters.html links its PDF and a home page that was never archived
+        assert.deepEqual(stats, { pages: 2, links: 4, added: 2, notArchived: 1, filtered: 1 });
+        const masters = store.all().find(item => item.originalUrl === MASTERS_URL)!;
+        assert.equal(masters.era, 'early-web');
+        assert.deepEqual(masters.linkedFrom, { url: PAGE_URL, timestamp: '20031101000000', depth: 1 });
+
+        const pdf = store.all().find(item => item.filename === 'masters_2003.pdf')!;
+        assert.deepEqual(pdf.linkedFrom, { url: MASTERS_URL, timestamp: '20031120000000', depth: 2 });
+        assert.equal(store.size, 4);
+    });
+});
@@ -0,0 +1,176 @@
+import fs from 'fs-extra';
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { CdxClient, normalizeCdxUrl } from './cdx';
+import { ERAS, playbackUrl, resolveEra } from './config';
+import { CircuitOpenError, http } from './http';
+import { IntegrityChecker } from './integrity';
+import { createInventoryItem, InventoryStore } from './inventory';
+import { logger } from './logger';
+import { uniqueFilename, versionKey } from './versions';
+
+export interface CrawlOptions {
+    // Link levels to follow from the downloaded pages; 1 = only their own links
+    depth?: number;
+    // Hosts to follow links to, subdomains included; by default any URL inside an era's targets
+    hosts?: string[];
+    // Only start from downloaded pages of this era
+    era?: string;
+}
+
+export interface CrawlStats {
+    pages: number;       // pages whose links were read
+    links: number;       // new in-scope URLs looked up in CDX
+    added: number;
+    notArchived: number;
+    filtered: number;    // archived, but not a document discovery would keep
+    // Set when archive.org stopped answering (circuit open); what was found is kept
+    stoppedEarly?: string;
+}
+
+interface CrawlPage {
+    url: string;
+    timestamp: string;
+    era: string;
+    depth: number;
+    html: () => Promise<string>;
+}
+
+/**
+ * Discovers documents by following links instead of CDX prefix searches, which miss
+ * documents on other hosts or outside the searched prefixes. Starting from downloaded
+ * HTML, each link is looked up in CDX (capture closest to the linking page) and added
+ * to the inventory with `linkedFrom` provenance. Linked HTML pages are fetched from
+ * the archive and followed in turn, up to `depth` levels.
+ */
+export class LinkCrawler {
+    constructor(private cdxClient = new CdxClient()) { }
+
+    // Absolute http(s) URLs the page links to, without fragments
+    static collectLinks(html: string, pageUrl: string): string[] {
+        const $ = cheerio.load(html);
+        const links = new Set<string>();
+        const add = (ref: string | undefined) => {
+            if (!ref || /^(mailto|javascript|data|tel):/i.test(ref.trim())) return;
+            try {
+                const url = new URL(ref.trim(), pageUrl);
+                if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+                url.hash = '';
+                links.add(url.toString());
+            } catch {
+                // Unparseable reference
+            }
+        };
+
+        $('a[href], area[href]').each((_, el) => add($(el).attr('href')));
+        $('frame[src], iframe[src]').each((_, el) => add($(el).attr('src')));
+        return Array.from(links);
+    }
+
+    async crawl(store: InventoryStore, options: CrawlOptions = {}): Promise<CrawlStats> {
+        const maxDepth = options.depth ?? 1;
+        const stats: CrawlStats = { pages: 0, links: 0, added: 0, notArchived: 0, filtered: 0 };
+        const seen = new Set(store.all().map(item => versionKey(item)));
+
+        const frontier: CrawlPage[] = [];
+        for (const item of store.all()) {
+            if (item.status !== 'downloaded' || !item.localPath || !/\.html?$/i.test(item.localPath)) continue;
+            if (options.era && item.era !== options.era) continue;
+            if (!await fs.pathExists(item.localPath)) continue;
+            const localPath = item.localPath;
+            frontier.push({
+                url: item.originalUrl,
+                timestamp: item.timestamp,
+                era: item.era,
+                depth: 0,
+                // The page as downloaded; the rewritten copy links to local files
+                html: async () => fs.readFile(await IntegrityChecker.payloadPath(localPath), 'utf-8')
+            });
+        }
+        logger.info(`Crawling links from ${frontier.length} downloaded pages (depth ${maxDepth})`);
+
+        try {
+            await this.follow(store, frontier, seen, maxDepth, options.hosts, stats);
+        } catch (err: any) {
+            if (!(err instanceof CircuitOpenError)) throw err;
+            stats.stoppedEarly = err.message;
+        }
+        return stats;
+    }
+
+    private async follow(store: InventoryStore, frontier: CrawlPage[], seen: Set<string>, maxDepth: number,
+        hosts: string[] | undefined, stats: CrawlStats): Promise<void> {
+        for (let i = 0; i < frontier.length; i++) {
+            const page = frontier[i];
+            let html: string;
+            try {
+                html = await page.html();
+            } catch (err: any) {
+                if (err instanceof CircuitOpenError) throw err;
+                logger.warn(`Could not read ${page.url} @ ${page.timestamp}: ${err.message}`);
+                continue;
+            }
+            stats.pages++;
+
+            for (const link of LinkCrawler.collectLinks(html, page.url)) {
+                const key = versionKey({ originalUrl: link });
+                if (seen.has(key) || !this.inScope(link, hosts)) continue;
+                seen.add(key);
+                stats.links++;
+
+                let capture;
+                try {
+                    [capture] = await this.cdxClient.query({
+                        url: link,
+                        closest: page.timestamp,
+                        limit: '1',
+                        filter: 'statuscode:200'
+                    });
+                } catch (err: any) {
+                    if (err instanceof CircuitOpenError) throw err;
+                    logger.warn(`CDX lookup failed for ${link}: ${err.message}`);
+                    continue;
+                }
+                if (!capture) {
+                    stats.notArchived++;
+                    continue;
+                }
+
+                const year = parseInt(capture.timestamp.substring(0, 4));
+                const era = resolveEra(capture.original, year)?.id || page.era;
+                if (!this.cdxClient.isWanted(capture, ERAS[era])) {
+                    stats.filtered++;
+                    continue;
+                }
+                if (store.has(capture.digest)) continue;
+
+                const item = createInventoryItem(capture, era);
+                item.linkedFrom = { url: page.url, timestamp: page.timestamp, depth: page.depth + 1 };
+                item.filename = uniqueFilename(item, store);
+                store.add(item);
+                stats.added++;
+                logger.info(`Found ${capture.original} @ ${capture.timestamp} via ${page.url}`);
+
+                const isHtml = capture.mimetype.includes('text/html') || /\.html?$/i.test(item.filename);
+                if (isHtml && page.depth + 1 < maxDepth) {
+                    frontier.push({
+                        url: capture.original,
+                        timestamp: capture.timestamp,
+                        era,
+                        depth: page.depth + 1,
+                        html: async () => (await http.get<string>(playbackUrl(item.timestamp, item.originalUrl), { responseType: 'text' })).data
+                    });
+                }
+            }
+        }
+    }
+
+    private inScope(url: string, hosts?: string[]): boolean {
+        if (!hosts || hosts.length === 0) return !!resolveEra(url);
+        const host = normalizeCdxUrl(url).replace(/[/?].*$/, '');
+        return hosts.some(allowed => {
+            const normalized = normalizeCdxUrl(allowed).replace(/[/?].*$/, '');
+            return host === normalized || host.endsWith(`.${normalized}`);
+        });
+    }
+}
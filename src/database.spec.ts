@@ -0,0 +1,160 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CONFIG } from './config';
+import { DatabaseExporter, SCHEMA_VERSION } from './database';
+import { InventoryItem } from './inventory';
+import { writeProvenance } from './provenance';
+import { ResultDocument } from './results';
+
+const PAGE_URL = 'http://www.usaweightlifting.org/results/2003/meet_results.html';
+const PAGE_CAPTURE = 'org,usaweightlifting)/results/2003/meet_results.html 20031213060615';
+const XLS_CAPTURE = 'tv,msbn)/usavision/nationals.xls 20060601000000';
+
+describe('DatabaseExporter', () => {
+    let workDir: string;
+    let dbPath: string;
+    let items: InventoryItem[];
+    const dataDir = CONFIG.DATA_DIR;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-db-'));
+        dbPath = path.join(workDir, 'archive.sqlite');
+        CONFIG.DATA_DIR = path.join(workDir, 'data');
+
+        const pagePath = path.join(CONFIG.DATA_DIR, 'early-web', '2003', 'results', 'meet_results.html');
+        await fs.outputFile(pagePath, '<html><body><img src="/images/logo.gif"><img src="/images/gone.gif"><img src="/images/logo.gif"></body></html>');
+        const logoPath = path.join(CONFIG.DATA_DIR, 'early-web', '2003', 'images', 'logo.gif');
+        await fs.outputFile(logoPath, 'GIF89a');
+        await writeProvenance(logoPath, {
+            kind: 'asset',
+            originalUrl: 'http://www.usaweightlifting.org/images/logo.gif',
+            timestamp: '20031101000000',
+            waybackUrl: 'http://web.archive.org/web/20031101000000id_/http://www.usaweightlifting.org/images/logo.gif',
+            lookup: 'root'
+        });
+
+        const results: ResultDocument = {
+            sourcePath: 'data/msbn/2006/results/nationals.xls',
+            parser: 'spreadsheet',
+            layout: 'sheet',
+            meet: '2006 National Championships',
+            date: '2006-05-20',
+            extractedAt: '2024-01-01T00:00:00Z',
+            records: [
+                {
+                    meet: null, date: null, weightClass: '69', name: 'Jane Lifter', club: 'Club A', state: 'CA', bodyweight: 68.4,
+                    snatch: [80, -85, 85], bestSnatch: 85, cleanJerk: [100, 105], bestCleanJerk: 105, total: 190, place: 1,
+                    source: { section: 'Women', row: 4 }, raw: ['Jane Lifter', '68.4']
+                },
+                {
+                    meet: null, date: null, weightClass: '69', name: 'Ann Other', club: null, state: null, bodyweight: null,
+                    snatch: [], bestSnatch: null, cleanJerk: [], bestCleanJerk: null, total: null, place: null,
+                    source: { row: 5 }, raw: ['Ann Other']
+                }
+            ],
+            unparsed: []
+        };
+        const resultsPath = path.join(workDir, 'nationals.xls.results.json');
+        await fs.writeJSON(resultsPath, results);
+
+        items = [
+            {
+                id: 'PAGEDIGEST', era: 'early-web', year: 2003, category: 'results', filename: 'meet_results.html',
+                originalUrl: PAGE_URL, waybackUrl: `http://web.archive.org/web/20031213060615id_/${PAGE_URL}`,
+                timestamp: '20031213060615', status: 'downloaded', localPath: pagePath, canonical: true,
+                linkedFrom: { url: 'http://www.usaweightlifting.org/', timestamp: '20031201000000', depth: 1 },
+                render: { status: 'rendered', missing: [], blocked: ['http://example.com/x.js'], errors: [], renderedAt: '2024-01-02T00:00:00Z' }
+            },
+            {
+                id: 'XLSDIGEST', era: 'msbn', year: 2006, category: 'results', filename: 'nationals.xls',
+                originalUrl: 'http://msbn.tv/usavision/nationals.xls', waybackUrl: 'http://web.archive.org/web/20060601000000id_/http://msbn.tv/usavision/nationals.xls',
+                timestamp: '20060601000000', status: 'downloaded', localPath: results.sourcePath,
+                extraction: { parser: 'spreadsheet', layout: 'sheet', records: 2, unparsed: 0, outputPath: resultsPath, extractedAt: '2024-01-01T00:00:00Z' }
+            },
+            {
+                id: 'XLSDIGEST', era: 'msbn', year: 2007, category: 'governance', filename: 'bylaws.doc',
+                originalUrl: 'http://msbn.tv/usavision/bylaws.doc', waybackUrl: 'http://web.archive.org/web/20070101000000id_/http://msbn.tv/usavision/bylaws.doc',
+                timestamp: '20070101000000', status: 'failed', attempts: 3, lastError: 'HTTP 503'
+            }
+        ];
+    });
+
+    after(async () => {
+        CONFIG.DATA_DIR = dataDir;
+        await fs.remove(workDir);
+    });
+
+    it('writes items, assets, eras and result rows that join by era and year', async () => {
+        const result = await new DatabaseExporter(items, 'inventory.json').export(dbPath);
+        assert.deepEqual([result.items, result.assets, result.missingAssets, result.results, result.missingResults, result.duplicates], [3, 1, 1, 2, 0, 0]);
+
+        const db = new Database(dbPath, { readonly: true });
+        try {
+            // Reused ids stay apart under their capture
+            assert.deepEqual(db.prepare('SELECT capture, filename FROM items WHERE id = ? ORDER BY capture').all('XLSDIGEST'), [
+                { capture: 'tv,msbn)/usavision/bylaws.doc 20070101000000', filename: 'bylaws.doc' },
+                { capture: XLS_CAPTURE, filename: 'nationals.xls' }
+            ]);
+
+            const page = db.prepare('SELECT canonical, linked_from_depth, render_blocked FROM items WHERE capture = ?').get(PAGE_CAPTURE) as { canonical: number; linked_from_depth: number; render_blocked: string };
+            assert.equal(page.canonical, 1);
+            assert.equal(page.linked_from_depth, 1);
+            assert.deepEqual(JSON.parse(page.render_blocked), ['http://example.com/x.js']);
+
+            const byYear = db.prepare(`
+                SELECT i.year, COUNT(DISTINCT i.capture) AS documents, COUNT(r.result_no) AS rows
+                FROM items i JOIN eras e ON e.id = i.era LEFT JOIN results r ON r.capture = i.capture
+                WHERE e.id = 'msbn' AND i.category = 'results'
+                GROUP BY i.year ORDER BY i.year`).all();
+            assert.deepEqual(byYear, [{ year: 2006, documents: 1, rows: 2 }]);
+
+            const jane = db.prepare('SELECT meet, snatch1, snatch2, snatch3, clean_jerk3, section FROM results WHERE name = ?').get('Jane Lifter') as
+                { meet: string; snatch1: number; snatch2: number; snatch3: number; clean_jerk3: number | null; section: string };
+            assert.equal(jane.meet, '2006 National Championships');
+            assert.deepEqual([jane.snatch1, jane.snatch2, jane.snatch3, jane.clean_jerk3], [80, -85, 85, null]);
+            assert.equal(jane.section, 'Women');
+
+            const assets = db.prepare('SELECT url, status, timestamp, lookup FROM assets WHERE capture = ? ORDER BY url').all(PAGE_CAPTURE);
+            assert.deepEqual(assets, [
+                { url: 'http://www.usaweightlifting.org/images/gone.gif', status: 'missing', timestamp: null, lookup: null },
+                { url: 'http://www.usaweightlifting.org/images/logo.gif', status: 'recovered', timestamp: '20031101000000', lookup: 'root' }
+            ]);
+
+            assert.ok((db.prepare('SELECT COUNT(*) AS n FROM era_targets WHERE era_id = ?').get('msbn') as { n: number }).n > 0);
+            assert.equal((db.prepare(`SELECT value FROM meta WHERE key = 'schema_version'`).get() as { value: string }).value, String(SCHEMA_VERSION));
+        } finally {
+            db.close();
+        }
+    });
+
+    it('replaces the previous export on a re-run', async () => {
+        await new DatabaseExporter(items, 'inventory.json').export(dbPath);
+        await new DatabaseExporter(items.slice(0, 2), 'inventory.json').export(dbPath);
+
+        const db = new Database(dbPath, { readonly: true });
+        try {
+            const counts = ['items', 'assets', 'results'].map(table => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n);
+            assert.deepEqual(counts, [2, 2, 2]);
+        } finally {
+            db.close();
+        }
+        assert.deepEqual((await fs.readdir(workDir)).filter(name => name.endsWith('.tmp')), []);
+    });
+
+    it('keeps joins stable when the inventory is reordered and skips repeated captures', async () => {
+        const result = await new DatabaseExporter([...items].reverse().concat({ ...items[1], id: 'COPY' }), 'inventory.json').export(dbPath);
+        assert.deepEqual([result.items, result.results, result.duplicates], [3, 2, 1]);
+
+        const db = new Database(dbPath, { readonly: true });
+        try {
+            const rows = db.prepare('SELECT i.id, COUNT(r.result_no) AS n FROM items i JOIN results r ON r.capture = i.capture WHERE i.capture = ?').get(XLS_CAPTURE);
+            assert.deepEqual(rows, { id: 'XLSDIGEST', n: 2 });
+        } finally {
+            db.close();
+        }
+    });
+});
@@ -0,0 +1,266 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { AssetRecovery } from './assets';
+import { ERAS } from './config';
+import { IntegrityChecker } from './integrity';
+import { InventoryItem } from './inventory';
+import { logger } from './logger';
+import { readProvenance } from './provenance';
+import { ResultDocument } from './results';
+import { captureKey } from './versions';
+
+// Bumped whenever a table or column changes, so saved queries can check what they run against
+export const SCHEMA_VERSION = 2;
+
+type Value = string | number | null;
+
+const json = (value: unknown): string | null => value === undefined ? null : JSON.stringify(value);
+const orNull = <T>(value: T | undefined): T | null => value === undefined ? null : value;
+
+// One column per InventoryItem field; nested objects are flattened, lists kept as JSON text
+const ITEM_COLUMNS: [string, string, (item: InventoryItem) => Value][] = [
+    ['id', 'TEXT NOT NULL', item => item.id],
+    ['era', 'TEXT NOT NULL', item => item.era],
+    ['year', 'INTEGER NOT NULL', item => item.year],
+    ['category', 'TEXT NOT NULL', item => item.category],
+    ['subcategory', 'TEXT', item => orNull(item.subcategory)],
+    ['filename', 'TEXT NOT NULL', item => item.filename],
+    ['original_url', 'TEXT NOT NULL', item => item.originalUrl],
+    ['wayback_url', 'TEXT NOT NULL', item => item.waybackUrl],
+    ['timestamp', 'TEXT NOT NULL', item => item.timestamp],
+    ['status', 'TEXT NOT NULL', item => item.status],
+    ['digest', 'TEXT', item => orNull(item.digest)],
+    ['local_path', 'TEXT', item => orNull(item.localPath)],
+    ['urlkey', 'TEXT', item => orNull(item.urlkey)],
+    ['mimetype', 'TEXT', item => orNull(item.mimetype)],
+    ['canonical', 'INTEGER', item => item.canonical === undefined ? null : Number(item.canonical)],
+    ['linked_from_url', 'TEXT', item => orNull(item.linkedFrom?.url)],
+    ['linked_from_timestamp', 'TEXT', item => orNull(item.linkedFrom?.timestamp)],
+    ['linked_from_depth', 'INTEGER', item => orNull(item.linkedFrom?.depth)],
+    ['redirects', 'TEXT', item => json(item.redirects)],
+    ['attempts', 'INTEGER', item => orNull(item.attempts)],
+    ['last_error', 'TEXT', item => orNull(item.lastError)],
+    ['last_attempt_at', 'TEXT', item => orNull(item.lastAttemptAt)],
+    ['downloaded_at', 'TEXT', item => orNull(item.downloadedAt)],
+    ['integrity', 'TEXT', item => orNull(item.integrity)],
+    ['actual_digest', 'TEXT', item => orNull(item.actualDigest)],
+    ['quarantined_path', 'TEXT', item => orNull(item.quarantinedPath)],
+    ['extraction_parser', 'TEXT', item => orNull(item.extraction?.parser)],
+    ['extraction_layout', 'TEXT', item => orNull(item.extraction?.layout)],
+    ['extraction_records', 'INTEGER', item => orNull(item.extraction?.records)],
+    ['extraction_unparsed', 'INTEGER', item => orNull(item.extraction?.unparsed)],
+    ['extraction_confidence', 'REAL', item => orNull(item.extraction?.confidence)],
+    ['extraction_output_path', 'TEXT', item => orNull(item.extraction?.outputPath)],
+    ['extraction_text_path', 'TEXT', item => orNull(item.extraction?.textPath)],
+    ['extracted_at', 'TEXT', item => orNull(item.extraction?.extractedAt)],
+    ['render_status', 'TEXT', item => orNull(item.render?.status)],
+    ['render_pdf_path', 'TEXT', item => orNull(item.render?.pdfPath)],
+    ['render_png_path', 'TEXT', item => orNull(item.render?.pngPath)],
+    ['render_missing', 'TEXT', item => json(item.render?.missing)],
+    ['render_blocked', 'TEXT', item => json(item.render?.blocked)],
+    ['render_errors', 'TEXT', item => json(item.render?.errors)],
+    ['rendered_at', 'TEXT', item => orNull(item.render?.renderedAt)]
+];
+
+// capture ("<urlkey> <timestamp>") identifies an item across exports: older inventories reuse
+// ids, and positions shift when inventories are merged.
+// items.era is not a foreign key because 'unknown' and 'custom' are not configured eras.
+const SCHEMA = `
+CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT
+);
+CREATE TABLE eras (
+    id TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    start_year INTEGER NOT NULL,
+    end_year INTEGER NOT NULL,
+    extensions TEXT,
+    mime_types TEXT,
+    html_keywords TEXT
+);
+CREATE TABLE era_targets (
+    era_id TEXT NOT NULL REFERENCES eras(id),
+    target TEXT NOT NULL,
+    PRIMARY KEY (era_id, target)
+);
+CREATE TABLE items (
+    capture TEXT PRIMARY KEY,
+${ITEM_COLUMNS.map(([name, type]) => `    ${name} ${type}`).join(',\n')}
+);
+CREATE TABLE assets (
+    capture TEXT NOT NULL REFERENCES items(capture),
+    url TEXT NOT NULL,
+    reference TEXT NOT NULL,
+    local_path TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('recovered', 'missing')),
+    timestamp TEXT,
+    wayback_url TEXT,
+    cdx_digest TEXT,
+    sha1 TEXT,
+    content_type TEXT,
+    length INTEGER,
+    lookup TEXT,
+    fetched_at TEXT,
+    PRIMARY KEY (capture, url)
+);
+CREATE TABLE results (
+    result_no INTEGER PRIMARY KEY,
+    capture TEXT NOT NULL REFERENCES items(capture),
+    meet TEXT,
+    date TEXT,
+    weight_class TEXT,
+    name TEXT NOT NULL,
+    club TEXT,
+    state TEXT,
+    bodyweight REAL,
+    snatch1 REAL,
+    snatch2 REAL,
+    snatch3 REAL,
+    best_snatch REAL,
+    clean_jerk1 REAL,
+    clean_jerk2 REAL,
+    clean_jerk3 REAL,
+    best_clean_jerk REAL,
+    total REAL,
+    place INTEGER,
+    section TEXT,
+    source_row INTEGER NOT NULL,
+    raw TEXT NOT NULL
+);
+CREATE INDEX items_era_category_year ON items (era, category, year);
+CREATE INDEX items_status ON items (status);
+CREATE INDEX items_id ON items (id);
+CREATE INDEX items_urlkey ON items (urlkey);
+CREATE INDEX assets_url ON assets (url);
+CREATE INDEX results_capture ON results (capture);
+CREATE INDEX results_name ON results (name);
+`;
+
+export interface DatabaseExportResult {
+    path: string;
+    eras: number;
+    items: number;
+    assets: number;
+    missingAssets: number;
+    results: number;
+    // Extracted items whose .results.json is gone
+    missingResults: number;
+    // Inventory items repeating a capture already written; only the first is kept
+    duplicates: number;
+}
+
+/**
+ * Writes the inventory, the assets of downloaded pages, the configured eras and all
+ * extracted result rows to a SQLite database for ad-hoc SQL. The database is built
+ * from scratch next to the target and renamed over it, so a re-export replaces the
+ * previous one completely and an interrupted export leaves the old one in place.
+ */
+export class DatabaseExporter {
+    private recovery = new AssetRecovery();
+
+    constructor(private items: InventoryItem[], private source: string) { }
+
+    async export(dbPath: string): Promise<DatabaseExportResult> {
+        const dir = path.dirname(path.resolve(dbPath));
+        await fs.ensureDir(dir);
+        const tmpPath = path.join(dir, `.${path.basename(dbPath)}.${process.pid}.tmp`);
+        await fs.remove(tmpPath);
+
+        const db = new Database(tmpPath);
+        const result: DatabaseExportResult = { path: dbPath, eras: 0, items: 0, assets: 0, missingAssets: 0, results: 0, missingResults: 0, duplicates: 0 };
+        try {
+            db.exec(SCHEMA);
+            db.exec('BEGIN');
+            this.writeMeta(db);
+            result.eras = this.writeEras(db);
+
+            const insertItem = db.prepare(`INSERT OR IGNORE INTO items (capture, ${ITEM_COLUMNS.map(([name]) => name).join(', ')}) `
+                + `VALUES (${ITEM_COLUMNS.map(() => '?').concat('?').join(', ')})`);
+            for (const item of this.items) {
+                const capture = captureKey(item);
+                if (insertItem.run(capture, ...ITEM_COLUMNS.map(([, , value]) => value(item))).changes === 0) {
+                    logger.warn(`${item.filename} (${item.id}) repeats capture ${capture}; keeping the first record`);
+                    result.duplicates++;
+                    continue;
+                }
+                result.items++;
+                await this.writeAssets(db, capture, item, result);
+                await this.writeResults(db, capture, item, result);
+            }
+            db.exec('COMMIT');
+            db.close();
+        } catch (err) {
+            db.close();
+            await fs.remove(tmpPath);
+            throw err;
+        }
+        await fs.rename(tmpPath, dbPath);
+        return result;
+    }
+
+    private writeMeta(db: Database.Database): void {
+        const insert = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)');
+        insert.run('schema_version', String(SCHEMA_VERSION));
+        insert.run('exported_at', new Date().toISOString());
+        insert.run('inventory', this.source);
+    }
+
+    private writeEras(db: Database.Database): number {
+        const insertEra = db.prepare('INSERT INTO eras (id, description, start_year, end_year, extensions, mime_types, html_keywords) VALUES (?, ?, ?, ?, ?, ?, ?)');
+        const insertTarget = db.prepare('INSERT OR IGNORE INTO era_targets (era_id, target) VALUES (?, ?)');
+        const eras = Object.values(ERAS);
+        for (const era of eras) {
+            insertEra.run(era.id, era.description, era.startYear, era.endYear, json(era.extensions), json(era.mimeTypes), json(era.htmlKeywords));
+            era.targets.forEach(target => insertTarget.run(era.id, target));
+        }
+        return eras.length;
+    }
+
+    // Assets a downloaded HTML page references, recovered or not (as in `assets --check`)
+    private async writeAssets(db: Database.Database, capture: string, item: InventoryItem, result: DatabaseExportResult): Promise<void> {
+        if (item.status !== 'downloaded' || !item.localPath || !/\.html?$/i.test(item.localPath)) return;
+        const payload = await IntegrityChecker.payloadPath(item.localPath);
+        if (!await fs.pathExists(payload)) return;
+
+        const insert = db.prepare(`INSERT OR IGNORE INTO assets (capture, url, reference, local_path, status, timestamp, wayback_url,
+            cdx_digest, sha1, content_type, length, lookup, fetched_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+        const html = await fs.readFile(payload, 'utf-8');
+        for (const asset of this.recovery.pageAssets(item, item.localPath, html)) {
+            const recovered = await fs.pathExists(asset.localPath);
+            const provenance = recovered ? await readProvenance(asset.localPath) : null;
+            const inserted = insert.run(capture, asset.url, asset.reference, path.relative(process.cwd(), asset.localPath),
+                recovered ? 'recovered' : 'missing', orNull(provenance?.timestamp), orNull(provenance?.waybackUrl),
+                orNull(provenance?.cdxDigest), orNull(provenance?.sha1), orNull(provenance?.contentType),
+                orNull(provenance?.length), orNull(provenance?.lookup), orNull(provenance?.fetchedAt));
+            if (inserted.changes === 0) continue;
+            if (recovered) result.assets++; else result.missingAssets++;
+        }
+    }
+
+    private async writeResults(db: Database.Database, capture: string, item: InventoryItem, result: DatabaseExportResult): Promise<void> {
+        if (!item.extraction) return;
+        let doc: ResultDocument;
+        try {
+            doc = await fs.readJSON(item.extraction.outputPath);
+        } catch (err: any) {
+            logger.warn(`Results of ${item.filename} not readable (${item.extraction.outputPath}): ${err.message}`);
+            result.missingResults++;
+            return;
+        }
+
+        const insert = db.prepare(`INSERT INTO results (capture, meet, date, weight_class, name, club, state, bodyweight,
+            snatch1, snatch2, snatch3, best_snatch, clean_jerk1, clean_jerk2, clean_jerk3, best_clean_jerk,
+            total, place, section, source_row, raw) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+        for (const record of doc.records) {
+            const snatch = [0, 1, 2].map(i => orNull(record.snatch[i]));
+            const cleanJerk = [0, 1, 2].map(i => orNull(record.cleanJerk[i]));
+            insert.run(capture, record.meet ?? doc.meet, record.date ?? doc.date, record.weightClass, record.name,
+                record.club, record.state, record.bodyweight, ...snatch, record.bestSnatch, ...cleanJerk,
+                record.bestCleanJerk, record.total, record.place, orNull(record.source.section), record.source.row,
+                JSON.stringify(record.raw));
+            result.results++;
+        }
+    }
+}
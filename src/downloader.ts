@@ -1,19 +1,23 @@
-import axios from 'axios';
 import fs from 'fs-extra';
 import path from 'path';
-import { CONFIG } from './config';
+import { CONFIG, playbackUrl, publicPlaybackUrl } from './config';
 import { CdxResult } from './cdx';
+import { IntegrityChecker } from './integrity';
+import { logger } from './logger';
+import { DownloadResponse, http } from './http';
+import { writeProvenance } from './provenance';
 import * as crypto from 'crypto';
 
 export class Downloader {
     private dataDir = CONFIG.DATA_DIR;
+    private integrity = new IntegrityChecker();
 
     constructor() {
         fs.ensureDirSync(this.dataDir);
     }
 
     async downloadFile(result: CdxResult): Promise<void> {
-        const waybackUrl = `http://web.archive.org/web/${result.timestamp}id_/${result.original}`;
+        const waybackUrl = publicPlaybackUrl(result.timestamp, result.original);
 
         // Parse timestamp to get year
         const year = result.timestamp.substring(0, 4);
@@ -34,45 +38,41 @@ export class Downloader {
 
         const filePath = path.join(targetDir, filename);
 
-        // Check if file exists and has same size (loose check)
+        // An existing file is only trusted if it still hashes to the capture digest
         if (await fs.pathExists(filePath)) {
-            console.log(`Skipping existing file: ${filePath}`);
-            return;
+            const existing = await this.integrity.verifyFile(filePath, result.digest);
+            if (existing.outcome !== 'mismatch') {
+                logger.info(`Skipping existing file: ${filePath}`);
+                return;
+            }
+            const moved = await this.integrity.quarantine(filePath);
+            logger.warn(`Existing file ${filePath} does not match digest ${result.digest}, quarantined to ${moved}`);
         }
 
-        console.log(`Downloading: ${result.original} -> ${filePath}`);
-
-        for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-                const response = await axios({
-                    url: waybackUrl,
-                    method: 'GET',
-                    responseType: 'stream',
-                    timeout: 60000, // Increased timeout to 60s
-                });
-
-                const writer = fs.createWriteStream(filePath);
-                response.data.pipe(writer);
-
-                await new Promise((resolve, reject) => {
-                    writer.on('finish', resolve);
-                    writer.on('error', reject);
-                });
-                return; // Success
-            } catch (error: any) {
-                console.error(`Failed to download ${result.original} (Attempt ${attempt}/3): ${error.message}`);
+        logger.info(`Downloading: ${result.original} -> ${filePath}`);
 
-                // Clean up partial file
-                if (await fs.pathExists(filePath)) {
-                    await fs.unlink(filePath).catch(() => { });
-                }
+        let response: DownloadResponse;
+        try {
+            response = await http.download(playbackUrl(result.timestamp, result.original), filePath);
+        } catch (error: any) {
+            logger.error(`Failed to download ${result.original}: ${error.message}`);
+            return;
+        }
 
-                if (attempt < 3) {
-                    const delay = 2000 * Math.pow(2, attempt); // 4s, 8s, 16s
-                    console.log(`Retrying in ${delay}ms...`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                }
-            }
+        const check = await this.integrity.verifyFile(filePath, result.digest);
+        if (check.outcome === 'mismatch') {
+            const moved = await this.integrity.quarantine(filePath);
+            logger.error(`Digest mismatch for ${result.original} (expected ${check.expected}, got ${check.actual}); quarantined to ${moved}`);
+            return;
         }
+        await writeProvenance(filePath, {
+            kind: 'document',
+            originalUrl: result.original,
+            timestamp: result.timestamp,
+            waybackUrl,
+            cdxDigest: result.digest,
+            contentType: response.headers['content-type'] || result.mimetype,
+            headers: response.headers
+        });
     }
 }
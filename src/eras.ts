@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+
+export interface EraConfig {
+    id: string;
+    description: string;
+    targets: string[];
+    startYear: number;
+    endYear: number;
+    // Optional per-era discovery filters; CONFIG defaults apply when absent
+    extensions?: string[];
+    mimeTypes?: string[];
+    // HTML captures are only kept when the URL contains one of these (empty list keeps all HTML)
+    htmlKeywords?: string[];
+}
+
+// Era ids the tools assign themselves when no configured era applies
+const RESERVED_IDS = ['custom', 'unknown'];
+
+const KNOWN_FIELDS: (keyof EraConfig)[] = ['id', 'description', 'targets', 'startYear', 'endYear', 'extensions', 'mimeTypes', 'htmlKeywords'];
+
+/**
+ * Reads era definitions from a JSON or YAML file (by extension) and validates them.
+ * The file holds `{ "eras": [ ... ] }`; file order is kept, so list eras chronologically.
+ * Throws with the file, era and field named on any problem.
+ */
+export function loadEras(filePath: string): Record<string, EraConfig> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Era config not found: ${filePath} (set USAW_ERAS_FILE to use another file)`);
+    }
+
+    let raw: unknown;
+    try {
+        const text = fs.readFileSync(filePath, 'utf-8');
+        raw = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`Era config ${filePath} could not be parsed: ${e.message}`);
+    }
+
+    return validateEras(raw, filePath);
+}
+
+export function validateEras(raw: unknown, source: string): Record<string, EraConfig> {
+    const list = raw && typeof raw === 'object' && 'eras' in raw ? raw.eras : undefined;
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error(`Era config ${source} must contain a non-empty "eras" list`);
+    }
+
+    const eras: Record<string, EraConfig> = {};
+    list.forEach((entry: any, index: number) => {
+        const where = `Era config ${source} eras[${index}]${typeof entry?.id === 'string' ? ` ("${entry.id}")` : ''}`;
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            throw new Error(`${where} must be an object`);
+        }
+
+        const unknown = Object.keys(entry).filter(key => !KNOWN_FIELDS.includes(key as keyof EraConfig));
+        if (unknown.length > 0) {
+            throw new Error(`${where} has unknown field(s) ${unknown.map(k => `"${k}"`).join(', ')} (allowed: ${KNOWN_FIELDS.join(', ')})`);
+        }
+
+        if (typeof entry.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)) {
+            throw new Error(`${where}: "id" must be a lowercase slug like "early-web"`);
+        }
+        if (RESERVED_IDS.includes(entry.id)) {
+            throw new Error(`${where}: "${entry.id}" is reserved`);
+        }
+        if (eras[entry.id]) {
+            throw new Error(`${where}: duplicate id "${entry.id}"`);
+        }
+        if (typeof entry.description !== 'string' || !entry.description.trim()) {
+            throw new Error(`${where}: "description" must be a non-empty string`);
+        }
+        requireStrings(entry, 'targets', where, true);
+        for (const field of ['startYear', 'endYear']) {
+            if (!Number.isInteger(entry[field]) || entry[field] < 1990 || entry[field] > 2100) {
+                throw new Error(`${where}: "${field}" must be a year, got ${JSON.stringify(entry[field])}`);
+            }
+        }
+        if (entry.startYear > entry.endYear) {
+            throw new Error(`${where}: "startYear" ${entry.startYear} is after "endYear" ${entry.endYear}`);
+        }
+        requireStrings(entry, 'extensions', where, false);
+        if (entry.extensions?.some((ext: string) => !/^\.[a-z0-9]+$/i.test(ext))) {
+            throw new Error(`${where}: "extensions" entries look like ".pdf"`);
+        }
+        requireStrings(entry, 'mimeTypes', where, false);
+        requireStrings(entry, 'htmlKeywords', where, false);
+
+        eras[entry.id] = {
+            ...entry,
+            extensions: entry.extensions?.map((ext: string) => ext.toLowerCase()),
+            htmlKeywords: entry.htmlKeywords?.map((keyword: string) => keyword.toLowerCase())
+        };
+        // Keep absent optional fields absent rather than undefined
+        for (const key of ['extensions', 'mimeTypes', 'htmlKeywords'] as const) {
+            if (eras[entry.id][key] === undefined) delete eras[entry.id][key];
+        }
+    });
+
+    return eras;
+}
+
+function requireStrings(entry: any, field: string, where: string, required: boolean): void {
+    const value = entry[field];
+    if (value === undefined && !required) return;
+    if (!Array.isArray(value) || (required && value.length === 0) || value.some(v => typeof v !== 'string' || !v.trim())) {
+        throw new Error(`${where}: "${field}" must be a${required ? ' non-empty' : ''} list of strings`);
+    }
+}
+
+// eras.json next to package.json, whether running from src/ (ts-node) or dist/
+export function defaultErasFile(): string {
+    return process.env.USAW_ERAS_FILE || path.join(__dirname, '..', 'eras.json');
+}
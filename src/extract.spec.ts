@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { extractFile, HtmlResultsExtractor } from './extract';
+import { parseAttempt, ResultRecord } from './results';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'results');
+
+const byName = (records: ResultRecord[], name: string) => records.find(r => r.name === name)!;
+
+describe('parseAttempt', () => {
+    it('reads misses written as -, x or () as negative weights', () => {
+        assert.deepEqual(['120', '-120', 'x120', '120x', '(120)', '( 120 )', '120kg'].map(parseAttempt), [120, -120, -120, -120, -120, -120, 120]);
+        // Not attempted
+        assert.deepEqual(['-', '—', 'x', '0', '', 'DNF'].map(parseAttempt), [null, null, null, null, null, null]);
+    });
+});
+
+describe('HtmlResultsExtractor', () => {
+    it('reads leaf tables with weight class rows and miss markers', async () => {
+        const html = await fs.readFile(path.join(FIXTURES, 'table_results.html'), 'utf-8');
+        const doc = new HtmlResultsExtractor().extract(html, 'table_results.html');
+
+        assert.equal(doc.layout, 'table');
+        assert.equal(doc.meet, '2003 American Open');
+        assert.equal(doc.date, 'December 13-14, 2003');
+        assert.deepEqual(doc.records.map(r => [r.name, r.weightClass, r.place]), [
+            ['John Smith', '56kg', 1],
+            ['Bob Jones', '56kg', 2],
+            ['Carl Heavy', '+105kg', 1],
+            ['Jane Lifter', '48kg', 1]
+        ]);
+
+        const john = byName(doc.records, 'John Smith');
+        assert.deepEqual([john.club, john.state, john.bodyweight], ['Ohio WC', 'OH', 55.6]);
+        assert.deepEqual(john.snatch, [90, -95, 95]);
+        assert.deepEqual(john.cleanJerk, [110, -115, -115]);
+        assert.deepEqual([john.bestSnatch, john.bestCleanJerk, john.total], [95, 110, 205]);
+
+        // "-" is a skipped attempt; struck-through weights are misses
+        const bob = byName(doc.records, 'Bob Jones');
+        assert.deepEqual(bob.snatch, [85, null, null]);
+        assert.deepEqual(bob.cleanJerk, [105, -110, -115]);
+
+        // Best-lift columns instead of attempts; the class comes from the text before the table
+        const jane = byName(doc.records, 'Jane Lifter');
+        assert.deepEqual([jane.bestSnatch, jane.bestCleanJerk, jane.total, jane.club], [70, 88, 158, 'Ohio WC']);
+        assert.equal(jane.source.section, 'table[2]');
+
+        assert.deepEqual(doc.unparsed.map(u => [u.raw[1], u.reason]), [['Sam Scratch', 'no numeric lift values']]);
+    });
+
+    it('aligns whitespace-separated <pre> rows to the header columns', async () => {
+        const { document: doc } = (await extractFile(path.join(FIXTURES, 'pre_results.html')))!;
+
+        assert.equal(doc.parser, 'html');
+        assert.equal(doc.layout, 'pre');
+        assert.equal(doc.meet, '1999 Junior Nationals');
+        assert.equal(doc.date, 'June 5, 1999');
+        assert.deepEqual(doc.records.map(r => [r.name, r.club, r.weightClass]), [
+            ['Mike Lifter', 'Team Texas', '62kg'],
+            ['Al Short', 'Ohio', '62kg'],
+            ['Tom Middle', 'Calif Power', '69kg']
+        ]);
+
+        const mike = byName(doc.records, 'Mike Lifter');
+        assert.deepEqual(mike.snatch, [100, 105, -110]);
+        assert.deepEqual(mike.cleanJerk, [130, -135, 135]);
+        assert.deepEqual([mike.bestSnatch, mike.bestCleanJerk, mike.total], [105, 135, 240]);
+
+        // A blank third attempt stays in its column instead of shifting the total
+        const al = byName(doc.records, 'Al Short');
+        assert.deepEqual(al.snatch, [95, -100, 100]);
+        assert.deepEqual(al.cleanJerk, [120, 125, null]);
+        assert.equal(al.total, 225);
+
+        // Prose after the table is not reported as an unparsed row
+        assert.deepEqual(doc.unparsed, []);
+    });
+
+    it('reports no layout for pages without result tables', () => {
+        const doc = new HtmlResultsExtractor().extract('<html><body><h1>Results</h1><table><tr><td>Home</td><td>News</td></tr></table></body></html>', 'nav.html');
+        assert.equal(doc.layout, 'none');
+        assert.deepEqual([doc.records, doc.unparsed], [[], []]);
+    });
+
+    it('looks for the date in the page text, not in scripts', () => {
+        const html = '<html><body><script>document.write("Updated March 3, 2001")</script>'
+            + '<h2>Junior&#160;Nationals</h2><p>June&#160;5,&nbsp;1999 &#8211; Savannah</p></body></html>';
+        const doc = new HtmlResultsExtractor().extract(html, 'dated.html');
+        assert.equal(doc.date, 'June 5, 1999');
+    });
+});
@@ -0,0 +1,191 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import {
+    alignToColumns, ColumnMap, detectWeightClass, findDate, isResultRecord, mapHeader,
+    parseResultRow, ResultDocument, ResultRecord, tokenizeFixedWidth, UnparsedRow
+} from './results';
+import { SpreadsheetResultsExtractor } from './spreadsheet';
+import { PdfResultsExtractor } from './pdf';
+import { htmlText } from './search';
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+/**
+ * Pulls result tables out of archived HTML pages. Two layouts are recognised:
+ *  - 'table': <table> rows under a header row (msbn and later, most early-web pages)
+ *  - 'pre':   whitespace-aligned text in <pre> blocks (hand-typed early-web results)
+ * Weight class sections are picked up from single-cell rows or headings before a table.
+ */
+export class HtmlResultsExtractor {
+    readonly parser = 'html';
+
+    extract(html: string, sourcePath: string): ResultDocument {
+        const $ = cheerio.load(html);
+        const meet = this.findMeet($);
+        // htmlText parses its own copy, so the line breaks it adds stay out of the table and pre passes
+        const bodyText = htmlText(html).replace(/\s+/g, ' ');
+        const date = findDate(bodyText.substring(0, 3000));
+
+        const records: ResultRecord[] = [];
+        const unparsed: UnparsedRow[] = [];
+        const layouts: string[] = [];
+
+        const table = this.extractTables($, meet, date);
+        if (table.records.length > 0) layouts.push('table');
+        records.push(...table.records);
+        unparsed.push(...table.unparsed);
+
+        const pre = this.extractPre($, meet, date);
+        if (pre.records.length > 0) layouts.push('pre');
+        records.push(...pre.records);
+        unparsed.push(...pre.unparsed);
+
+        return {
+            sourcePath,
+            parser: this.parser,
+            layout: layouts.length > 0 ? layouts.join('+') : 'none',
+            meet,
+            date,
+            extractedAt: new Date().toISOString(),
+            records,
+            unparsed
+        };
+    }
+
+    // Page titles are often just "USA Weightlifting"; the first heading is usually the meet
+    private findMeet($: CheerioRoot): string | null {
+        const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+        const heading = $('h1, h2, h3').toArray().map(el => clean($(el).text())).find(text => text.length > 3);
+        if (heading) return heading;
+        const title = clean($('title').text());
+        return title || null;
+    }
+
+    private cellText($: CheerioRoot, el: any): string {
+        const text = $(el).text().replace(/\s+/g, ' ').trim();
+        // Some pages mark missed attempts with strike-through instead of a minus sign
+        if (text && $(el).find('s, strike, del').length > 0 && !text.startsWith('-')) {
+            return `-${text}`;
+        }
+        return text;
+    }
+
+    private extractTables($: CheerioRoot, meet: string | null, date: string | null) {
+        const records: ResultRecord[] = [];
+        const unparsed: UnparsedRow[] = [];
+
+        // Only leaf tables: the outer ones on these pages are page layout
+        $('table').filter((_, el) => $(el).find('table').length === 0).each((tableIndex, tableEl) => {
+            let map: ColumnMap | null = null;
+            let weightClass = this.classFromPrecedingText($, tableEl);
+            const section = `table[${tableIndex}]`;
+
+            $(tableEl).find('tr').each((rowIndex, rowEl) => {
+                const cells = $(rowEl).find('th, td').toArray().map(cell => this.cellText($, cell));
+                const filled = cells.filter(Boolean);
+                if (filled.length === 0) return;
+
+                const header = mapHeader(cells);
+                if (header) {
+                    map = header;
+                    return;
+                }
+
+                if (filled.length === 1) {
+                    weightClass = detectWeightClass(filled[0]) || weightClass;
+                    return;
+                }
+
+                if (!map) return;
+
+                const parsed = parseResultRow(cells, map, { meet, date, weightClass, section, row: rowIndex });
+                if (isResultRecord(parsed)) {
+                    records.push(parsed);
+                } else {
+                    unparsed.push(parsed);
+                }
+            });
+        });
+
+        return { records, unparsed };
+    }
+
+    private classFromPrecedingText($: CheerioRoot, tableEl: any): string | null {
+        let prev = $(tableEl).prev();
+        for (let i = 0; i < 3 && prev.length > 0; i++) {
+            const found = detectWeightClass(prev.text().replace(/\s+/g, ' '));
+            if (found) return found;
+            prev = prev.prev();
+        }
+        return null;
+    }
+
+    private extractPre($: CheerioRoot, meet: string | null, date: string | null) {
+        const records: ResultRecord[] = [];
+        const unparsed: UnparsedRow[] = [];
+
+        $('pre').each((preIndex, preEl) => {
+            const section = `pre[${preIndex}]`;
+            const lines = $(preEl).text().replace(/\t/g, '    ').split(/\r?\n/);
+            let headerTokens: ReturnType<typeof tokenizeFixedWidth> | null = null;
+            let map: ColumnMap | null = null;
+            let weightClass: string | null = null;
+
+            lines.forEach((line, lineIndex) => {
+                const tokens = tokenizeFixedWidth(line);
+                if (tokens.length === 0) return;
+
+                const header = mapHeader(tokens.map(t => t.text));
+                if (header) {
+                    headerTokens = tokens;
+                    map = header;
+                    return;
+                }
+
+                if (tokens.length === 1) {
+                    weightClass = detectWeightClass(tokens[0].text) || weightClass;
+                    return;
+                }
+
+                if (!map || !headerTokens) return;
+
+                const cells = alignToColumns(tokens, headerTokens);
+                const parsed = parseResultRow(cells, map, { meet, date, weightClass, section, row: lineIndex });
+                if (isResultRecord(parsed)) {
+                    records.push(parsed);
+                } else if (/\d/.test(line)) {
+                    // Prose lines between tables have no digits; only flag rows that look like data
+                    unparsed.push(parsed);
+                }
+            });
+        });
+
+        return { records, unparsed };
+    }
+}
+
+export interface ExtractionOutput {
+    document: ResultDocument;
+    text: string | null; // plain text worth keeping for search, when the source is not already text
+}
+
+/**
+ * Picks an extractor from the file extension. Returns null for document types
+ * that have no extractor yet.
+ */
+export async function extractFile(filePath: string): Promise<ExtractionOutput | null> {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.html' || ext === '.htm') {
+        const html = await fs.readFile(filePath, 'utf-8');
+        return { document: new HtmlResultsExtractor().extract(html, filePath), text: null };
+    }
+    if (ext === '.xls' || ext === '.xlsx') {
+        return { document: new SpreadsheetResultsExtractor().extract(await fs.readFile(filePath), filePath), text: null };
+    }
+    if (ext === '.pdf') {
+        const { document, text } = await new PdfResultsExtractor().extract(await fs.readFile(filePath), filePath);
+        return { document, text };
+    }
+    return null;
+}
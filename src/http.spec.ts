@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CONFIG, playbackUrl } from './config';
+import { CircuitOpenError, HttpClient, HttpError } from './http';
+import { IntegrityChecker } from './integrity';
+import { WaybackStandIn } from './standin';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'wayback', 'captures.json');
+const PDF_URL = 'http://www.usaweightlifting.org/results/2003/nationals.pdf';
+
+describe('HttpClient downloads from the stand-in', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(FIXTURES)).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-http-'));
+        CONFIG.WAYBACK_URL = standIn.waybackUrl;
+        CONFIG.HTTP.REQUESTS_PER_SECOND = 1000;
+        CONFIG.HTTP.BURST = 1000;
+        CONFIG.HTTP.BACKOFF_BASE_MS = 10;
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    const requestsFor = (fragment: string) => standIn.requests.filter(r => r.includes(fragment)).length;
+
+    it('retries 5xx answers and verifies against the capture digest', async () => {
+        standIn.failNext('web', 503, 2, { match: 'nationals.pdf' });
+        const before = requestsFor('nationals.pdf');
+        const dest = path.join(workDir, 'retry', 'nationals.pdf');
+
+        await new HttpClient().download(playbackUrl('20031213060615', PDF_URL), dest);
+
+        assert.equal(requestsFor('nationals.pdf') - before, 3);
+        const expected = IntegrityChecker.digestOf(await fs.readFile(path.join(__dirname, '..', 'fixtures', 'wayback', 'bodies', 'nationals.pdf')));
+        assert.equal(await IntegrityChecker.computeDigest(dest), expected);
+        assert.deepEqual(await fs.readdir(path.dirname(dest)), ['nationals.pdf']);
+    });
+
+    it('gives up after the configured attempts without leaving a partial file', async () => {
+        standIn.failNext('web', 500, 3, { match: 'nationals.pdf' });
+        const dest = path.join(workDir, 'giveup', 'nationals.pdf');
+
+        await assert.rejects(
+            new HttpClient().download(playbackUrl('20031213060615', PDF_URL), dest, { maxAttempts: 3 }),
+            (err: HttpError) => err instanceof HttpError && err.status === 500);
+        assert.deepEqual(await fs.readdir(path.dirname(dest)), []);
+    });
+
+    it('does not retry a 404', async () => {
+        const before = standIn.requests.length;
+        await assert.rejects(
+            new HttpClient().get(playbackUrl('2003', 'http://www.usaweightlifting.org/never-archived.pdf')),
+            (err: HttpError) => err instanceof HttpError && err.status === 404);
+        assert.equal(standIn.requests.length - before, 1);
+    });
+
+    it('passes redirects on to playback of the target', async () => {
+        const response = await new HttpClient().get(playbackUrl('2003', 'http://usaweightlifting.org/results.html'), { responseType: 'text' });
+        assert.equal(response.status, 200);
+        assert.match(response.data, /American Open Results/);
+    });
+
+    it('opens the circuit after repeated failures and stops calling the host', async () => {
+        const threshold = CONFIG.HTTP.BREAKER_THRESHOLD;
+        CONFIG.HTTP.BREAKER_THRESHOLD = 2;
+        try {
+            const client = new HttpClient();
+            standIn.failNext('web', 503, 2, { match: 'bylaws' });
+            await assert.rejects(client.get(playbackUrl('2002', 'http://www.usaweightlifting.org/docs/bylaws-2002.doc'), { maxAttempts: 2 }), HttpError);
+
+            const before = standIn.requests.length;
+            await assert.rejects(client.get(playbackUrl('2002', 'http://www.usaweightlifting.org/docs/bylaws-2002.doc')), CircuitOpenError);
+            assert.equal(standIn.requests.length, before);
+        } finally {
+            CONFIG.HTTP.BREAKER_THRESHOLD = threshold;
+        }
+    });
+});
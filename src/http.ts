@@ -0,0 +1,286 @@
+import axios, { AxiosHeaders, AxiosResponse } from 'axios';
+import fs from 'fs-extra';
+import path from 'path';
+import { CONFIG } from './config';
+import { logger } from './logger';
+
+const log = logger.child({ module: 'http' });
+
+export class HttpError extends Error {
+    constructor(message: string, readonly url: string, readonly status?: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * Thrown without touching the network while a host's circuit is open, i.e. after
+ * it kept answering 429/5xx. Callers should stop their run rather than mark work failed.
+ */
+export class CircuitOpenError extends Error {
+    constructor(readonly host: string, readonly retryAt: Date) {
+        super(`Circuit open for ${host} after repeated failures; not retrying before ${retryAt.toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export interface RequestOptions {
+    params?: Record<string, string | string[]>;
+    responseType?: 'json' | 'text' | 'arraybuffer' | 'stream';
+    timeout?: number;
+    headers?: Record<string, string>;
+    maxAttempts?: number;
+    // 0 returns 3xx responses as they are, e.g. to read an archived redirect's Location
+    maxRedirects?: number;
+}
+
+// What `download` saw of the response, for provenance records (see provenance.ts)
+export interface DownloadResponse {
+    status: number;
+    headers: Record<string, string>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process-wide token bucket. `pauseUntil` holds everyone back after the server
+ * asked us to slow down (429 / Retry-After), not just the request that got told.
+ */
+class TokenBucket {
+    private tokens: number;
+    private refilledAt = Date.now();
+    private pausedUntil = 0;
+
+    constructor(private perSecond: number, private capacity: number) {
+        this.tokens = capacity;
+    }
+
+    async take(): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            if (now < this.pausedUntil) {
+                await sleep(this.pausedUntil - now);
+                continue;
+            }
+            this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) / 1000 * this.perSecond);
+            this.refilledAt = now;
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            await sleep(Math.ceil((1 - this.tokens) / this.perSecond * 1000));
+        }
+    }
+
+    pauseUntil(time: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, time);
+        this.tokens = 0;
+    }
+}
+
+/**
+ * Opens after `threshold` consecutive 429/5xx/network failures. Once the cooldown
+ * passes, requests go through again (half-open); one more failure re-opens it with
+ * the cooldown doubled, a success closes it.
+ */
+class CircuitBreaker {
+    private failures = 0;
+    private openUntil = 0;
+    private cooldown: number;
+
+    constructor(private host: string, private threshold: number, private baseCooldown: number, private maxCooldown: number) {
+        this.cooldown = baseCooldown;
+    }
+
+    check(): void {
+        if (Date.now() < this.openUntil) {
+            throw new CircuitOpenError(this.host, new Date(this.openUntil));
+        }
+    }
+
+    success(): void {
+        this.failures = 0;
+        this.cooldown = this.baseCooldown;
+    }
+
+    failure(): void {
+        this.failures++;
+        if (this.failures < this.threshold) return;
+
+        this.openUntil = Date.now() + this.cooldown;
+        log.error({ host: this.host, failures: this.failures, cooldownMs: this.cooldown }, 'circuit opened');
+        this.cooldown = Math.min(this.cooldown * 2, this.maxCooldown);
+        // Half-open: the first request after the cooldown decides
+        this.failures = this.threshold - 1;
+    }
+}
+
+interface HostState {
+    bucket: TokenBucket;
+    breaker: CircuitBreaker;
+}
+
+// All archive.org hosts (web., the CDX server) share one budget
+function hostKey(url: string): string {
+    const host = new URL(url).hostname.toLowerCase();
+    return host === 'archive.org' || host.endsWith('.archive.org') ? 'archive.org' : host;
+}
+
+// Axios headers as plain lowercase name -> value pairs; repeated headers are joined
+export function plainHeaders(headers: unknown): Record<string, string> {
+    const raw = headers instanceof AxiosHeaders ? headers.toJSON() : headers;
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(raw || {})) {
+        if (value === undefined || value === null) continue;
+        result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+    return result;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function retryAfterMs(header: unknown): number | undefined {
+    if (typeof header !== 'string' || !header.trim()) return undefined;
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    if (!Number.isFinite(ms)) return undefined;
+    return Math.min(Math.max(ms, 0), CONFIG.HTTP.MAX_RETRY_AFTER_MS);
+}
+
+// Exponential with up to half a base step of jitter
+function backoffMs(attempt: number): number {
+    const base = CONFIG.HTTP.BACKOFF_BASE_MS;
+    return Math.min(base * Math.pow(2, attempt - 1), 60000) + Math.random() * base / 2;
+}
+
+/**
+ * The one HTTP layer for CDX queries, capture downloads and asset recovery:
+ * per-host rate limiting and circuit breaking, retries with backoff that honour
+ * Retry-After, one User-Agent, and a structured log line per request.
+ * Use the shared `http` instance so limits hold across the whole process.
+ */
+export class HttpClient {
+    private hosts = new Map<string, HostState>();
+
+    async get<T = any>(url: string, options: RequestOptions = {}): Promise<AxiosResponse<T>> {
+        return this.request(url, options, async response => response);
+    }
+
+    /**
+     * Streams a response body to `destPath` via a temp file, so an interrupted
+     * transfer never leaves a truncated file behind. Broken transfers are retried.
+     * Returns the status and headers of the response that was saved.
+     */
+    async download(url: string, destPath: string, options: Omit<RequestOptions, 'responseType'> = {}): Promise<DownloadResponse> {
+        await fs.ensureDir(path.dirname(destPath));
+        const tmpPath = `${destPath}.${process.pid}.part`;
+
+        return this.request(url, { ...options, responseType: 'stream' }, async response => {
+            try {
+                await new Promise<void>((resolve, reject) => {
+                    const writer = fs.createWriteStream(tmpPath);
+                    response.data.on('error', reject);
+                    writer.on('error', reject);
+                    writer.on('finish', () => resolve());
+                    response.data.pipe(writer);
+                });
+                await fs.move(tmpPath, destPath, { overwrite: true });
+            } catch (err) {
+                await fs.remove(tmpPath).catch(() => { });
+                throw err;
+            }
+            return { status: response.status, headers: plainHeaders(response.headers) };
+        });
+    }
+
+    private host(url: string): { key: string; state: HostState } {
+        const key = hostKey(url);
+        let state = this.hosts.get(key);
+        if (!state) {
+            const c = CONFIG.HTTP;
+            state = {
+                bucket: new TokenBucket(c.REQUESTS_PER_SECOND, c.BURST),
+                breaker: new CircuitBreaker(key, c.BREAKER_THRESHOLD, c.BREAKER_COOLDOWN_MS, c.BREAKER_MAX_COOLDOWN_MS)
+            };
+            this.hosts.set(key, state);
+        }
+        return { key, state };
+    }
+
+    private async request<R>(url: string, options: RequestOptions, consume: (response: AxiosResponse) => Promise<R>): Promise<R> {
+        const { key, state } = this.host(url);
+        const maxAttempts = options.maxAttempts ?? CONFIG.HTTP.MAX_ATTEMPTS;
+        let lastError = '';
+        let lastStatus: number | undefined;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            state.breaker.check();
+            await state.bucket.take();
+
+            const started = Date.now();
+            let response: AxiosResponse;
+            try {
+                response = await axios.get(url, {
+                    params: options.params,
+                    // filter=a&filter=b rather than axios' default filter[]=a
+                    paramsSerializer: { indexes: null },
+                    responseType: options.responseType ?? 'json',
+                    timeout: options.timeout ?? CONFIG.HTTP.TIMEOUT_MS,
+                    headers: { 'User-Agent': CONFIG.HTTP.USER_AGENT, ...options.headers },
+                    ...(options.maxRedirects !== undefined ? { maxRedirects: options.maxRedirects } : {}),
+                    validateStatus: () => true
+                });
+            } catch (err: any) {
+                lastError = err.message;
+                lastStatus = undefined;
+                state.breaker.failure();
+                log.warn({ host: key, url, attempt, ms: Date.now() - started, error: err.message }, 'request failed');
+                if (attempt < maxAttempts) await sleep(backoffMs(attempt));
+                continue;
+            }
+
+            const ms = Date.now() - started;
+            lastStatus = response.status;
+
+            if (response.status === 429 || response.status >= 500) {
+                if (options.responseType === 'stream') response.data.destroy();
+                state.breaker.failure();
+
+                const retryAfter = retryAfterMs(response.headers['retry-after']);
+                const wait = retryAfter ?? backoffMs(attempt);
+                // A 429 or explicit Retry-After applies to every request to this host
+                if (response.status === 429 || retryAfter !== undefined) {
+                    state.bucket.pauseUntil(Date.now() + wait);
+                }
+                lastError = `HTTP ${response.status}`;
+                if (attempt < maxAttempts) {
+                    log.warn({ host: key, url, status: response.status, attempt, ms, waitMs: Math.round(wait) }, 'retrying');
+                    await sleep(wait);
+                }
+                continue;
+            }
+
+            // Any other answer means the host is up
+            state.breaker.success();
+            log.debug({ host: key, url, status: response.status, attempt, ms }, 'request');
+
+            if (response.status >= 400) {
+                if (options.responseType === 'stream') response.data.destroy();
+                throw new HttpError(`HTTP ${response.status} for ${url}`, url, response.status);
+            }
+
+            try {
+                return await consume(response);
+            } catch (err: any) {
+                // Connection dropped mid-body: worth another attempt
+                lastError = err.message;
+                state.breaker.failure();
+                log.warn({ host: key, url, attempt, error: err.message }, 'transfer failed');
+                if (attempt < maxAttempts) await sleep(backoffMs(attempt));
+            }
+        }
+
+        throw new HttpError(`Giving up on ${url} after ${maxAttempts} attempts: ${lastError}`, url, lastStatus);
+    }
+}
+
+export const http = new HttpClient();
@@ -0,0 +1,122 @@
+import { CdxClient, CdxResult } from './cdx';
+import { CONFIG, ERAS } from './config';
+import { logger } from './logger';
+
+export type HuntVector = 'domain' | 'global' | 'digest';
+
+export interface HuntMatch extends CdxResult {
+    vector: HuntVector;
+    scope: string; // domain or global prefix that produced the match
+    ghost: boolean; // 301/302 capture: the URL existed but the archive only holds a redirect
+}
+
+export interface HuntOptions {
+    name?: string;
+    digest?: string;
+    domains?: string[];
+    global?: boolean;
+    trace?: boolean;
+}
+
+/**
+ * Multi-vector search for documents the era prefix scans missed. Port of discover_file.py:
+ *  - filename fragment across a set of domains (targeted scan)
+ *  - filename fragment across TLD and common-path prefixes (--global)
+ *  - content digest, to find identical copies under any URL
+ *  - --trace widens every vector to 301/302 captures
+ */
+export class Hunter {
+    private cdx = new CdxClient();
+
+    // Global mode probes these instead of url=*, which the CDX server refuses to scan
+    static readonly GLOBAL_TLDS = ['com', 'org', 'net', 'edu', 'gov'];
+    static readonly GLOBAL_PATH_FRAGMENTS = ['results', 'uploadedFiles', 'sanction', 'upload', 'download', 'meet', 'event', 'competition', 'PDF', 'XLS'];
+
+    static defaultDomains(): string[] {
+        const eraTargets = Object.values(ERAS).flatMap(era => era.targets);
+        return Array.from(new Set([...eraTargets, ...CONFIG.HUNT_EXTRA_DOMAINS]));
+    }
+
+    async hunt(options: HuntOptions): Promise<HuntMatch[]> {
+        if (!options.name && !options.digest) {
+            throw new Error('hunt needs a filename fragment or a digest');
+        }
+
+        const domains = options.domains && options.domains.length > 0 ? options.domains : Hunter.defaultDomains();
+        const statusFilter = options.trace ? 'statuscode:(200|301|302)' : 'statuscode:200';
+        const matches = new Map<string, HuntMatch>();
+
+        const collect = (rows: CdxResult[], vector: HuntVector, scope: string, documentsOnly: boolean) => {
+            for (const row of rows) {
+                if (documentsOnly && !this.cdx.isDocument(row)) continue;
+                const key = `${row.original}|${row.digest}`;
+                if (matches.has(key)) continue;
+
+                const match: HuntMatch = { ...row, vector, scope, ghost: row.statuscode !== '200' };
+                matches.set(key, match);
+                logger.info(`    ${match.ghost ? `GHOST (${row.statuscode})` : 'MATCH'} [${vector}:${scope}] ${row.timestamp} ${row.original}`);
+            }
+        };
+
+        if (options.digest) {
+            const digestFilter = `digest:${options.digest.toUpperCase()}`;
+            logger.info(`[hunt] Fingerprint search for digest ${options.digest} across ${domains.length} domains`);
+            for (const domain of domains) {
+                collect(await this.safeQuery(this.domainPattern(domain), [statusFilter, digestFilter]), 'digest', domain, false);
+            }
+            if (options.global) {
+                for (const prefix of this.globalPrefixes()) {
+                    collect(await this.safeQuery(prefix, [statusFilter, digestFilter], '150'), 'digest', prefix, false);
+                }
+            }
+        }
+
+        if (options.name) {
+            const nameFilter = `original:(?i).*${escapeRegex(options.name)}.*`;
+            logger.info(`[hunt] Scanning for '${options.name}' across ${domains.length} domains`);
+            for (const domain of domains) {
+                collect(await this.safeQuery(this.domainPattern(domain), [statusFilter, nameFilter]), 'domain', domain, true);
+            }
+            if (options.global) {
+                logger.info(`[hunt] Global hunt for '${options.name}' (TLD and common-path prefixes)`);
+                for (const prefix of this.globalPrefixes()) {
+                    collect(await this.safeQuery(prefix, [statusFilter, nameFilter], '150'), 'global', prefix, true);
+                }
+            }
+        }
+
+        return Array.from(matches.values());
+    }
+
+    private domainPattern(domain: string): string {
+        return domain.endsWith('*') ? domain : `${domain}/*`;
+    }
+
+    private globalPrefixes(): string[] {
+        const fragments = Array.from(new Set([
+            ...Hunter.GLOBAL_PATH_FRAGMENTS,
+            ...Hunter.GLOBAL_PATH_FRAGMENTS.map(f => f.charAt(0).toUpperCase() + f.slice(1))
+        ]));
+        return [
+            ...Hunter.GLOBAL_TLDS.map(tld => `${tld})*`),
+            ...fragments.map(fragment => `*/${fragment}/*`)
+        ];
+    }
+
+    // One unreachable domain should not abort the whole hunt
+    private async safeQuery(url: string, filter: string[], limit?: string): Promise<CdxResult[]> {
+        // Wildcards in `url` select the match type (leading *. = domain, trailing * = prefix)
+        const params: Record<string, string | string[]> = { url, collapse: 'digest', filter };
+        if (limit) params.limit = limit;
+        try {
+            return await this.cdx.query(params);
+        } catch (e: any) {
+            logger.warn(`[hunt] Query for ${url} failed: ${e.message}`);
+            return [];
+        }
+    }
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,184 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { IntegrityChecker } from './integrity';
+import { InventoryItem } from './inventory';
+import { WaybackStandIn } from './standin';
+import { inventoryItem } from './testing';
+
+const ROOT = path.join(__dirname, '..');
+const FIXTURES = path.join(ROOT, 'fixtures', 'wayback', 'captures.json');
+
+function runCli(workDir: string, env: NodeJS.ProcessEnv, ...args: string[]) {
+    return promisify(execFile)(process.execPath, ['-r', require.resolve('ts-node/register'), path.join(ROOT, 'src', 'index.ts'), ...args], {
+        cwd: workDir,
+        env: {
+            ...process.env,
+            ...env,
+            LOG_LEVEL: 'warn',
+            TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+            TS_NODE_TRANSPILE_ONLY: 'true'
+        },
+        timeout: 120000
+    });
+}
+
+/**
+ * Discovery and download end to end: the CLI runs in a scratch directory with the
+ * archive endpoints pointed at the stand-in.
+ */
+describe('CLI discover + download', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+
+    const cli = (...args: string[]) => runCli(workDir, {
+        USAW_CDX_API_URL: standIn.cdxUrl,
+        USAW_WAYBACK_URL: standIn.waybackUrl,
+        USAW_REQUESTS_PER_SECOND: '100'
+    }, ...args);
+    const inventory = async (): Promise<InventoryItem[]> => fs.readJSON(path.join(workDir, 'inventory.json'));
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(FIXTURES)).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-cli-'));
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    it('discovers an era into the inventory', async () => {
+        await cli('--discover', '--era', 'early-web');
+
+        const items = await inventory();
+        assert.deepEqual(items.map(i => i.filename).sort(), [
+            'bylaws-2002.doc', 'meet_results.html', 'nationals.pdf', 'state_results.20020901000000.html', 'state_results.html'
+        ]);
+        assert.ok(items.every(i => i.era === 'early-web' && i.status === 'discovered'));
+        assert.ok(items.every(i => i.waybackUrl.startsWith('https://web.archive.org/web/')));
+    });
+
+    it('records each discovery run and only asks for newer captures since the last one', async () => {
+        const runsPath = path.join(workDir, 'inventory.json.runs.json');
+        const [first] = await fs.readJSON(runsPath);
+        assert.equal(first.status, 'completed');
+        assert.equal(first.added, 5);
+        const usaw = first.targets.find((t: any) => t.target === 'usaweightlifting.org');
+        assert.equal(usaw.latestCapture, '20031213060615');
+        assert.match(await fs.readFile(path.join(workDir, first.changelog[0]), 'utf-8'), /\[nationals\.pdf\]\(http:\/\/www\.usaweightlifting\.org\/results\/2003\/nationals\.pdf\)/);
+
+        await cli('--discover', '--era', 'early-web', '--since-last-run');
+        const [, second] = await fs.readJSON(runsPath);
+        const again = second.targets.find((t: any) => t.target === 'usaweightlifting.org');
+        assert.equal(again.from, '20031213060615');
+        // Only the newest capture itself comes back, and it is already known
+        assert.deepEqual([again.results, again.added, again.known], [1, 0, 1]);
+        assert.equal(second.changelog, undefined);
+        assert.equal((await inventory()).length, 5);
+
+        const { stdout } = await cli('runs');
+        assert.match(stdout, /completed in \d+s {2}0 new {2}\(early-web, since last run\)/);
+    });
+
+    it('downloads, verifies and recovers assets', async () => {
+        await cli('--download');
+
+        const items = await inventory();
+        assert.ok(items.every(i => i.status === 'downloaded' && i.integrity === 'verified'), JSON.stringify(items, null, 2));
+
+        const page = items.find(i => i.filename === 'meet_results.html')!;
+        assert.equal(page.localPath, path.join('data', 'early-web', '2003', 'results', 'www.usaweightlifting.org', 'competition', '2003', 'meet_results.html'));
+        assert.ok(await fs.pathExists(path.join(workDir, `${page.localPath}.orig`)));
+        // Provenance describes the page as fetched, before its links were rewritten
+        const provenance = await fs.readJSON(path.join(workDir, `${page.localPath}.provenance.json`));
+        assert.equal(provenance.kind, 'document');
+        assert.equal(provenance.originalUrl, page.originalUrl);
+        assert.equal(provenance.timestamp, page.timestamp);
+        assert.equal(provenance.inventoryId, page.id);
+        assert.equal(provenance.headers['content-type'], 'text/html');
+        assert.equal(provenance.sha1, await IntegrityChecker.computeDigest(path.join(workDir, `${page.localPath}.orig`)));
+        assert.ok(await fs.pathExists(path.join(workDir, 'data', 'early-web', '2003', 'css', 'style.css')));
+        assert.ok(await fs.pathExists(path.join(workDir, 'data', 'early-web', '2002', 'governance', 'www.usaweightlifting.org', 'docs', 'bylaws-2002.doc')));
+    });
+
+    it('keeps both captures of an amended page and diffs them', async () => {
+        const url = 'http://www.usaweightlifting.org/results/2002/state_results.html';
+        const { stdout } = await cli('versions', url, '--diff');
+
+        assert.match(stdout, /^-.*Ann Strong.*100.*180/m);
+        assert.match(stdout, /^\+.*Ann Strong.*105.*185/m);
+        assert.match(stdout, /^\+Corrected:/m);
+    });
+
+    it('discovers documents only archived behind redirects when asked', async () => {
+        await cli('--discover', '--era', 'msbn');
+        assert.ok(!(await inventory()).some(i => i.era === 'msbn'));
+
+        // A redirect capture whose playback is gone counts as unresolved; the target carries on
+        standIn.failNext('web', 404, 1, { match: 'displayPage.aspx?id=999' });
+        await cli('--discover', '--era', 'msbn', '--follow-redirects');
+        const runs = await fs.readJSON(path.join(workDir, 'inventory.json.runs.json'));
+        const msbn = runs[runs.length - 1].targets.find((t: { target: string }) => t.target === 'msbn.tv/mmsysFrontEnd/*');
+        assert.equal(msbn.error, undefined);
+        assert.deepEqual(msbn.redirects, { resolved: 2, unresolved: 2 });
+
+        const found = (await inventory()).filter(i => i.era === 'msbn');
+        assert.deepEqual(found.map(i => i.originalUrl), ['http://www.msbn.tv/uploadedFiles/2005_nationals.pdf']);
+        assert.deepEqual(found[0].redirects!.map(hop => [hop.url, hop.statuscode]), [
+            ['http://www.msbn.tv/mmsysFrontEnd/displayPage.aspx?id=410', 302],
+            ['http://www.msbn.tv/mmsysFrontEnd/results.aspx?id=410', 301]
+        ]);
+    });
+});
+
+describe('CLI migrate-layout', () => {
+    let workDir: string;
+    const oldDir = () => path.join('data', 'early-web', '2003', 'results', 'national');
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-migrate-'));
+
+        // The old layout: flat category directories, the second results.pdf renamed on a clash
+        const item = (url: string, filename: string, id: string) => inventoryItem({
+            id, subcategory: 'national', filename, originalUrl: url, status: 'downloaded', localPath: path.join(oldDir(), filename)
+        });
+        const items = [
+            item('http://www.usaweightlifting.org/results/2003/results.pdf', 'results.pdf', 'SENIORS'),
+            item('http://www.usaweightlifting.org/results/2003/juniors/results.pdf', 'results.20031213060615-JUNIORS.pdf', 'JUNIORS')
+        ];
+        for (const { localPath, id } of items) {
+            await fs.outputFile(path.join(workDir, localPath!), id);
+            await fs.outputFile(path.join(workDir, `${localPath}.txt`), `${id} text`);
+        }
+        await fs.writeJSON(path.join(workDir, 'inventory.json'), items);
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('moves files under host and path and updates the inventory', async () => {
+        await runCli(workDir, {}, 'migrate-layout');
+
+        const items: InventoryItem[] = await fs.readJSON(path.join(workDir, 'inventory.json'));
+        const host = path.join(oldDir(), 'www.usaweightlifting.org', 'results', '2003');
+        assert.deepEqual(items.map(i => [i.id, i.filename, i.localPath]), [
+            ['SENIORS', 'results.pdf', path.join(host, 'results.pdf')],
+            ['JUNIORS', 'results.pdf', path.join(host, 'juniors', 'results.pdf')]
+        ]);
+        for (const { id, localPath } of items) {
+            assert.equal(await fs.readFile(path.join(workDir, localPath!), 'utf-8'), id);
+            assert.ok(await fs.pathExists(path.join(workDir, `${localPath}.txt`)));
+        }
+        assert.deepEqual(await fs.readdir(path.join(workDir, oldDir())), ['www.usaweightlifting.org']);
+
+        // Nothing left to do on a second run
+        const { stderr } = await runCli(workDir, {}, 'migrate-layout');
+        assert.equal(stderr, '');
+    });
+});
@@ -1,37 +1,35 @@
 import { Command } from 'commander';
 import { CdxClient, CdxResult } from './cdx';
 import { Downloader } from './downloader';
-import { CONFIG, ERAS } from './config';
-import { Categorizer, FileCategory } from './categorizer';
-import pino from 'pino';
+import { CONFIG, EraConfig, ERAS, playbackUrl, resolveEra } from './config';
+import { createInventoryItem, deriveFilename, InventoryItem, InventoryPatch, InventoryStore } from './inventory';
+import { IntegrityChecker } from './integrity';
+import { Hunter } from './hunt';
+import { extractFile } from './extract';
+import { OfflineRewriter } from './rewriter';
+import { ResultDocument, writeResultDocument } from './results';
+import { SiteBuilder } from './site';
+import { defaultErasFile } from './eras';
+import { SearchIndex } from './search';
+import { Categorizer } from './categorizer';
+import { itemPath, moveDocument, relocatedFields } from './layout';
+import { AssetRecovery } from './assets';
+import { LinkCrawler } from './crawler';
+import { RedirectResolver } from './redirects';
+import { PageRenderer } from './render';
+import { finishRun, RunHistory, TargetRun, writeChangelog } from './runs';
+import { diffInventories, itemsFromManifest, MergeChange, MergeSummary, mergeInto } from './reconcile';
+import { provenancePath, writeProvenance } from './provenance';
+import { WarcExporter } from './warc';
+import { DatabaseExporter } from './database';
+import { writeWacz } from './wacz';
+import { WaybackStandIn } from './standin';
+import { CoverageReporter } from './report';
+import { canonicalVersion, groupVersions, uniqueFilename, unifiedDiff, versionKey, versionLines } from './versions';
+import { logger } from './logger';
 import fs from 'fs-extra';
 import path from 'path';
-import axios from 'axios';
-import { URL } from 'url';
-
-// Inventory Type
-interface InventoryItem {
-    id: string; // urlkey or similar unique id
-    era: string;
-    year: number;
-    category: FileCategory;
-    filename: string;
-    originalUrl: string;
-    waybackUrl: string;
-    timestamp: string;
-    status: 'discovered' | 'downloaded' | 'failed' | 'skipped';
-    localPath?: string;
-}
-
-// Initialize logger
-const logger = pino({
-    transport: {
-        target: 'pino-pretty',
-        options: {
-            colorize: true
-        }
-    }
-});
+import { CircuitOpenError, DownloadResponse, http } from './http';
 
 const program = new Command();
 
@@ -39,16 +37,206 @@ program
     .name('usaw-scraper')
     .description('Scrape USA Weightlifting documents from Wayback Machine')
     .version('1.0.0')
+    // Root flags apply to the legacy discover/download mode only; subcommands parse their own
+    .enablePositionalOptions()
     .option('-d, --dry-run', 'simulate actions without writing files')
     .option('-l, --limit <number>', 'limit the number of items per domain (discovery) or total (download)', parseInt)
     .option('--discover', 'run discovery and generate/update inventory.json')
     .option('--download', 'download files listed in inventory.json (requires --discover first or existing inventory)')
+    .option('--retry-failed', 'with --download, only re-process items marked as failed')
+    .option('--refresh-cdx', 'with --discover, ignore cached CDX pages and query the archive again')
+    .option('--follow-redirects', 'with --discover, also follow 301/302 captures to the document they redirect to')
+    .option('--since-last-run', 'with --discover, only query captures newer than the last successful run reached per target')
     .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
-    .option('--era <name>', 'target specific era (early-web, msbn, hangastar)')
+    .option('--era <name>', `target specific era (${Object.keys(ERAS).join(', ')})`)
     .option('--year <number>', 'target specific year (overrides era settings)', parseInt)
     .option('--from <number>', 'start year (custom range)', parseInt)
     .option('--to <number>', 'end year (custom range)', parseInt)
-    .parse(process.argv);
+    .addHelpText('after', `\nEras (from ${path.basename(defaultErasFile())}, details with list-eras):\n${
+        Object.values(ERAS).map(era => `  ${era.id.padEnd(12)} ${era.description}`).join('\n')}`)
+    .action(main);
+
+const inventoryCommand = program
+    .command('inventory')
+    .description('merge, compare and import inventory files; records are matched by CDX digest, else urlkey and timestamp');
+
+inventoryCommand
+    .command('merge <sources...>')
+    .description('merge other inventory files into the inventory; the higher status wins (downloaded > skipped > failed > discovered)')
+    .option('--inventory <path>', 'inventory to merge into', 'inventory.json')
+    .option('--json <path>', 'write the full list of changes as JSON')
+    .option('-d, --dry-run', 'report what would change without writing')
+    .action(runInventoryMerge);
+
+inventoryCommand
+    .command('diff <a> <b>')
+    .description('show records only in one inventory and fields that differ between the two')
+    .option('--json', 'print the differences as JSON')
+    .action(runInventoryDiff);
+
+inventoryCommand
+    .command('import')
+    .description('add captures from a raw CDX manifest (manifest.json: CDX rows with searchTarget) to the inventory')
+    .requiredOption('--from-manifest <path>', 'manifest file to import')
+    .option('--inventory <path>', 'inventory to import into', 'inventory.json')
+    .option('--json <path>', 'write the full list of changes as JSON')
+    .option('-d, --dry-run', 'report what would change without writing')
+    .action(runInventoryImport);
+
+program
+    .command('runs')
+    .description('list recorded discovery runs: parameters, timing, and per-target results and new items')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--json', 'print the run history as JSON')
+    .action(runRuns);
+
+program
+    .command('list-eras')
+    .description('list the eras defined in the era config file with their targets, years and filters')
+    .option('--json', 'print the era definitions as JSON')
+    .action(runListEras);
+
+program
+    .command('verify')
+    .description('re-hash downloaded files against their CDX digests and report corrupt, missing and orphaned files')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--quarantine', 'move corrupt files into data/_quarantine and mark them failed')
+    .option('--json <path>', 'also write the full report as JSON')
+    .action(runVerify);
+
+program
+    .command('hunt [name]')
+    .description('hunt for lost documents by filename fragment or content digest (replaces discover_file.py)')
+    .option('--digest <hash>', 'find captures with this SHA-1 base32 digest under any URL')
+    .option('--file <path>', 'compute the digest of a local copy and search for identical captures')
+    .option('--domains <domains...>', 'domains to scan (default: all era targets plus known mirrors)')
+    .option('--global', 'also probe TLD-wide and common-path prefixes across the whole archive')
+    .option('--trace', 'include 301/302 "ghost" captures')
+    .option('--add', 'add found 200 captures to the inventory with their era, year and category')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--output <path>', 'save matches to a JSON file')
+    .option('-d, --dry-run', 'report what --add would change without writing')
+    .action(runHunt);
+
+program
+    .command('extract')
+    .description('extract structured competition results from downloaded result documents into <file>.results.json/.csv')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--file <path>', 'extract a single file instead of the inventory')
+    .option('--all-categories', 'also try documents not categorized as results')
+    .option('-d, --dry-run', 'parse and report without writing output files')
+    .action(runExtract);
+
+program
+    .command('render')
+    .description('render downloaded HTML pages offline in headless Chrome to <file>.render.pdf and <file>.render.png')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--force', 're-render pages that already have snapshots')
+    .option('-l, --limit <number>', 'render at most this many pages', (value: string) => parseInt(value, 10))
+    .action(runRender);
+
+program
+    .command('export-warc')
+    .description('package downloaded documents and recovered assets as WARC files under their original URLs and capture dates, with a CDXJ index')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--out <dir>', 'output directory', 'export')
+    .option('--prefix <name>', 'WARC filename prefix', 'usaw-archive')
+    .option('--max-size <mb>', 'start a new WARC file after this many MB', (value: string) => parseInt(value, 10), 1000)
+    .option('--era <name>', 'only documents from this era')
+    .option('--wacz', 'also bundle the WARCs, index and page list into <prefix>.wacz')
+    .action(runExportWarc);
+
+program
+    .command('export-db')
+    .description('write the inventory, page assets, eras and extracted result rows to a SQLite database for SQL queries; replaces the previous export')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--out <path>', 'database file', CONFIG.DATABASE_PATH)
+    .action(runExportDb);
+
+program
+    .command('rewrite')
+    .description('rewrite links in downloaded HTML to local copies (or Wayback captures) for offline viewing; originals are kept as <file>.orig')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('-d, --dry-run', 'report what would change without writing')
+    .action(runRewrite);
+
+program
+    .command('build-site')
+    .description('generate a static browsable archive (per era, year and category) that works from file://')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--out <dir>', 'output directory', CONFIG.SITE_DIR)
+    .action(runBuildSite);
+
+program
+    .command('search <query...>')
+    .description('full-text search over downloaded documents and their metadata; use "quotes" for phrases')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--era <name>', 'only documents from this era')
+    .option('--year <number>', 'only documents from this year', parseInt)
+    .option('--category <name>', 'only documents in this category')
+    .option('-n, --limit <number>', 'number of results to show', (value: string) => parseInt(value, 10), 20)
+    .option('--rebuild', 'rebuild the index from scratch instead of updating it')
+    .option('--json', 'print results as JSON')
+    .action(runSearch);
+
+program
+    .command('crawl')
+    .description('follow links in downloaded HTML to archived documents the CDX prefix searches missed, and add them to the inventory')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--depth <number>', 'link levels to follow from the downloaded pages', (value: string) => parseInt(value, 10), 1)
+    .option('--hosts <list>', 'comma-separated hosts to follow links to (default: the era targets)')
+    .option('--era <id>', 'only start from downloaded pages of this era')
+    .option('-d, --dry-run', 'report what would be added without saving the inventory')
+    .action(runCrawl);
+
+program
+    .command('recategorize')
+    .description('re-apply the category rules to the inventory and move downloaded files to match')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--rules <path>', 'category rules file', CONFIG.CATEGORY_RULES)
+    .option('--no-content', 'only use filename/URL rules, skip title and text rules')
+    .option('-d, --dry-run', 'report changes without moving files or saving the inventory')
+    .action(runRecategorize);
+
+program
+    .command('migrate-layout')
+    .description('move downloaded files into the <category>/<host>/<path> layout and update the inventory, without downloading again')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('-d, --dry-run', 'report moves without touching files or the inventory')
+    .action(runMigrateLayout);
+
+program
+    .command('versions [url]')
+    .description('list the captures kept as versions of each URL, choose the canonical one, or diff two versions\' text')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--all', 'also list URLs with a single capture')
+    .option('--canonical <timestamp>', 'with a URL: make this capture the canonical version')
+    .option('--diff', 'with a URL: show a text diff between two downloaded versions')
+    .option('--from <timestamp>', 'older version for --diff (default: the downloaded version before --to)')
+    .option('--to <timestamp>', 'newer version for --diff (default: the canonical version)')
+    .option('--json', 'print the versions as JSON')
+    .action(runVersions);
+
+program
+    .command('report')
+    .description('summarize coverage by era, year, category and status, and list gaps: failed, pending, missing files, unrecovered assets, thin years')
+    .option('--inventory <path>', 'custom inventory file path', 'inventory.json')
+    .option('--json <path>', 'also write the report as JSON (to compare runs)')
+    .option('--markdown <path>', 'also write the report as Markdown')
+    .option('--min-results <number>', 'flag years with fewer results documents than this', (value: string) => parseInt(value, 10), 3)
+    .action(runReport);
+
+program
+    .command('stand-in')
+    .description('serve a local Wayback Machine stand-in (CDX + playback) from a fixture file, for offline runs')
+    .option('--fixtures <path>', 'fixture file with captures and canned failures', 'fixtures/wayback/captures.json')
+    .option('--port <number>', 'port to listen on', (value: string) => parseInt(value, 10), 8089)
+    .action(runStandIn);
+
+interface DiscoveryTarget {
+    target: string;
+    era: EraConfig;
+}
 
 async function main() {
     const options = program.opts();
@@ -56,20 +244,21 @@ async function main() {
     logger.info('Starting USAW Results Archive Scraper (Native Relative Paths Mode)...');
     if (options.dryRun) logger.info('Running in DRY-RUN mode');
 
-    // Determine Era/Targets
-    let targets = CONFIG.SEARCH_TARGETS; // Default
+    // Determine Era/Targets. Without --era every era's targets are searched (no year
+    // limit) and each capture is assigned to the era covering its URL and year.
+    let targets: DiscoveryTarget[] = Object.values(ERAS).flatMap(era => era.targets.map(target => ({ target, era })));
     let startYear: number | undefined = options.from;
     let endYear: number | undefined = options.to;
-    let selectedEraId = 'custom';
+    let selectedEraId: string | undefined;
 
     if (options.era) {
         const era = ERAS[options.era];
         if (!era) {
-            logger.error(`Unknown era: ${options.era}. Available eras: ${Object.keys(ERAS).join(', ')}`);
+            logger.error(`Unknown era: ${options.era}. Available eras: ${Object.keys(ERAS).join(', ')} (see list-eras)`);
             process.exit(1);
         }
         logger.info(`Targeting Era: ${era.description}`);
-        targets = era.targets;
+        targets = era.targets.map(target => ({ target, era }));
         if (!startYear) startYear = era.startYear;
         if (!endYear) endYear = era.endYear;
         selectedEraId = era.id;
@@ -96,23 +285,58 @@ async function main() {
 async function runDiscovery(options: any) {
     logger.info('Starting Discovery Mode...');
     const cdxClient = new CdxClient();
+    const resolver = new RedirectResolver(cdxClient);
     const inventoryPath = options.inventory || 'inventory.json';
 
-    let inventory: InventoryItem[] = [];
-    if (await fs.pathExists(inventoryPath)) {
-        try {
-            inventory = await fs.readJSON(inventoryPath);
-            logger.info(`Loaded existing inventory with ${inventory.length} items from ${inventoryPath}`);
-        } catch (e) {
-            logger.warn(`Failed to load existing inventory from ${inventoryPath}, starting fresh.`);
-        }
+    const store = await InventoryStore.load(inventoryPath, { allowMissing: true });
+    if (store.size > 0) {
+        logger.info(`Loaded existing inventory with ${store.size} items from ${inventoryPath}`);
     }
-
-    for (const target of options.targets) {
-        logger.info(`Searching CDX for target: ${target} (${options.startYear || 'All'} - ${options.endYear || 'All'})`);
+    const history = await RunHistory.load(inventoryPath);
+    const run = history.start({
+        ...(options.eraId ? { era: options.eraId } : {}),
+        ...(options.startYear ? { from: options.startYear } : {}),
+        ...(options.endYear ? { to: options.endYear } : {}),
+        ...(options.sinceLastRun ? { sinceLastRun: true } : {}),
+        ...(options.followRedirects ? { followRedirects: true } : {}),
+        ...(options.refreshCdx ? { refreshCdx: true } : {}),
+        ...(options.limit ? { limit: options.limit } : {})
+    });
+    const added: InventoryItem[] = [];
+
+    for (const { target, era } of options.targets as DiscoveryTarget[]) {
+        const previous = history.latestCapture(target, era.id);
+        // Only captures from where the last successful run got to (a year given on
+        // the command line still applies when it is later)
+        let from: string | undefined = options.startYear?.toString();
+        if (options.sinceLastRun && previous && (!from || previous > from.padEnd(14, '0'))) {
+            from = previous;
+        }
+        const targetRun: TargetRun = {
+            target,
+            era: era.id,
+            ...(from ? { from } : {}),
+            ...(options.endYear ? { to: options.endYear.toString() } : {}),
+            results: 0,
+            added: 0,
+            known: 0,
+            ...(previous ? { latestCapture: previous } : {})
+        };
+        run.targets.push(targetRun);
+
+        logger.info(`Searching CDX for target: ${target} (${from || 'All'} - ${options.endYear || 'All'})`);
         try {
-            const results = await cdxClient.search(target, { from: options.startYear, to: options.endYear });
-            logger.info(`Found ${results.length} matching documents for ${target}`);
+            const results = await cdxClient.search(target, {
+                from,
+                to: options.endYear,
+                era,
+                // A cached page for the same start would hide captures archived since
+                refresh: options.refreshCdx || options.sinceLastRun,
+                incremental: options.sinceLastRun,
+                redirects: options.followRedirects
+            });
+            logger.info(`Found ${results.length} matching ${options.followRedirects ? 'documents and redirects' : 'documents'} for ${target}`);
+            targetRun.results = results.length;
 
             let filesToProcess = results;
             if (options.limit && options.limit > 0) {
@@ -120,50 +344,75 @@ async function runDiscovery(options: any) {
                 logger.info(`Limiting to first ${options.limit} files`);
             }
 
+            let resolved = 0;
+            let unresolved = 0;
             for (const r of filesToProcess) {
-                const year = parseInt(r.timestamp.substring(0, 4));
-                let filename = path.basename(r.original.split('?')[0]) || `file-${r.digest}.dat`;
-
-                if (r.original.includes('?') || filename.length < 5 || filename.match(/^index\./)) {
-                    const ext = path.extname(filename);
-                    const name = path.basename(filename, ext);
-                    filename = `${name}-${r.digest.substring(0, 8)}${ext}`;
-                }
-
-                if (filename.match(/\.(aspx|asp)$/i)) {
-                    filename = filename.replace(/\.(aspx|asp)$/i, '.html');
+                let capture = r;
+                let chain;
+                if (RedirectResolver.isRedirect(r)) {
+                    let result;
+                    try {
+                        result = await resolver.resolve(r);
+                    } catch (err: any) {
+                        // One unplayable redirect must not cost the rest of the target
+                        if (err instanceof CircuitOpenError) throw err;
+                        logger.warn(`Could not follow redirect ${r.original} @ ${r.timestamp}: ${err.message}`);
+                        unresolved++;
+                        continue;
+                    }
+                    // Keep what the chain led to if either end looks like a document we want
+                    if (!result || !(cdxClient.isWanted(result.capture, era) || cdxClient.isWanted({ ...result.capture, original: r.original }, era))) {
+                        unresolved++;
+                        continue;
+                    }
+                    capture = result.capture;
+                    chain = result.chain;
+                    resolved++;
                 }
 
-                const category = Categorizer.categorize(filename, r.original);
-                const id = r.digest;
-
-                const exists = inventory.some(i => i.id === id);
-                if (!exists) {
-                    const item: InventoryItem = {
-                        id,
-                        era: options.eraId || 'unknown',
-                        year,
-                        category,
-                        filename,
-                        originalUrl: r.original,
-                        waybackUrl: `http://web.archive.org/web/${r.timestamp}id_/${r.original}`,
-                        timestamp: r.timestamp,
-                        status: 'discovered'
-                    };
-                    inventory.push(item);
+                if (store.has(capture.digest)) {
+                    targetRun.known++;
+                    continue;
                 }
+                const eraId = options.eraId || resolveEra(capture.original, parseInt(capture.timestamp.substring(0, 4)))?.id || era.id;
+                const item = createInventoryItem(capture, eraId);
+                if (chain) item.redirects = chain;
+                // Another capture of the same URL keeps its own file as a separate version
+                item.filename = uniqueFilename(item, store);
+                store.add(item);
+                added.push(item);
+                targetRun.added++;
+                logger.debug(`  + ${item.era}/${item.year}/${item.category}/${item.filename}`);
+            }
+            if (options.followRedirects) {
+                targetRun.redirects = { resolved, unresolved };
+                logger.info(`Redirects for ${target}: ${resolved} led to documents, ${unresolved} dead ends or unwanted targets`);
             }
 
-        } catch (error) {
+            // A --limit run has not seen everything up to its newest capture
+            if (filesToProcess.length === results.length) {
+                const newest = results.reduce((max, r) => r.timestamp > max ? r.timestamp : max, previous || '');
+                if (newest) targetRun.latestCapture = newest;
+            }
+        } catch (error: any) {
+            targetRun.error = error.message;
             logger.error(error, `Error processing target ${target}`);
         }
     }
 
+    finishRun(run);
+    logger.info(`${added.length} new items${options.sinceLastRun ? ' since the last run' : ''} (${run.targets.reduce((sum, t) => sum + t.known, 0)} captures already known)`);
+
     if (options.dryRun) {
-        logger.info(`[DRY-RUN] Would write ${inventory.length} items to ${inventoryPath}`);
+        logger.info(`[DRY-RUN] Would write ${store.size} items to ${inventoryPath}`);
     } else {
-        await fs.writeJSON(inventoryPath, inventory, { spaces: 2 });
-        logger.info(`Saved ${inventory.length} items to ${inventoryPath}`);
+        await store.checkpoint();
+        logger.info(`Saved ${store.size} items to ${inventoryPath}`);
+        if (added.length > 0) {
+            run.changelog = await writeChangelog(run, added, path.join(path.dirname(inventoryPath), CONFIG.CHANGELOG_DIR));
+            logger.info(`Changelog: ${run.changelog[0]}`);
+        }
+        await history.save();
     }
 }
 
@@ -176,9 +425,17 @@ async function runDownload(options: any) {
         return;
     }
 
-    let inventory: InventoryItem[] = await fs.readJSON(inventoryPath);
+    const store = await InventoryStore.load(inventoryPath);
+    if (store.recoveredEntries > 0) {
+        logger.info(`Recovered ${store.recoveredEntries} status updates from an interrupted run`);
+    }
 
-    let itemsToProcess = inventory;
+    // Resume: anything already downloaded (or deliberately skipped) is left alone.
+    // --retry-failed narrows the run to items whose last attempt failed.
+    let itemsToProcess = options.retryFailed
+        ? store.all().filter(item => item.status === 'failed')
+        : store.all().filter(item => item.status === 'discovered');
+    logger.info(`${itemsToProcess.length} of ${store.size} items pending (${options.retryFailed ? 'failed only' : 'not yet attempted'})`);
 
     if (options.limit && options.limit > 0) {
         itemsToProcess = itemsToProcess.slice(0, options.limit);
@@ -190,244 +447,146 @@ async function runDownload(options: any) {
         return;
     }
 
-    const dataDir = CONFIG.DATA_DIR;
     const batchSize = CONFIG.CONCURRENT_DOWNLOADS || 5;
+    const integrity = new IntegrityChecker();
+    const rewriter = new OfflineRewriter(store.all());
+    const assetRecovery = new AssetRecovery();
+    let circuitOpen: CircuitOpenError | null = null;
 
-    for (let i = 0; i < itemsToProcess.length; i += batchSize) {
+    for (let i = 0; i < itemsToProcess.length && !circuitOpen; i += batchSize) {
         const batch = itemsToProcess.slice(i, i + batchSize);
 
         await Promise.all(batch.map(async (item) => {
+            await store.update(item, {
+                attempts: (item.attempts || 0) + 1,
+                lastAttemptAt: new Date().toISOString()
+            }, { dryRun: options.dryRun });
+
             try {
+                // Inventories from before versions were kept can hold several captures
+                // under one filename; give this one its own so no version is skipped
+                const filename = uniqueFilename(item, store);
+                if (filename !== item.filename) {
+                    logger.info(`${item.filename} is shared with another capture, storing this one as ${filename}`);
+                    await store.update(item, { filename }, { dryRun: options.dryRun });
+                }
+
                 // Determine Local Paths
-                const yearDir = path.join(dataDir, item.era, item.year.toString());
-                const targetDir = path.join(yearDir, item.category);
-                await fs.ensureDir(targetDir);
-                const targetPath = path.join(targetDir, item.filename);
+                const targetPath = itemPath(item);
+                await fs.ensureDir(path.dirname(targetPath));
+                const expectedDigest = IntegrityChecker.expectedDigest(item);
 
                 // --- 1. Download HTML ---
+                // An existing file only counts if it hashes to the capture digest;
+                // truncated or wrong-capture files are quarantined and fetched again.
                 let downloaded = false;
                 if (await fs.pathExists(targetPath)) {
-                    // logger.info(`Skipping main file download (exists): ${targetPath}`);
-                    downloaded = true;
-                } else {
-                    logger.info(`Downloading main file: ${item.originalUrl}`);
-                    try {
-                        let retries = 0;
-                        const maxRetries = 5;
-                        let success = false;
-
-                        while (!success && retries < maxRetries) {
-                            try {
-                                const response = await axios({
-                                    url: item.waybackUrl,
-                                    method: 'GET',
-                                    responseType: 'stream',
-                                    timeout: 30000,
-                                    validateStatus: (status) => status < 400 || status === 429
-                                });
-
-                                if (response.status === 429) {
-                                    const delay = Math.pow(2, retries) * 5000 + Math.random() * 1000;
-                                    logger.warn(`429 Too Many Requests. Retrying in ${Math.round(delay)}ms...`);
-                                    await new Promise(res => setTimeout(res, delay));
-                                    retries++;
-                                    continue;
-                                }
-
-                                const writer = fs.createWriteStream(targetPath);
-                                response.data.pipe(writer);
-                                await new Promise((resolve, reject) => {
-                                    writer.on('finish', resolve);
-                                    writer.on('error', reject);
-                                });
-                                success = true;
-                                downloaded = true;
-
-                                // Politeness delay after success
-                                await new Promise(res => setTimeout(res, 2000));
-
-                            } catch (reqErr: any) {
-                                logger.error(`Request failed: ${reqErr.message}`);
-                                retries++;
-                                await new Promise(res => setTimeout(res, 2000));
-                            }
-                        }
-
-                        if (!success) {
-                            logger.error(`Failed to download ${item.originalUrl} after ${maxRetries} retries`);
-                        }
-                    } catch (e: any) {
-                        logger.error(`Failed to download ${item.originalUrl}: ${e.message}`);
+                    const existing = await integrity.verifyFile(targetPath, expectedDigest);
+                    if (existing.outcome === 'mismatch') {
+                        const moved = await integrity.quarantine(targetPath);
+                        logger.warn(`Existing ${targetPath} does not match digest ${expectedDigest}, quarantined to ${moved}`);
+                    } else {
+                        downloaded = true;
                     }
                 }
 
+                let response: DownloadResponse | undefined;
+                if (!downloaded) {
+                    logger.info(`Downloading main file: ${item.originalUrl}`);
+                    response = await http.download(playbackUrl(item.timestamp, item.originalUrl), targetPath);
+                    downloaded = true;
+                }
+
+                const check = await integrity.verifyFile(targetPath, expectedDigest);
+                if (check.outcome === 'mismatch') {
+                    const moved = await integrity.quarantine(targetPath);
+                    await store.update(item, {
+                        integrity: 'mismatch',
+                        actualDigest: check.actual,
+                        quarantinedPath: moved
+                    }, { dryRun: options.dryRun });
+                    throw new Error(`Digest mismatch (expected ${check.expected}, got ${check.actual}); quarantined to ${moved}`);
+                }
+
+                // Recorded before links are rewritten, so it describes the file as fetched.
+                // A file already on disk keeps the record from when it was fetched.
+                if (response || !await fs.pathExists(provenancePath(targetPath))) {
+                    await writeProvenance(targetPath, {
+                        kind: 'document',
+                        originalUrl: item.originalUrl,
+                        timestamp: item.timestamp,
+                        waybackUrl: item.waybackUrl,
+                        ...(expectedDigest ? { cdxDigest: expectedDigest } : {}),
+                        ...(response?.headers['content-type'] || item.mimetype ? { contentType: response?.headers['content-type'] || item.mimetype } : {}),
+                        ...(response ? { headers: response.headers } : {}),
+                        inventoryId: item.id,
+                        ...(item.linkedFrom ? { referencedBy: { url: item.linkedFrom.url, timestamp: item.linkedFrom.timestamp } } : {}),
+                        ...(item.redirects ? { redirects: item.redirects } : {})
+                    });
+                }
+
                 // --- 2. Post-Process (Fill the Holes) ---
                 if (downloaded && targetPath.endsWith('.html')) {
                     try {
-                        const content = await fs.readFile(targetPath, 'utf-8');
-                        const cheerio = require('cheerio');
-                        const $ = cheerio.load(content);
-
-                        // Collect assets
-                        const assets: { url: string, isImage: boolean }[] = [];
-
-                        $('img').each((_: any, el: any) => {
-                            const src = $(el).attr('src');
-                            if (src) assets.push({ url: src, isImage: true });
-                        });
-                        $('link[rel="stylesheet"]').each((_: any, el: any) => {
-                            const href = $(el).attr('href');
-                            if (href) assets.push({ url: href, isImage: false });
-                        });
-                        $('script[src]').each((_: any, el: any) => {
-                            const src = $(el).attr('src');
-                            if (src) assets.push({ url: src, isImage: false });
-                        });
-
-                        // Scrape linked documents (PDF, DOC, XLS)
-                        $('a[href]').each((_: any, el: any) => {
-                            const href = $(el).attr('href');
-                            if (href && /\.(pdf|doc|docx|xls|xlsx)$/i.test(href)) {
-                                assets.push({ url: href, isImage: false });
-                            }
-                        });
-
-                        logger.info(`Scanning ${assets.length} potential assets for ${item.filename}`);
-
-                        for (const asset of assets) {
-                            if (!asset.url || asset.url.startsWith('data:') || asset.url.startsWith('#') || asset.url.startsWith('mailto:') || asset.url.includes('web.archive.org')) continue;
-
-                            // CLEAN URL
-                            let cleanUrl = asset.url.split('?')[0].split('#')[0];
-
-                            // RESOLVE LOCAL PATH
-                            let localAssetPath = '';
-                            let absoluteOriginalUrl = '';
-
-                            if (cleanUrl.startsWith('/')) {
-                                // Root Relative: Map to Year Root? Or Era Root? 
-                                // LiftTilYaDie maps / to merged_site root. 
-                                // We will map / to Year Root for containment.
-                                localAssetPath = path.join(yearDir, cleanUrl.substring(1));
-                                // Absolute URL for CDX
-                                try {
-                                    const u = new URL(item.originalUrl);
-                                    absoluteOriginalUrl = `${u.protocol}//${u.host}${cleanUrl}`;
-                                } catch (e) { absoluteOriginalUrl = cleanUrl; } // Fallback
-                            } else {
-                                // Relative: Map to HTML Directory
-                                localAssetPath = path.resolve(targetDir, cleanUrl);
-                                // Absolute URL for CDX
-                                try {
-                                    // Construct from base
-                                    // We need the directory of the original URL
-                                    // original: http://site.com/foo/bar.html
-                                    // asset: images/baz.gif -> http://site.com/foo/images/baz.gif
-                                    const base = item.originalUrl.substring(0, item.originalUrl.lastIndexOf('/') + 1);
-                                    const u = new URL(cleanUrl, base);
-                                    absoluteOriginalUrl = u.toString();
-                                } catch (e) { absoluteOriginalUrl = cleanUrl; }
-                            }
-
-                            // Don't escape the Data Directory!
-                            if (!localAssetPath.startsWith(path.resolve(dataDir))) {
-                                logger.warn(`Skipping unsafe path: ${localAssetPath}`);
-                                continue;
-                            }
-
-                            // CHECK EXISTENCE
-                            if (await fs.pathExists(localAssetPath)) {
-                                // Exists, skip
-                                continue;
-                            }
-
-                            // DOWNLOAD MISSING ASSET
-                            // Logic: 
-                            // 1. Try Page-Relative (Current)
-                            // 2. If 404/Empty, Try Root-Relative (Fallback) - e.g. /images/...
-
-                            // HELPER: Download from CDX
-                            const tryDownload = async (searchUrl: string, destPath: string): Promise<boolean> => {
-                                try {
-                                    // Strip Port from Search URL for better CDX matching
-                                    // http://site.com:80/foo -> http://site.com/foo
-                                    const cdxSearchUrl = searchUrl.replace(/:\d+/, '');
-
-                                    logger.info(`[MISSING] Checking CDX: ${cdxSearchUrl} (Window: ${item.timestamp})`);
-                                    const cdxUrl = `http://web.archive.org/cdx/search/cdx?url=${encodeURIComponent(cdxSearchUrl)}&closest=${item.timestamp}&limit=1&output=json&filter=statuscode:200`;
-
-                                    const cdxRes = await axios.get(cdxUrl, { timeout: 30000, validateStatus: () => true });
-
-                                    if (cdxRes.status === 200 && cdxRes.data && cdxRes.data.length > 1) {
-                                        const row = cdxRes.data[1];
-                                        const ts = row[1];
-                                        const original = row[2]; // Use original because sometimes it redirects?
-                                        const dlUrl = `http://web.archive.org/web/${ts}id_/${original}`;
-
-                                        logger.info(`  -> Found Snapshot: ${ts} | Downloading...`);
-
-                                        const assetRes = await axios({
-                                            url: dlUrl,
-                                            method: 'GET',
-                                            responseType: 'arraybuffer',
-                                            timeout: 60000,
-                                            headers: { 'User-Agent': 'Mozilla/5.0' },
-                                            validateStatus: (status) => status < 400
-                                        });
-
-                                        const type = assetRes.headers['content-type'] || '';
-                                        if (asset.isImage && type.includes('text/html')) {
-                                            logger.warn(`  -> REJECTED: Corrupt HTML in image`);
-                                            return false;
-                                        } else {
-                                            await fs.ensureDir(path.dirname(destPath));
-                                            await fs.writeFile(destPath, assetRes.data);
-                                            logger.info(`  -> SAVED: ${destPath}`);
-                                            return true;
-                                        }
-                                    }
-                                } catch (e: any) {
-                                    logger.warn(`  -> CDX Error: ${e.message}`);
-                                }
-                                return false;
-                            };
-
-                            let success = await tryDownload(absoluteOriginalUrl, localAssetPath);
-
-                            // FALLBACK: If failed and looking for image, try /images root
-                            // Only if cleanUrl is relative (not starting with /)
-                            if (!success && !cleanUrl.startsWith('/') && asset.isImage) {
-                                // Construct root fallback URL
-                                // original: http://site.com/foo/bar.aspx
-                                // asset: images/baz.gif
-                                // fallback: http://site.com/images/baz.gif
-                                try {
-                                    const u = new URL(item.originalUrl);
-                                    const rootFallbackUrl = `${u.protocol}//${u.host}/${cleanUrl}`;
-                                    logger.info(`  -> Fallback: Trying Root URL ${rootFallbackUrl}`);
-                                    // We save it to the SAME local path to keep HTML valid
-                                    success = await tryDownload(rootFallbackUrl, localAssetPath);
-                                } catch (e) { }
-                            }
-
-                            if (!success) {
-                                logger.info(`  -> Failed to recover asset.`);
-                            }
-                        }
+                        const assets = await assetRecovery.recover(item, targetPath);
+                        logger.info(`Assets for ${item.filename}: ${assets.present} present, ${assets.saved} recovered, ${assets.failed} missing`);
+
+                        // --- 3. Rewrite links to the local copies (original kept as .orig) ---
+                        const stats = await rewriter.rewrite(item, targetPath, { dryRun: options.dryRun });
+                        logger.info(`Rewrote links for offline viewing: ${stats.local} local, ${stats.wayback} via Wayback`);
                     } catch (err) {
+                        // Handled below like a refused document: the run stops, the item stays pending
+                        if (err instanceof CircuitOpenError) throw err;
                         logger.warn(`Failed to process assets for ${targetPath}: ${err}`);
                     }
                 }
 
-                item.status = 'downloaded';
-                item.localPath = targetPath;
+                await store.update(item, {
+                    status: 'downloaded',
+                    localPath: targetPath,
+                    downloadedAt: new Date().toISOString(),
+                    integrity: check.outcome === 'ok' ? 'verified' : 'unverified',
+                    actualDigest: undefined,
+                    lastError: undefined
+                }, { dryRun: options.dryRun });
                 logger.info(`Completed: ${item.filename}`);
 
             } catch (err: any) {
+                // archive.org is refusing us: the item is fine, leave it pending for the next run
+                if (err instanceof CircuitOpenError) {
+                    circuitOpen = err;
+                    return;
+                }
                 logger.error(`Failed ${item.originalUrl}: ${err.message}`);
-                item.status = 'failed';
+                await store.update(item, { status: 'failed', lastError: err.message }, { dryRun: options.dryRun });
             }
         }));
+
+        // Checkpoint after every batch so an interrupted run resumes from here
+        if (!options.dryRun) {
+            await store.checkpoint();
+        }
+    }
+
+    if (circuitOpen) {
+        logger.error(`Stopping early: ${(circuitOpen as CircuitOpenError).message}. Re-run later to resume.`);
+    }
+
+    const failed = itemsToProcess.filter(item => item.status === 'failed').length;
+    const downloadedCount = itemsToProcess.filter(item => item.status === 'downloaded').length;
+    logger.info(`Download run finished: ${downloadedCount} downloaded, ${failed} failed (re-run with --retry-failed)`);
+
+    if (!options.dryRun) {
+        const index = await SearchIndex.load(CONFIG.SEARCH_INDEX);
+        const updated = await index.update(store.all());
+        await index.save();
+        logger.info(`Search index updated: ${updated.added} added, ${updated.updated} changed, ${updated.removed} removed`);
+    }
+
+    // Keep an existing site in step with the inventory; only changed pages are rewritten
+    if (!options.dryRun && await SiteBuilder.hasBeenBuilt(CONFIG.SITE_DIR)) {
+        const result = await new SiteBuilder(store.all(), CONFIG.SITE_DIR).build();
+        logger.info(`Site refreshed: ${result.written} pages updated`);
     }
 }
 
@@ -436,7 +595,721 @@ async function runFullCycle(options: any) {
     await runDownload(options);
 }
 
-main().catch(err => {
+async function runVerify(options: any) {
+    const inventoryPath = options.inventory || 'inventory.json';
+    logger.info(`Verifying ${CONFIG.DATA_DIR} against ${inventoryPath}...`);
+
+    const store = await InventoryStore.load(inventoryPath);
+    const integrity = new IntegrityChecker();
+    const report = await integrity.verifyArchive(store.all());
+
+    // Snapshot paths before --quarantine clears localPath on corrupt items
+    const summary = {
+        ok: report.ok.map(item => item.localPath),
+        corrupt: report.corrupt.map(({ item, expected, actual }) => ({ localPath: item.localPath, originalUrl: item.originalUrl, expected, actual })),
+        missing: report.missing.map(item => ({ localPath: item.localPath, originalUrl: item.originalUrl })),
+        unverifiable: report.unverifiable.map(item => item.localPath),
+        orphaned: report.orphaned
+    };
+
+    for (const { item, expected, actual } of report.corrupt) {
+        logger.warn(`CORRUPT  ${item.localPath} (expected ${expected}, got ${actual})`);
+        if (options.quarantine) {
+            const moved = await integrity.quarantine(item.localPath!);
+            await store.update(item, {
+                status: 'failed',
+                integrity: 'mismatch',
+                actualDigest: actual,
+                quarantinedPath: moved,
+                localPath: undefined,
+                lastError: 'digest mismatch found by verify'
+            });
+            logger.info(`  -> quarantined to ${moved}`);
+        }
+    }
+    for (const item of report.missing) {
+        logger.warn(`MISSING  ${item.localPath} (${item.originalUrl})`);
+    }
+    for (const file of report.orphaned) {
+        logger.warn(`ORPHANED ${file}`);
+    }
+
+    if (options.quarantine && report.corrupt.length > 0) {
+        await store.checkpoint();
+    }
+
+    if (options.json) {
+        await fs.writeJSON(options.json, summary, { spaces: 2 });
+        logger.info(`Wrote verification report to ${options.json}`);
+    }
+
+    logger.info(`Verified: ${report.ok.length} ok, ${report.corrupt.length} corrupt, ${report.missing.length} missing, ${report.unverifiable.length} without digest, ${report.orphaned.length} orphaned`);
+}
+
+async function runHunt(name: string | undefined, options: any) {
+    let digest: string | undefined = options.digest;
+    if (options.file) {
+        digest = await IntegrityChecker.computeDigest(options.file);
+        logger.info(`Digest of ${options.file}: ${digest}`);
+    }
+    if (!name && !digest) {
+        logger.error('Provide a filename fragment, --digest or --file');
+        process.exitCode = 1;
+        return;
+    }
+
+    const hunter = new Hunter();
+    const matches = await hunter.hunt({
+        name,
+        digest,
+        domains: options.domains,
+        global: options.global,
+        trace: options.trace
+    });
+
+    const ghosts = matches.filter(m => m.ghost);
+    logger.info(`Hunt complete: ${matches.length} matches (${ghosts.length} redirect-only ghosts)`);
+
+    if (options.output) {
+        await fs.writeJSON(options.output, { inputs: { name, digest }, matches }, { spaces: 2 });
+        logger.info(`Matches written to ${options.output}`);
+    }
+
+    if (!options.add) return;
+
+    const store = await InventoryStore.load(options.inventory, { allowMissing: true });
+    let added = 0;
+    for (const match of matches) {
+        // Ghosts only prove the URL existed; there is no document body to download
+        if (match.ghost) continue;
+        if (store.has(match.digest)) continue;
+
+        const year = parseInt(match.timestamp.substring(0, 4));
+        const era = resolveEra(match.original, year);
+        const item = createInventoryItem(match, era ? era.id : 'unknown');
+        logger.info(`  + ${item.era}/${item.year}/${item.category}/${item.filename}`);
+        store.add(item);
+        added++;
+    }
+
+    if (options.dryRun) {
+        logger.info(`[DRY-RUN] Would add ${added} items to ${options.inventory}`);
+    } else if (added > 0) {
+        await store.checkpoint();
+        logger.info(`Added ${added} items to ${options.inventory}`);
+    } else {
+        logger.info('No new captures to add.');
+    }
+}
+
+async function runExtract(options: any) {
+    const describe = (doc: ResultDocument) => {
+        const confidence = doc.confidence !== undefined ? `, confidence ${doc.confidence}` : '';
+        const notes = doc.notes && doc.notes.length > 0 ? ` - ${doc.notes.join('; ')}` : '';
+        return `${doc.sourcePath}: ${doc.records.length} records, ${doc.unparsed.length} unparsed rows (${doc.parser}/${doc.layout}${confidence})${notes}`;
+    };
+
+    if (options.file) {
+        const output = await extractFile(options.file);
+        if (!output) {
+            logger.error(`No extractor for ${options.file}`);
+            process.exitCode = 1;
+            return;
+        }
+        logger.info(describe(output.document));
+        if (!options.dryRun) {
+            const { jsonPath } = await writeResultDocument(output.document, output.text);
+            logger.info(`  -> ${jsonPath}`);
+        }
+        return;
+    }
+
+    const store = await InventoryStore.load(options.inventory);
+    const candidates = store.all().filter(item =>
+        item.status === 'downloaded' && item.localPath && (options.allCategories || item.category === 'results'));
+    logger.info(`Extracting results from ${candidates.length} downloaded documents...`);
+
+    let totalRecords = 0;
+    const lowConfidence: string[] = [];
+    for (const item of candidates) {
+        if (!await fs.pathExists(item.localPath!)) {
+            logger.warn(`Missing on disk, skipping: ${item.localPath}`);
+            continue;
+        }
+
+        try {
+            const output = await extractFile(item.localPath!);
+            if (!output) continue;
+            const doc = output.document;
+
+            logger.info(describe(doc));
+            totalRecords += doc.records.length;
+            if (doc.confidence !== undefined && doc.confidence < 0.5) lowConfidence.push(item.localPath!);
+            if (options.dryRun) continue;
+
+            const { jsonPath, textPath } = await writeResultDocument(doc, output.text);
+            await store.update(item, {
+                extraction: {
+                    parser: doc.parser,
+                    layout: doc.layout,
+                    records: doc.records.length,
+                    unparsed: doc.unparsed.length,
+                    confidence: doc.confidence,
+                    outputPath: jsonPath,
+                    textPath,
+                    extractedAt: doc.extractedAt
+                }
+            });
+        } catch (err: any) {
+            logger.error(`Extraction failed for ${item.localPath}: ${err.message}`);
+        }
+    }
+
+    if (!options.dryRun) {
+        await store.checkpoint();
+    }
+    logger.info(`Extraction complete: ${totalRecords} result records`);
+    if (lowConfidence.length > 0) {
+        logger.warn(`${lowConfidence.length} documents need manual transcription (confidence < 0.5):`);
+        lowConfidence.forEach(p => logger.warn(`  ${p}`));
+    }
+}
+
+async function runRender(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    let pages = store.all().filter(item => item.status === 'downloaded' && item.localPath && /\.html?$/i.test(item.localPath)
+        && (options.force || item.render?.status !== 'rendered'));
+    if (options.limit > 0) pages = pages.slice(0, options.limit);
+    if (pages.length === 0) {
+        logger.info('No pages to render.');
+        return;
+    }
+
+    const renderer = new PageRenderer();
+    try {
+        await renderer.open();
+    } catch (err: any) {
+        logger.error(`Could not start headless Chrome: ${err.message}`);
+        logger.error('Install the browser with "npx puppeteer browsers install chrome", or set PUPPETEER_EXECUTABLE_PATH');
+        process.exitCode = 1;
+        return;
+    }
+
+    let rendered = 0;
+    let failed = 0;
+    try {
+        for (const item of pages) {
+            if (!await fs.pathExists(item.localPath!)) {
+                logger.warn(`Missing on disk, skipping: ${item.localPath}`);
+                continue;
+            }
+            const renderedAt = new Date().toISOString();
+            try {
+                const result = await renderer.render(item.localPath!);
+                await store.update(item, { render: { status: 'rendered', ...result, renderedAt } });
+                rendered++;
+                logger.info(`Rendered ${item.localPath}: ${result.missing.length} missing, ${result.blocked.length} blocked, ${result.errors.length} script errors`);
+            } catch (err: any) {
+                await store.update(item, { render: { status: 'failed', missing: [], blocked: [], errors: [err.message], renderedAt } });
+                failed++;
+                logger.error(`Render failed for ${item.localPath}: ${err.message}`);
+            }
+        }
+    } finally {
+        await renderer.close();
+    }
+
+    await store.checkpoint();
+    logger.info(`Render complete: ${rendered} pages rendered, ${failed} failed`);
+}
+
+async function runExportWarc(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const items = options.era ? store.all().filter(item => item.era === options.era) : store.all();
+    if (!items.some(item => item.status === 'downloaded')) {
+        logger.info('No downloaded documents to export.');
+        return;
+    }
+
+    // A re-export replaces the previous one; leftover numbered files would not be in the new index
+    if (await fs.pathExists(options.out)) {
+        for (const name of await fs.readdir(options.out)) {
+            if (name.startsWith(`${options.prefix}-`) && name.endsWith('.warc.gz')) await fs.remove(path.join(options.out, name));
+        }
+    }
+    const result = await new WarcExporter(items).export(options.out, {
+        prefix: options.prefix,
+        maxFileBytes: options.maxSize * 1000 * 1000
+    });
+    logger.info(`Exported ${result.documents} documents and ${result.assets} assets to ${result.warcFiles.join(', ')}`);
+    logger.info(`CDXJ index: ${result.cdxjPath}`);
+    if (result.missing > 0) {
+        logger.warn(`${result.missing} downloaded documents are missing on disk and were not exported (see "verify")`);
+    }
+
+    if (options.wacz) {
+        const waczPath = path.join(options.out, `${options.prefix}.wacz`);
+        await writeWacz(waczPath, { warcFiles: result.warcFiles, cdxjPath: result.cdxjPath, pages: result.pages });
+        logger.info(`WACZ bundle: ${waczPath} (${result.pages.length} pages)`);
+    }
+}
+
+async function runExportDb(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const result = await new DatabaseExporter(store.all(), options.inventory).export(options.out);
+    logger.info(`Wrote ${result.items} items, ${result.assets} recovered assets (${result.missingAssets} missing), `
+        + `${result.results} result rows and ${result.eras} eras to ${result.path}`);
+    if (result.missingResults > 0) {
+        logger.warn(`${result.missingResults} extracted documents have no readable results file (run "extract" again)`);
+    }
+    if (result.duplicates > 0) {
+        logger.warn(`${result.duplicates} items repeat a capture already exported and were left out (see "inventory merge")`);
+    }
+}
+
+async function runRewrite(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const rewriter = new OfflineRewriter(store.all());
+    const pages = store.all().filter(item =>
+        item.status === 'downloaded' && item.localPath && /\.html?$/i.test(item.localPath));
+    logger.info(`Rewriting links in ${pages.length} HTML pages...`);
+
+    const totals = { local: 0, wayback: 0, untouched: 0 };
+    for (const item of pages) {
+        if (!await fs.pathExists(item.localPath!)) {
+            logger.warn(`Missing on disk, skipping: ${item.localPath}`);
+            continue;
+        }
+        try {
+            const stats = await rewriter.rewrite(item, item.localPath!, { dryRun: options.dryRun });
+            totals.local += stats.local;
+            totals.wayback += stats.wayback;
+            totals.untouched += stats.untouched;
+        } catch (err: any) {
+            logger.error(`Failed to rewrite ${item.localPath}: ${err.message}`);
+        }
+    }
+
+    logger.info(`${options.dryRun ? '[DRY-RUN] ' : ''}Rewrite complete: ${totals.local} links to local files, ${totals.wayback} to Wayback captures, ${totals.untouched} left as-is`);
+}
+
+async function runBuildSite(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const result = await new SiteBuilder(store.all(), options.out).build();
+    logger.info(`Site built in ${options.out}: ${result.written} pages written, ${result.unchanged} unchanged, ${result.removed} removed`);
+    logger.info(`Open ${path.join(options.out, 'index.html')} in a browser`);
+}
+
+async function runSearch(words: string[], options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const index = await SearchIndex.load(CONFIG.SEARCH_INDEX);
+
+    // Cheap when nothing changed: only files whose size/mtime moved are re-read
+    const updated = await index.update(store.all(), { rebuild: options.rebuild });
+    if (updated.added + updated.updated + updated.removed > 0) {
+        await index.save();
+        logger.info(`Search index updated: ${updated.added} added, ${updated.updated} changed, ${updated.removed} removed`);
+    }
+
+    const query = words.join(' ');
+    const hits = index.search(query, { era: options.era, year: options.year, category: options.category }, options.limit);
+
+    if (options.json) {
+        console.log(JSON.stringify(hits, null, 2));
+        return;
+    }
+    if (hits.length === 0) {
+        logger.info(`No matches for ${query} in ${index.size} indexed documents`);
+        return;
+    }
+
+    hits.forEach((hit, i) => {
+        console.log(`${i + 1}. ${hit.filename}  (${hit.era} ${hit.year} ${hit.category}, score ${hit.score})`);
+        console.log(`   ${hit.localPath}`);
+        console.log(`   ${hit.originalUrl} @ ${hit.timestamp}`);
+        if (hit.snippet) console.log(`   ${hit.snippet}`);
+    });
+}
+
+async function runCrawl(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const hosts = options.hosts ? String(options.hosts).split(',').map((host: string) => host.trim()).filter(Boolean) : undefined;
+
+    const stats = await new LinkCrawler().crawl(store, { depth: options.depth, hosts, era: options.era });
+    if (stats.stoppedEarly) {
+        logger.error(`Stopping early: ${stats.stoppedEarly}. Re-run later to continue.`);
+        process.exitCode = 1;
+    }
+    logger.info(`Crawl complete: ${stats.pages} pages read, ${stats.links} new links looked up, ${stats.added} documents added ` +
+        `(${stats.notArchived} not archived, ${stats.filtered} not documents)`);
+
+    if (options.dryRun) {
+        logger.info(`[DRY-RUN] Would write ${store.size} items to ${options.inventory}`);
+    } else if (stats.added > 0) {
+        await store.checkpoint();
+        logger.info(`Saved ${store.size} items to ${options.inventory}; run --download to fetch the new documents`);
+    }
+}
+
+async function runRecategorize(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+    const categorizer = options.rules === CONFIG.CATEGORY_RULES ? Categorizer.default() : Categorizer.load(options.rules);
+    const label = (category: string, subcategory?: string) => subcategory ? `${category}/${subcategory}` : category;
+
+    const changes = new Map<string, number>();
+    let moved = 0;
+    let failed = 0;
+
+    for (const item of store.all()) {
+        const onDisk = item.status === 'downloaded' && !!item.localPath && await fs.pathExists(item.localPath);
+        const content = options.content && onDisk ? await Categorizer.readContent(item.localPath!) : {};
+        const result = categorizer.classify({ filename: item.filename, originalUrl: item.originalUrl, current: item.category, ...content });
+        if (result.category === item.category && result.subcategory === item.subcategory) continue;
+
+        const change = `${label(item.category, item.subcategory)} -> ${label(result.category, result.subcategory)}`;
+        changes.set(change, (changes.get(change) || 0) + 1);
+        logger.info(`${item.filename}: ${change} (rule: ${[result.rule, result.subcategoryRule].filter(Boolean).join(', ') || 'none'})`);
+
+        const patch: InventoryPatch = { category: result.category, subcategory: result.subcategory };
+        if (onDisk && !options.dryRun) {
+            const target = itemPath({ ...item, ...patch });
+            try {
+                const assets = await moveDocument(item, target);
+                if (assets > 0) logger.info(`  copied ${assets} page assets to ${path.dirname(target)}`);
+                Object.assign(patch, relocatedFields(item, target));
+                moved++;
+            } catch (err: any) {
+                logger.error(`Could not move ${item.localPath}, leaving it unchanged: ${err.message}`);
+                failed++;
+                continue;
+            }
+        }
+        await store.update(item, patch, { dryRun: options.dryRun });
+    }
+
+    const changed = Array.from(changes.values()).reduce((sum, n) => sum + n, 0);
+    for (const [change, count] of changes) {
+        logger.info(`  ${count} x ${change}`);
+    }
+    logger.info(`${options.dryRun ? '[DRY-RUN] ' : ''}Recategorize complete: ${changed} items changed, ${moved} files moved, ${failed} failed`);
+    if (options.dryRun) return;
+
+    await store.checkpoint();
+
+    // Links between documents point at the old locations until pages are rewritten again
+    if (moved > 0) {
+        await runRewrite({ inventory: options.inventory });
+        if (await SiteBuilder.hasBeenBuilt(CONFIG.SITE_DIR)) {
+            await new SiteBuilder(store.all(), CONFIG.SITE_DIR).build();
+        }
+    }
+}
+
+async function runMigrateLayout(options: any) {
+    const store = await InventoryStore.load(options.inventory);
+
+    // Oldest capture first, so the first version of a URL keeps the plain filename
+    const ordered = [...store.all()].sort((a, b) =>
+        a.timestamp.localeCompare(b.timestamp) || a.originalUrl.localeCompare(b.originalUrl) || a.id.localeCompare(b.id));
+    const placed: InventoryItem[] = [];
+    let moved = 0;
+    let renamed = 0;
+    let failed = 0;
+
+    for (const item of ordered) {
+        const derived = { ...item, filename: deriveFilename({ original: item.originalUrl, digest: item.id }) };
+        const filename = uniqueFilename(derived, placed);
+        const target = itemPath({ ...item, filename });
+        const onDisk = item.status === 'downloaded' && !!item.localPath && await fs.pathExists(item.localPath);
+
+        const patch: InventoryPatch = {};
+        if (filename !== item.filename) patch.filename = filename;
+        if (onDisk && path.resolve(item.localPath!) !== path.resolve(target)) {
+            logger.info(`${item.localPath} -> ${target}`);
+            if (!options.dryRun) {
+                try {
+                    const assets = await moveDocument(item, target);
+                    if (assets > 0) logger.info(`  copied ${assets} page assets to ${path.dirname(target)}`);
+                } catch (err: any) {
+                    logger.error(`Could not move ${item.localPath}, leaving it unchanged: ${err.message}`);
+                    placed.push(item);
+                    failed++;
+                    continue;
+                }
+            }
+            Object.assign(patch, relocatedFields(item, target));
+            moved++;
+        } else if (item.localPath && !onDisk && item.status === 'downloaded') {
+            logger.warn(`${item.localPath} is missing; re-run --download to fetch it`);
+        }
+
+        if (patch.filename) renamed++;
+        placed.push({ ...item, filename });
+        if (Object.keys(patch).length > 0) {
+            await store.update(item, patch, { dryRun: options.dryRun });
+        }
+    }
+
+    logger.info(`${options.dryRun ? '[DRY-RUN] ' : ''}Layout migration complete: ${moved} files moved, ${renamed} items renamed, ${failed} failed`);
+    if (options.dryRun) return;
+
+    await store.checkpoint();
+
+    // Links between documents point at the old locations until pages are rewritten again
+    if (moved > 0) {
+        await runRewrite({ inventory: options.inventory });
+        if (await SiteBuilder.hasBeenBuilt(CONFIG.SITE_DIR)) {
+            await new SiteBuilder(store.all(), CONFIG.SITE_DIR).build();
+        }
+    }
+}
+
+async function runListEras(options: any) {
+    if (options.json) {
+        console.log(JSON.stringify(Object.values(ERAS), null, 2));
+        return;
+    }
+
+    console.log(`Eras from ${defaultErasFile()}:\n`);
+    for (const era of Object.values(ERAS)) {
+        console.log(`${era.id}: ${era.description}`);
+        console.log(`  years:         ${era.startYear}-${era.endYear}`);
+        console.log(`  targets:       ${era.targets.join(', ')}`);
+        console.log(`  extensions:    ${(era.extensions ?? CONFIG.TARGET_EXTENSIONS).join(', ')}${era.extensions ? '' : ' (default)'}`);
+        console.log(`  mime types:    ${(era.mimeTypes ?? CONFIG.TARGET_MIME_TYPES).length} types${era.mimeTypes ? '' : ' (default)'}`);
+        const keywords = era.htmlKeywords ?? CONFIG.HTML_KEYWORDS;
+        console.log(`  html keywords: ${keywords.length > 0 ? keywords.join(', ') : '(all HTML pages)'}${era.htmlKeywords ? '' : ' (default)'}`);
+    }
+}
+
+function itemLabel(item: InventoryItem): string {
+    return `${item.era}/${item.year}/${item.category}/${item.filename}`;
+}
+
+// First few entries of a list, and how many more there are
+function printSome<T>(entries: T[], line: (entry: T) => string, max = 20): void {
+    entries.slice(0, max).forEach(entry => console.log(line(entry)));
+    if (entries.length > max) console.log(`    ... and ${entries.length - max} more`);
+}
+
+async function finishMerge(store: InventoryStore, summary: MergeSummary, options: any): Promise<void> {
+    console.log(`${options.dryRun ? '[DRY-RUN] ' : ''}${store.filePath}: ${summary.added.length} added, ${summary.updated.length} updated, ${summary.unchanged} unchanged, ${summary.conflicts.length} with conflicting fields`);
+    if (summary.added.length > 0) {
+        console.log('\nAdded:');
+        printSome(summary.added, change => `  + ${itemLabel(change.item)} (${change.item.status}, from ${change.source})`);
+    }
+    if (summary.updated.length > 0) {
+        console.log('\nUpdated:');
+        printSome(summary.updated, change => `  ~ ${itemLabel(change.item)}: ${change.status || change.fields.join(', ')}${change.status && change.fields.length > 0 ? `; ${change.fields.join(', ')}` : ''}`);
+    }
+    if (summary.conflicts.length > 0) {
+        console.log(`\nConflicts (kept as in ${store.filePath}):`);
+        printSome(summary.conflicts, c => `  ! ${itemLabel(c.item)}: ${c.conflicts.map(f => `${f.field} ${JSON.stringify(f.kept)} vs ${JSON.stringify(f.other)} in ${c.source}`).join('; ')}`);
+    }
+
+    if (options.json) {
+        const describe = (change: MergeChange) => ({ id: change.item.id, originalUrl: change.item.originalUrl, timestamp: change.item.timestamp, source: change.source, fields: change.fields, status: change.status });
+        await fs.writeJSON(options.json, {
+            added: summary.added.map(describe),
+            updated: summary.updated.map(describe),
+            unchanged: summary.unchanged,
+            conflicts: summary.conflicts.map(c => ({ id: c.item.id, originalUrl: c.item.originalUrl, source: c.source, conflicts: c.conflicts }))
+        }, { spaces: 2 });
+    }
+    if (!options.dryRun && (summary.added.length > 0 || summary.updated.length > 0)) {
+        await store.checkpoint();
+    }
+}
+
+async function runInventoryMerge(sources: string[], options: any) {
+    const store = await InventoryStore.load(options.inventory, { allowMissing: true });
+    const summary: MergeSummary = { added: [], updated: [], unchanged: 0, conflicts: [] };
+    for (const source of sources) {
+        if (path.resolve(source) === path.resolve(options.inventory)) {
+            logger.warn(`Skipping ${source}: it is the inventory being merged into`);
+            continue;
+        }
+        const incoming = await InventoryStore.load(source);
+        await mergeInto(store, incoming.all(), source, { dryRun: options.dryRun, summary });
+    }
+    await finishMerge(store, summary, options);
+}
+
+async function runInventoryImport(options: any) {
+    const source = options.fromManifest;
+    let raw: unknown;
+    try {
+        raw = await fs.readJSON(source);
+    } catch (e: any) {
+        throw new Error(`Manifest ${source} is not valid JSON: ${e.message}`);
+    }
+    const { items, duplicates, skipped } = itemsFromManifest(raw, source);
+    console.log(`${source}: ${items.length} captures (${duplicates} duplicate rows, ${skipped} non-200 rows skipped)`);
+
+    const store = await InventoryStore.load(options.inventory, { allowMissing: true });
+    await finishMerge(store, await mergeInto(store, items, source, { dryRun: options.dryRun }), options);
+}
+
+async function runInventoryDiff(a: string, b: string, options: any) {
+    const diff = diffInventories((await InventoryStore.load(a)).all(), (await InventoryStore.load(b)).all());
+    if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+        return;
+    }
+
+    console.log(`${diff.onlyInA.length} only in ${a}, ${diff.onlyInB.length} only in ${b}, ${diff.changed.length} changed, ${diff.same} the same`);
+    if (diff.onlyInA.length > 0) {
+        console.log(`\nOnly in ${a}:`);
+        printSome(diff.onlyInA, item => `  - ${itemLabel(item)} (${item.status})`);
+    }
+    if (diff.onlyInB.length > 0) {
+        console.log(`\nOnly in ${b}:`);
+        printSome(diff.onlyInB, item => `  + ${itemLabel(item)} (${item.status})`);
+    }
+    if (diff.changed.length > 0) {
+        console.log('\nChanged:');
+        printSome(diff.changed, change => `  ~ ${itemLabel(change.a)}: ${change.fields.map(f => `${f.field} ${JSON.stringify(f.a)} -> ${JSON.stringify(f.b)}`).join('; ')}`);
+    }
+}
+
+async function runRuns(options: any) {
+    const history = await RunHistory.load(options.inventory);
+    if (options.json) {
+        console.log(JSON.stringify(history.runs, null, 2));
+        return;
+    }
+    if (history.runs.length === 0) {
+        console.log(`No discovery runs recorded for ${options.inventory}.`);
+        return;
+    }
+
+    for (const run of history.runs) {
+        const seconds = run.finishedAt ? Math.round((Date.parse(run.finishedAt) - Date.parse(run.startedAt)) / 1000) : undefined;
+        const scope = [run.parameters.era || 'all eras', run.parameters.sinceLastRun ? 'since last run' : `${run.parameters.from || 'all'}-${run.parameters.to || 'all'}`];
+        console.log(`${run.startedAt}  ${run.status}${seconds !== undefined ? ` in ${seconds}s` : ''}  ${run.added} new  (${scope.join(', ')})`);
+        for (const t of run.targets) {
+            const outcome = t.error ? `failed: ${t.error}` : `${t.results} results, ${t.added} new, ${t.known} known`;
+            console.log(`  ${t.target} [${t.era}]${t.from ? ` from ${t.from}` : ''}: ${outcome}${t.latestCapture ? `, newest ${t.latestCapture}` : ''}`);
+        }
+        if (run.changelog) console.log(`  changelog: ${run.changelog[0]}`);
+    }
+}
+
+async function runVersions(url: string | undefined, options: any) {
+    const inventoryPath = options.inventory || 'inventory.json';
+    const store = await InventoryStore.load(inventoryPath);
+    const groups = groupVersions(store.all());
+
+    if ((options.canonical || options.diff) && !url) {
+        logger.error('--canonical and --diff need the URL whose versions to use');
+        process.exitCode = 1;
+        return;
+    }
+
+    let selected = Array.from(groups.values()).filter(versions => options.all || versions.length > 1);
+    if (url) {
+        const versions = groups.get(versionKey({ originalUrl: url })) || groups.get(url)
+            || Array.from(groups.values()).find(list => list.some(item => item.originalUrl === url));
+        if (!versions) {
+            logger.error(`No captures of ${url} in ${inventoryPath}`);
+            process.exitCode = 1;
+            return;
+        }
+        selected = [versions];
+    }
+    const byTimestamp = (versions: InventoryItem[], timestamp: string) => {
+        const found = versions.find(item => item.timestamp === timestamp) || versions.find(item => item.timestamp.startsWith(timestamp));
+        if (!found) throw new Error(`No version captured at ${timestamp}; have ${versions.map(item => item.timestamp).join(', ')}`);
+        return found;
+    };
+
+    if (options.canonical) {
+        const versions = selected[0];
+        const chosen = byTimestamp(versions, options.canonical);
+        for (const item of versions) {
+            await store.update(item, { canonical: item === chosen ? true : undefined });
+        }
+        await store.checkpoint();
+        logger.info(`Canonical version of ${chosen.originalUrl} is now ${chosen.timestamp}`);
+        return;
+    }
+
+    if (options.diff) {
+        const downloaded: InventoryItem[] = [];
+        for (const item of selected[0]) {
+            if (item.status === 'downloaded' && item.localPath && await fs.pathExists(item.localPath)) downloaded.push(item);
+        }
+        if (downloaded.length < 2) {
+            logger.error(`Need two downloaded versions to diff, have ${downloaded.length}`);
+            process.exitCode = 1;
+            return;
+        }
+        const to = options.to ? byTimestamp(downloaded, options.to) : canonicalVersion(downloaded);
+        const from = options.from
+            ? byTimestamp(downloaded, options.from)
+            : [...downloaded].reverse().find(item => item.timestamp < to.timestamp) || downloaded.find(item => item !== to)!;
+
+        const diff = unifiedDiff(await versionLines(from), await versionLines(to),
+            [`${from.timestamp} ${from.localPath}`, `${to.timestamp} ${to.localPath}`]);
+        console.log(diff || `No text differences between ${from.timestamp} and ${to.timestamp}`);
+        return;
+    }
+
+    if (options.json) {
+        console.log(JSON.stringify(selected.map(versions => ({
+            urlkey: versionKey(versions[0]),
+            originalUrl: versions[0].originalUrl,
+            canonical: canonicalVersion(versions).timestamp,
+            versions: versions.map(item => ({
+                timestamp: item.timestamp,
+                digest: IntegrityChecker.expectedDigest(item),
+                status: item.status,
+                localPath: item.localPath,
+                canonical: !!item.canonical
+            }))
+        })), null, 2));
+        return;
+    }
+
+    for (const versions of selected) {
+        const canonical = canonicalVersion(versions);
+        console.log(`${versions[0].originalUrl} (${versions.length} version${versions.length === 1 ? '' : 's'})`);
+        for (const item of versions) {
+            const digest = (IntegrityChecker.expectedDigest(item) || '-').substring(0, 8);
+            console.log(`  ${item === canonical ? '*' : ' '} ${item.timestamp}  ${digest.padEnd(8)}  ${item.status.padEnd(10)}  ${item.localPath || item.filename}`);
+        }
+    }
+    console.log(`\n${selected.length} URL(s)${options.all ? '' : ' with more than one capture'}; * marks the canonical version`);
+}
+
+async function runReport(options: any) {
+    const inventoryPath = options.inventory || 'inventory.json';
+    const store = await InventoryStore.load(inventoryPath);
+    const report = await new CoverageReporter(store.all(), inventoryPath, { minResults: options.minResults }).build();
+
+    console.log(CoverageReporter.toText(report));
+
+    if (options.json) {
+        await fs.writeJSON(options.json, report, { spaces: 2 });
+        logger.info(`Wrote JSON report to ${options.json}`);
+    }
+    if (options.markdown) {
+        await fs.writeFile(options.markdown, CoverageReporter.toMarkdown(report));
+        logger.info(`Wrote Markdown report to ${options.markdown}`);
+    }
+}
+
+async function runStandIn(options: any) {
+    const standIn = await (await WaybackStandIn.fromFile(options.fixtures)).start(options.port);
+    logger.info(`Wayback stand-in serving ${options.fixtures} on ${standIn.baseUrl}. Point the tools at it with:`);
+    console.log(`  USAW_CDX_API_URL=${standIn.cdxUrl} USAW_WAYBACK_URL=${standIn.waybackUrl}`);
+
+    await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+    await standIn.close();
+    logger.info(`Stand-in stopped after ${standIn.requests.length} requests`);
+}
+
+program.parseAsync(process.argv).catch(err => {
     logger.error(err, 'Unhandled exception in main loop');
     process.exit(1);
 });
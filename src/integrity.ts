@@ -0,0 +1,165 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as crypto from 'crypto';
+import { CONFIG } from './config';
+import { InventoryItem } from './inventory';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type VerifyOutcome = 'ok' | 'mismatch' | 'missing' | 'unknown';
+
+export interface VerifyResult {
+    outcome: VerifyOutcome;
+    expected?: string;
+    actual?: string;
+}
+
+export interface ArchiveReport {
+    ok: InventoryItem[];
+    corrupt: { item: InventoryItem; expected: string; actual: string }[];
+    missing: InventoryItem[];
+    unverifiable: InventoryItem[]; // no digest recorded, nothing to compare against
+    orphaned: string[];
+}
+
+function base32(bytes: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Checks files on disk against the SHA-1 digests the Wayback CDX index reports for each capture.
+ */
+export class IntegrityChecker {
+    private dataDir = CONFIG.DATA_DIR;
+
+    get quarantineDir(): string {
+        return path.join(this.dataDir, '_quarantine');
+    }
+
+    // CDX digests are SHA-1 over the payload, RFC 4648 base32 without padding (160 bits -> 32 chars)
+    static async computeDigest(filePath: string): Promise<string> {
+        const hash = crypto.createHash('sha1');
+        await new Promise<void>((resolve, reject) => {
+            fs.createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve())
+                .on('error', reject);
+        });
+
+        return base32(hash.digest());
+    }
+
+    // Same digest for content held in memory
+    static digestOf(data: Buffer | string): string {
+        return base32(crypto.createHash('sha1').update(data).digest());
+    }
+
+    // Discovery stores the digest as the id; hand-merged records carry it in `digest` instead
+    static expectedDigest(item: InventoryItem): string | undefined {
+        if (item.digest) return item.digest;
+        return /^[A-Z2-7]{32}$/.test(item.id) ? item.id : undefined;
+    }
+
+    // Rewritten HTML no longer matches the capture; its untouched backup does
+    static async payloadPath(filePath: string): Promise<string> {
+        const backup = `${filePath}${CONFIG.ORIGINAL_SUFFIX}`;
+        return await fs.pathExists(backup) ? backup : filePath;
+    }
+
+    async verifyFile(filePath: string, expected: string | undefined): Promise<VerifyResult> {
+        if (!await fs.pathExists(filePath)) {
+            return { outcome: 'missing', expected };
+        }
+        if (!expected) {
+            return { outcome: 'unknown' };
+        }
+
+        const actual = await IntegrityChecker.computeDigest(await IntegrityChecker.payloadPath(filePath));
+        return { outcome: actual === expected ? 'ok' : 'mismatch', expected, actual };
+    }
+
+    /**
+     * Moves a bad file out of the data tree, mirroring its relative path under
+     * data/_quarantine/ so it can still be inspected. Returns the new location.
+     */
+    async quarantine(filePath: string): Promise<string> {
+        const relative = path.relative(this.dataDir, filePath);
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const dest = relative.startsWith('..')
+            ? path.join(this.quarantineDir, `${stamp}-${path.basename(filePath)}`)
+            : path.join(this.quarantineDir, `${relative}.${stamp}`);
+
+        await fs.ensureDir(path.dirname(dest));
+        await fs.move(filePath, dest, { overwrite: true });
+
+        const backup = `${filePath}${CONFIG.ORIGINAL_SUFFIX}`;
+        if (await fs.pathExists(backup)) {
+            await fs.move(backup, `${dest}${CONFIG.ORIGINAL_SUFFIX}`, { overwrite: true });
+        }
+        return dest;
+    }
+
+    /**
+     * Re-hashes every downloaded inventory item and walks the data tree for document
+     * files no inventory item points at. Recovered page assets (images, css, js) are
+     * not inventory items, so only document extensions count as orphans.
+     */
+    async verifyArchive(items: InventoryItem[]): Promise<ArchiveReport> {
+        const report: ArchiveReport = { ok: [], corrupt: [], missing: [], unverifiable: [], orphaned: [] };
+        const known = new Set<string>();
+
+        for (const item of items) {
+            if (!item.localPath) continue;
+            known.add(path.resolve(item.localPath));
+
+            const result = await this.verifyFile(item.localPath, IntegrityChecker.expectedDigest(item));
+            switch (result.outcome) {
+                case 'ok': report.ok.push(item); break;
+                case 'missing': report.missing.push(item); break;
+                case 'unknown': report.unverifiable.push(item); break;
+                case 'mismatch': report.corrupt.push({ item, expected: result.expected!, actual: result.actual! }); break;
+            }
+        }
+
+        if (await fs.pathExists(this.dataDir)) {
+            for (const file of await this.walk(this.dataDir)) {
+                const isDocument = CONFIG.TARGET_EXTENSIONS.includes(path.extname(file).toLowerCase());
+                // A rendered PDF belongs to the page it was rendered from
+                const isRender = file.endsWith(CONFIG.RENDER.PDF_SUFFIX) && known.has(path.resolve(file.slice(0, -CONFIG.RENDER.PDF_SUFFIX.length)));
+                if (isDocument && !isRender && !known.has(path.resolve(file))) {
+                    report.orphaned.push(file);
+                }
+            }
+        }
+
+        return report;
+    }
+
+    private async walk(dir: string): Promise<string[]> {
+        const files: string[] = [];
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (path.resolve(full) === path.resolve(this.quarantineDir)) continue;
+                files.push(...await this.walk(full));
+            } else if (entry.isFile()) {
+                files.push(full);
+            }
+        }
+        return files;
+    }
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CdxResult } from './cdx';
+import { createInventoryItem, deriveFilename, InventoryStore } from './inventory';
+
+const DIGEST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function capture(original: string, timestamp = '20031213060615'): CdxResult {
+    return {
+        urlkey: '',
+        timestamp,
+        original,
+        mimetype: 'application/pdf',
+        statuscode: '200',
+        digest: DIGEST,
+        length: '1000'
+    };
+}
+
+describe('deriveFilename', () => {
+    it('keeps plain document names', () => {
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org/results/2003/nationals.pdf')), 'nationals.pdf');
+    });
+
+    it('suffixes query-string pages with the digest and maps .aspx to .html', () => {
+        assert.equal(deriveFilename(capture('http://msbn.tv/usavision/displayPage.aspx?id=396')), 'displayPage-ABCDEFGH.html');
+        assert.equal(deriveFilename(capture('http://msbn.tv/usavision/events.asp')), 'events.html');
+    });
+
+    it('suffixes generic and very short names', () => {
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org/results/index.html')), 'index-ABCDEFGH.html');
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org/r/12')), '12-ABCDEFGH');
+    });
+
+    it('treats directory URLs as their index page and suffixes names that could be directories', () => {
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org/results/')), 'index-ABCDEFGH.html');
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org')), 'index-ABCDEFGH.html');
+        assert.equal(deriveFilename(capture('http://www.usaweightlifting.org/news/nationals')), 'nationals-ABCDEFGH');
+    });
+});
+
+describe('createInventoryItem', () => {
+    it('fills era, year, category and the playback URL', () => {
+        const item = createInventoryItem(capture('http://www.usaweightlifting.org/results/2003/nationals_results.pdf'), 'early-web');
+        assert.equal(item.id, DIGEST);
+        assert.equal(item.era, 'early-web');
+        assert.equal(item.year, 2003);
+        assert.equal(item.category, 'results');
+        assert.equal(item.subcategory, 'national');
+        assert.equal(item.status, 'discovered');
+        assert.equal(item.waybackUrl, `https://web.archive.org/web/20031213060615id_/http://www.usaweightlifting.org/results/2003/nationals_results.pdf`);
+    });
+});
+
+describe('InventoryStore lookups', () => {
+    it('finds items by id and filename, following renames and journal replays', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-inventory-'));
+        try {
+            const file = path.join(dir, 'inventory.json');
+            const store = await InventoryStore.load(file, { allowMissing: true });
+            const item = createInventoryItem(capture('http://www.usaweightlifting.org/results/2003/nationals.pdf'), 'early-web');
+            store.add(item);
+            await store.checkpoint();
+
+            assert.equal(store.has(DIGEST), true);
+            assert.equal(store.has('OTHER'), false);
+            await store.update(item, { filename: 'nationals.20031213060615.pdf' });
+            assert.deepEqual(store.withFilename('nationals.pdf'), []);
+            assert.deepEqual(store.withFilename('nationals.20031213060615.pdf'), [item]);
+
+            // The rename is still in the journal: a fresh load indexes the replayed name
+            const reloaded = await InventoryStore.load(file);
+            assert.equal(reloaded.withFilename('nationals.20031213060615.pdf').length, 1);
+            assert.equal(reloaded.withId(DIGEST).length, 1);
+        } finally {
+            await fs.remove(dir);
+        }
+    });
+});
@@ -0,0 +1,343 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Categorizer, FileCategory, FileSubcategory } from './categorizer';
+import { CdxResult } from './cdx';
+import { publicPlaybackUrl } from './config';
+import { RedirectHop } from './redirects';
+
+export type InventoryStatus = 'discovered' | 'downloaded' | 'failed' | 'skipped';
+
+const VALID_STATUSES: InventoryStatus[] = ['discovered', 'downloaded', 'failed', 'skipped'];
+
+// Inventory Type
+export interface InventoryItem {
+    id: string; // urlkey or similar unique id
+    era: string;
+    year: number;
+    category: FileCategory;
+    subcategory?: FileSubcategory;
+    filename: string;
+    originalUrl: string;
+    waybackUrl: string;
+    timestamp: string;
+    status: InventoryStatus;
+    digest?: string;
+    localPath?: string;
+    // CDX urlkey: every capture of one URL shares it (see versions.ts)
+    urlkey?: string;
+    // MIME type the capture was archived with
+    mimetype?: string;
+    // Set on the capture chosen to stand for its URL; otherwise the newest download is used
+    canonical?: boolean;
+    // Found by `crawl` rather than a CDX prefix search: the page (and capture) that linked to it
+    linkedFrom?: {
+        url: string;
+        timestamp: string;
+        depth: number;
+    };
+    // Reached through archived redirects (discovery with --follow-redirects): every hop,
+    // starting from the URL discovery found; originalUrl is where the chain ended
+    redirects?: RedirectHop[];
+    // Download bookkeeping
+    attempts?: number;
+    lastError?: string;
+    lastAttemptAt?: string;
+    downloadedAt?: string;
+    // Digest verification (see integrity.ts)
+    integrity?: 'verified' | 'mismatch' | 'unverified';
+    actualDigest?: string;
+    quarantinedPath?: string;
+    // Structured results extraction (see extract.ts)
+    extraction?: {
+        parser: string;
+        layout: string;
+        records: number;
+        unparsed: number;
+        confidence?: number;
+        outputPath: string;
+        textPath?: string;
+        extractedAt: string;
+    };
+    // Browser snapshots of a downloaded HTML page (see render.ts)
+    render?: {
+        status: 'rendered' | 'failed';
+        pdfPath?: string;
+        pngPath?: string;
+        // Local files the page asked for that are not on disk
+        missing: string[];
+        // Network requests refused so only local copies load
+        blocked: string[];
+        // Script errors, or why rendering failed
+        errors: string[];
+        renderedAt: string;
+    };
+}
+
+export type InventoryPatch = Partial<Omit<InventoryItem, 'id'>>;
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+    const list = map.get(key);
+    if (list) list.push(value); else map.set(key, [value]);
+}
+
+function setField<K extends keyof InventoryItem>(item: InventoryItem, key: K, value: InventoryItem[K] | null | undefined): void {
+    if (value === undefined || value === null) {
+        Reflect.deleteProperty(item, key);
+    } else {
+        item[key] = value;
+    }
+}
+
+// Cleared fields are undefined in a patch and null once journaled; both remove the field
+function applyPatch(item: InventoryItem, patch: InventoryPatch): void {
+    for (const key of Object.keys(patch) as (keyof InventoryPatch)[]) {
+        setField(item, key, patch[key]);
+    }
+}
+
+// One line of the append-only journal. `index` pins the entry to a position in the
+// snapshot because older inventories contain several items sharing the same id.
+interface JournalEntry {
+    index: number;
+    id: string;
+    patch: InventoryPatch;
+    at: string;
+}
+
+/**
+ * Derives the local filename for a capture; it is stored under the URL's own directory
+ * (see layout.ts). Query-string pages and generic names (index.*, very short names, names
+ * without an extension that could also be a directory) get a digest suffix so captures
+ * don't overwrite each other. Directory URLs (/results/) are their index page.
+ */
+export function deriveFilename(r: Pick<CdxResult, 'original' | 'digest'>): string {
+    let urlPath = r.original.split(/[?#]/)[0];
+    try {
+        urlPath = new URL(r.original).pathname;
+    } catch {
+        // Not a full URL; use it as it is
+    }
+    let filename = urlPath.endsWith('/') ? 'index.html' : path.basename(urlPath) || `file-${r.digest}.dat`;
+
+    if (r.original.includes('?') || filename.length < 5 || filename.match(/^index\./) || !path.extname(filename)) {
+        const ext = path.extname(filename);
+        const name = path.basename(filename, ext);
+        filename = `${name}-${r.digest.substring(0, 8)}${ext}`;
+    }
+
+    if (filename.match(/\.(aspx|asp)$/i)) {
+        filename = filename.replace(/\.(aspx|asp)$/i, '.html');
+    }
+
+    return filename;
+}
+
+export function createInventoryItem(r: CdxResult, eraId: string): InventoryItem {
+    const filename = deriveFilename(r);
+    const { category, subcategory } = Categorizer.default().classify({ filename, originalUrl: r.original });
+    return {
+        id: r.digest,
+        era: eraId,
+        year: parseInt(r.timestamp.substring(0, 4)),
+        category,
+        ...(subcategory ? { subcategory } : {}),
+        filename,
+        originalUrl: r.original,
+        ...(r.urlkey ? { urlkey: r.urlkey } : {}),
+        ...(r.mimetype ? { mimetype: r.mimetype } : {}),
+        waybackUrl: publicPlaybackUrl(r.timestamp, r.original),
+        timestamp: r.timestamp,
+        status: 'discovered'
+    };
+}
+
+/**
+ * Loads, validates and persists inventory.json.
+ *
+ * Status changes are appended to `<inventory>.journal` as they happen and folded back
+ * into the snapshot on `checkpoint()`. The snapshot is always written to a temp file and
+ * renamed over the original, so a crash leaves either the old or the new file, never half of one.
+ */
+export class InventoryStore {
+    private items: InventoryItem[] = [];
+    private indexes = new Map<InventoryItem, number>();
+    // Lookups for merging large CDX result sets without scanning every item
+    private byId = new Map<string, InventoryItem[]>();
+    private byFilename = new Map<string, InventoryItem[]>();
+    // Number of journal entries folded in by the last load, i.e. work recovered from an interrupted run
+    recoveredEntries = 0;
+
+    private constructor(readonly filePath: string) { }
+
+    get journalPath(): string {
+        return `${this.filePath}.journal`;
+    }
+
+    static async load(filePath: string, options?: { allowMissing?: boolean }): Promise<InventoryStore> {
+        const store = new InventoryStore(filePath);
+
+        if (await fs.pathExists(filePath)) {
+            let raw: unknown;
+            try {
+                raw = await fs.readJSON(filePath);
+            } catch (e: any) {
+                throw new Error(`Inventory ${filePath} is not valid JSON: ${e.message}`);
+            }
+            store.items = InventoryStore.validate(raw, filePath);
+        } else if (!options?.allowMissing) {
+            throw new Error(`Inventory file not found: ${filePath}`);
+        }
+
+        store.items.forEach((item, index) => store.indexes.set(item, index));
+        await store.replayJournal();
+        store.items.forEach(item => store.addToLookups(item));
+        return store;
+    }
+
+    static validate(raw: unknown, source: string): InventoryItem[] {
+        if (!Array.isArray(raw)) {
+            throw new Error(`Inventory ${source} must contain a JSON array`);
+        }
+
+        const requiredStrings: (keyof InventoryItem)[] = ['id', 'era', 'category', 'filename', 'originalUrl', 'waybackUrl', 'timestamp'];
+
+        raw.forEach((entry, index) => {
+            if (!entry || typeof entry !== 'object') {
+                throw new Error(`Inventory ${source}[${index}] is not an object`);
+            }
+            InventoryStore.normalizeLegacy(entry);
+            for (const key of requiredStrings) {
+                if (typeof entry[key] !== 'string' || entry[key].length === 0) {
+                    throw new Error(`Inventory ${source}[${index}] is missing string field "${key}"`);
+                }
+            }
+            if (typeof entry.year !== 'number' || !Number.isInteger(entry.year)) {
+                throw new Error(`Inventory ${source}[${index}] has non-integer year: ${JSON.stringify(entry.year)}`);
+            }
+            if (!VALID_STATUSES.includes(entry.status)) {
+                throw new Error(`Inventory ${source}[${index}] has unknown status "${entry.status}" (expected ${VALID_STATUSES.join(', ')})`);
+            }
+        });
+
+        return raw as InventoryItem[];
+    }
+
+    /**
+     * Fills gaps left by the hand-merged early-web records: string years, `mimeType`
+     * spelled differently, and no id/timestamp (both recoverable from the Wayback URL).
+     */
+    private static normalizeLegacy(entry: any): void {
+        if (entry.mimeType !== undefined && entry.mimetype === undefined) {
+            entry.mimetype = entry.mimeType;
+            delete entry.mimeType;
+        }
+        if (typeof entry.year === 'string' && /^\d{4}$/.test(entry.year)) {
+            entry.year = parseInt(entry.year, 10);
+        }
+        if (!entry.timestamp && typeof entry.waybackUrl === 'string') {
+            const match = entry.waybackUrl.match(/\/web\/(\d{14})/);
+            if (match) entry.timestamp = match[1];
+        }
+        if (!entry.id) {
+            entry.id = entry.digest || (entry.timestamp && entry.originalUrl ? `${entry.timestamp}-${entry.originalUrl}` : undefined);
+        }
+    }
+
+    all(): InventoryItem[] {
+        return this.items;
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    add(item: InventoryItem): void {
+        this.indexes.set(item, this.items.length);
+        this.items.push(item);
+        this.addToLookups(item);
+    }
+
+    has(id: string): boolean {
+        return this.byId.has(id);
+    }
+
+    // Older inventories can hold several items under one id
+    withId(id: string): InventoryItem[] {
+        return this.byId.get(id) || [];
+    }
+
+    withFilename(filename: string): InventoryItem[] {
+        return this.byFilename.get(filename) || [];
+    }
+
+    private addToLookups(item: InventoryItem): void {
+        pushTo(this.byId, item.id, item);
+        pushTo(this.byFilename, item.filename, item);
+    }
+
+    /**
+     * Applies a patch in memory and appends it to the journal immediately,
+     * so the change survives a crash before the next checkpoint.
+     */
+    async update(item: InventoryItem, patch: InventoryPatch, options?: { dryRun?: boolean }): Promise<void> {
+        const index = this.indexes.get(item);
+        if (index === undefined) {
+            throw new Error(`Item ${item.id} does not belong to inventory ${this.filePath}`);
+        }
+
+        if (patch.filename !== undefined && patch.filename !== item.filename) {
+            const siblings = this.withFilename(item.filename).filter(other => other !== item);
+            if (siblings.length > 0) this.byFilename.set(item.filename, siblings); else this.byFilename.delete(item.filename);
+            pushTo(this.byFilename, patch.filename, item);
+        }
+        applyPatch(item, patch);
+        if (options?.dryRun) return;
+
+        const entry: JournalEntry = { index, id: item.id, patch, at: new Date().toISOString() };
+        // Cleared fields (e.g. lastError after a successful retry) are journaled as null
+        await fs.appendFile(this.journalPath, JSON.stringify(entry, (_, value) => value === undefined ? null : value) + '\n');
+    }
+
+    /**
+     * Writes the full snapshot atomically and truncates the journal.
+     */
+    async checkpoint(): Promise<void> {
+        const dir = path.dirname(path.resolve(this.filePath));
+        await fs.ensureDir(dir);
+
+        const tmpPath = path.join(dir, `.${path.basename(this.filePath)}.${process.pid}.tmp`);
+        await fs.writeJSON(tmpPath, this.items, { spaces: 2 });
+        await fs.rename(tmpPath, this.filePath);
+        await fs.remove(this.journalPath);
+    }
+
+    private async replayJournal(): Promise<void> {
+        if (!await fs.pathExists(this.journalPath)) return;
+
+        const lines = (await fs.readFile(this.journalPath, 'utf-8')).split('\n');
+        let applied = 0;
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+
+            let entry: JournalEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                // A torn final line from a crash mid-append; everything before it is intact
+                continue;
+            }
+
+            const item = this.items[entry.index];
+            if (!item || item.id !== entry.id) continue;
+
+            applyPatch(item, entry.patch);
+            applied++;
+        }
+
+        this.recoveredEntries = applied;
+        if (applied > 0) {
+            await this.checkpoint();
+        }
+    }
+}
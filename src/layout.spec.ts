@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { CONFIG } from './config';
+import { InventoryItem } from './inventory';
+import { itemPath, urlDirectory } from './layout';
+import { inventoryItem } from './testing';
+import { uniqueFilename } from './versions';
+
+const item = (originalUrl: string, overrides: Partial<InventoryItem> = {}) => inventoryItem({ originalUrl, ...overrides });
+
+describe('storage layout', () => {
+    it('mirrors the host and path below the category', () => {
+        assert.equal(urlDirectory('http://www.USAweightlifting.org:80/results/2003/results.pdf'), path.join('www.usaweightlifting.org', 'results', '2003'));
+        assert.equal(urlDirectory('http://msbn.tv/usavision/displayPage.aspx?id=396'), path.join('msbn.tv', 'usavision'));
+        assert.equal(urlDirectory('http://msbn.tv/'), 'msbn.tv');
+    });
+
+    it('keeps decoded path segments inside the category directory', () => {
+        assert.equal(urlDirectory('http://msbn.tv/2005%20Meets/../a:b/x.pdf'), path.join('msbn.tv', 'a_b'));
+        assert.equal(urlDirectory('http://msbn.tv/%2e%2e/%2e%2e/x.pdf'), 'msbn.tv');
+        assert.equal(urlDirectory('http://msbn.tv/a%2Fb/x.pdf'), path.join('msbn.tv', 'a_b'));
+    });
+
+    it('stores same-named documents from different paths apart', () => {
+        const seniors = item('http://www.usaweightlifting.org/results/2003/results.pdf', { subcategory: 'national' });
+        const juniors = item('http://www.usaweightlifting.org/results/2003/juniors/results.pdf', { subcategory: 'national' });
+
+        assert.equal(itemPath(seniors), path.join(CONFIG.DATA_DIR, 'early-web', '2003', 'results', 'national',
+            'www.usaweightlifting.org', 'results', '2003', 'results.pdf'));
+        assert.notEqual(itemPath(juniors), itemPath(seniors));
+        assert.equal(uniqueFilename(juniors, [seniors, juniors]), 'results.pdf');
+    });
+
+    it('versions a renamed page that meets a real one of the same name', () => {
+        const page = item('http://msbn.tv/usavision/events.html');
+        const asp = item('http://msbn.tv/usavision/events.asp', { filename: 'events.html', timestamp: '20050101000000' });
+        assert.equal(uniqueFilename(asp, [page, asp]), 'events.20050101000000.html');
+    });
+});
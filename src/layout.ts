@@ -0,0 +1,119 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CONFIG } from './config';
+import { InventoryItem, InventoryPatch } from './inventory';
+import { IntegrityChecker } from './integrity';
+import { collectReferences, resolveReference } from './rewriter';
+
+// Files kept next to a document by `rewrite` (.orig), `extract` (.results.*, .txt), `render`
+// and the downloader (.provenance.json)
+export const SIDECAR_SUFFIXES = [CONFIG.ORIGINAL_SUFFIX, '.results.json', '.results.csv', '.txt', CONFIG.RENDER.PDF_SUFFIX, CONFIG.RENDER.PNG_SUFFIX, CONFIG.PROVENANCE_SUFFIX];
+
+/**
+ * Where a document lives on disk: data/<era>/<year>/<category>[/<subcategory>]
+ */
+export function itemDirectory(item: Pick<InventoryItem, 'era' | 'year' | 'category' | 'subcategory'>): string {
+    const dir = path.join(CONFIG.DATA_DIR, item.era, item.year.toString(), item.category);
+    return item.subcategory ? path.join(dir, item.subcategory) : dir;
+}
+
+/**
+ * Directories below the category that mirror where a document lived: <host>/<path dirs>.
+ * Two results.pdf from /results/2003/ and /results/2003/juniors/ land in different places,
+ * and the name on disk stays the one the site used.
+ */
+export function urlDirectory(originalUrl: string): string {
+    let url: URL;
+    try {
+        url = new URL(originalUrl);
+    } catch {
+        return '_unknown';
+    }
+    const segments = url.pathname.split('/').slice(0, -1)
+        .map(segment => safeSegment(segment))
+        .filter(segment => segment.length > 0);
+    return path.join(safeSegment(url.hostname.toLowerCase()) || '_unknown', ...segments);
+}
+
+function safeSegment(segment: string): string {
+    let decoded = segment;
+    try {
+        decoded = decodeURIComponent(segment);
+    } catch {
+        // Keep malformed escapes as they are
+    }
+    decoded = decoded.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_');
+    return decoded === '.' || decoded === '..' ? '' : decoded;
+}
+
+/**
+ * Where a document is stored: data/<era>/<year>/<category>[/<subcategory>]/<host>/<path>/<filename>
+ */
+export function itemPath(item: Pick<InventoryItem, 'era' | 'year' | 'category' | 'subcategory' | 'originalUrl' | 'filename'>): string {
+    return path.join(itemDirectory(item), urlDirectory(item.originalUrl), item.filename);
+}
+
+// Inventory fields that point at a document's files, for a document moved to `to`
+export function relocatedFields(item: InventoryItem, to: string): InventoryPatch {
+    return {
+        localPath: to,
+        ...(item.extraction ? {
+            extraction: {
+                ...item.extraction,
+                outputPath: `${to}.results.json`,
+                textPath: item.extraction.textPath ? `${to}.txt` : undefined
+            }
+        } : {}),
+        ...(item.render ? {
+            render: {
+                ...item.render,
+                pdfPath: item.render.pdfPath ? `${to}${CONFIG.RENDER.PDF_SUFFIX}` : undefined,
+                pngPath: item.render.pngPath ? `${to}${CONFIG.RENDER.PNG_SUFFIX}` : undefined
+            }
+        } : {})
+    };
+}
+
+/**
+ * Moves a downloaded document and its sidecars to `to`. Assets an HTML page links
+ * page-relatively (images/x.gif) are copied along rather than moved, since other
+ * pages in the old directory may use them too. Refuses to overwrite an existing file.
+ * Returns the number of assets copied.
+ */
+export async function moveDocument(item: InventoryItem, to: string): Promise<number> {
+    const from = item.localPath!;
+    if (path.resolve(from) === path.resolve(to)) return 0;
+    if (await fs.pathExists(to)) {
+        throw new Error(`${to} already exists`);
+    }
+
+    let copied = 0;
+    if (/\.html?$/i.test(from)) {
+        const html = await fs.readFile(await IntegrityChecker.payloadPath(from), 'utf-8');
+        const dataRoot = path.resolve(CONFIG.DATA_DIR);
+        const yearDir = path.resolve(CONFIG.DATA_DIR, item.era, item.year.toString());
+
+        for (const ref of collectReferences(html)) {
+            const before = resolveReference(ref, item.originalUrl, path.dirname(path.resolve(from)), yearDir);
+            const after = resolveReference(ref, item.originalUrl, path.dirname(path.resolve(to)), yearDir);
+            if (!before || !after || before.localPath === after.localPath) continue;
+            if (!after.localPath.startsWith(dataRoot)) continue;
+
+            if (await fs.pathExists(before.localPath) && !await fs.pathExists(after.localPath)) {
+                await fs.copy(before.localPath, after.localPath);
+                const provenance = `${before.localPath}${CONFIG.PROVENANCE_SUFFIX}`;
+                if (await fs.pathExists(provenance)) await fs.copy(provenance, `${after.localPath}${CONFIG.PROVENANCE_SUFFIX}`);
+                copied++;
+            }
+        }
+    }
+
+    await fs.ensureDir(path.dirname(to));
+    await fs.move(from, to);
+    for (const suffix of SIDECAR_SUFFIXES) {
+        if (await fs.pathExists(`${from}${suffix}`)) {
+            await fs.move(`${from}${suffix}`, `${to}${suffix}`, { overwrite: true });
+        }
+    }
+    return copied;
+}
@@ -0,0 +1,13 @@
+import pino from 'pino';
+
+// Shared logger so modules outside index.ts report through the same pretty transport
+// LOG_LEVEL=debug also shows every HTTP request
+export const logger = pino({
+    level: process.env.LOG_LEVEL || 'info',
+    transport: {
+        target: 'pino-pretty',
+        options: {
+            colorize: true
+        }
+    }
+});
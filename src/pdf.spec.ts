@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { PdfResultsExtractor } from './pdf';
+import { ResultRecord } from './results';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'results');
+
+const byName = (records: ResultRecord[], name: string) => records.find(r => r.name === name)!;
+
+describe('PdfResultsExtractor', () => {
+    it('rebuilds result rows from positioned text, including a two-row attempt header', async () => {
+        const { document: doc, text, pages } = await new PdfResultsExtractor().extract(await fs.readFile(path.join(FIXTURES, 'results_book.pdf')), 'results_book.pdf');
+
+        assert.equal(pages, 2);
+        assert.equal(doc.layout, 'positioned-columns+two-row-header');
+        assert.equal(doc.meet, '2007 National Championships');
+        assert.equal(doc.date, 'June 15-17, 2007');
+        assert.deepEqual(doc.records.map(r => [r.name, r.club, r.weightClass, r.place, r.source.section]), [
+            ['Oscar Chaplin', 'Team Savannah', '69kg', 1, 'page[1]'],
+            ['Ray Runner', 'Ohio WC', '69kg', 2, 'page[1]'],
+            ['Bad Total', 'Ohio WC', '69kg', 3, 'page[1]'],
+            ['Lisa Lift', 'Calif Power', '58kg', 1, 'page[2]']
+        ]);
+
+        const oscar = byName(doc.records, 'Oscar Chaplin');
+        assert.deepEqual(oscar.snatch, [130, -135, 135]);
+        assert.deepEqual(oscar.cleanJerk, [160, 165, -170]);
+        assert.deepEqual([oscar.bodyweight, oscar.total], [68.7, 300]);
+        // A blank attempt keeps the following columns in place
+        assert.deepEqual(byName(doc.records, 'Ray Runner').snatch, [120, 125, null]);
+        assert.deepEqual(byName(doc.records, 'Lisa Lift').cleanJerk, [100, -105, 105]);
+
+        // All rows parsed; one of four totals disagrees with snatch + clean & jerk
+        assert.equal(doc.confidence, 0.88);
+        assert.deepEqual(doc.notes, []);
+        assert.match(text, /^2007 National Championships\n/);
+    });
+
+    it('flags books without a text layer for transcription', async () => {
+        const { document: doc, text } = await new PdfResultsExtractor().extract(await fs.readFile(path.join(FIXTURES, 'scanned_book.pdf')), 'scanned_book.pdf');
+
+        assert.equal(text, '');
+        assert.equal(doc.layout, 'none');
+        assert.equal(doc.confidence, 0);
+        assert.deepEqual(doc.notes, ['no usable text layer (likely a scanned image); needs OCR or manual transcription']);
+    });
+});
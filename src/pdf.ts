@@ -0,0 +1,233 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import {
+    alignToColumns, ColumnMap, detectWeightClass, findDate, isResultRecord, mapHeader,
+    parseResultRow, PositionedToken, ResultDocument, ResultRecord, UnparsedRow
+} from './results';
+
+// Below this many non-space characters per page (on average) we assume there is no real text layer
+const MIN_CHARS_PER_PAGE = 10;
+
+type Pdfjs = typeof import('pdfjs-dist/legacy/build/pdf');
+let pdfjsModule: Promise<Pdfjs> | undefined;
+
+// Loaded on first use: importing pdfjs under Node warns that it cannot polyfill DOMMatrix/Path2D
+function loadPdfjs(): Promise<Pdfjs> {
+    if (!pdfjsModule) pdfjsModule = import('pdfjs-dist/legacy/build/pdf');
+    return pdfjsModule;
+}
+
+interface TextLine {
+    page: number;
+    y: number;
+    tokens: PositionedToken[];
+}
+
+export interface PdfExtraction {
+    document: ResultDocument;
+    text: string;
+    pages: number;
+}
+
+/**
+ * Rebuilds table rows from the positioned text in a PDF result book and runs them
+ * through the shared results parser. Text items are grouped into lines by baseline,
+ * then into cells by horizontal gaps, then aligned under the header row's columns.
+ *
+ * Scanned books have no text layer; they come back with no records and a confidence
+ * of 0 so they can be queued for manual transcription.
+ */
+export class PdfResultsExtractor {
+    readonly parser = 'pdf';
+
+    async extract(data: Buffer, sourcePath: string): Promise<PdfExtraction> {
+        const pdfjs = await loadPdfjs();
+        const pdf = await pdfjs.getDocument({
+            data: new Uint8Array(data),
+            isEvalSupported: false,
+            useSystemFonts: false,
+            verbosity: 0
+        }).promise;
+
+        const lines: TextLine[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            lines.push(...this.buildLines(content.items.filter((item): item is TextItem => 'str' in item), pageNumber));
+            page.cleanup();
+        }
+        await pdf.destroy();
+
+        const text = lines.map(line => this.lineText(line)).join('\n');
+        const notes: string[] = [];
+        const { records, unparsed, layout } = this.parseLines(lines, text);
+
+        const charCount = text.replace(/\s/g, '').length;
+        const hasTextLayer = charCount >= MIN_CHARS_PER_PAGE * Math.max(1, pdf.numPages);
+        if (!hasTextLayer) {
+            notes.push('no usable text layer (likely a scanned image); needs OCR or manual transcription');
+        } else if (records.length === 0) {
+            notes.push('text found but no results table recognised');
+        }
+
+        const meetLine = lines.find(line => line.tokens.length > 0);
+        const document: ResultDocument = {
+            sourcePath,
+            parser: this.parser,
+            layout,
+            meet: meetLine ? this.lineText(meetLine).trim() : null,
+            date: findDate(text.substring(0, 3000)),
+            extractedAt: new Date().toISOString(),
+            records,
+            unparsed,
+            confidence: this.confidence(records, unparsed, hasTextLayer),
+            notes
+        };
+
+        return { document, text, pages: pdf.numPages };
+    }
+
+    /**
+     * Groups text items sharing a baseline into lines and merges items that sit
+     * closer than about a character apart into one token.
+     */
+    private buildLines(items: TextItem[], page: number): TextLine[] {
+        const lines: TextLine[] = [];
+
+        const positioned = items
+            .filter(item => item.str && item.str.trim())
+            .map(item => ({
+                text: item.str,
+                x: item.transform[4],
+                y: item.transform[5],
+                width: item.width,
+                size: Math.abs(item.transform[3]) || item.height || 10
+            }))
+            // PDF y grows upwards: sort top to bottom, then left to right
+            .sort((a, b) => (b.y - a.y) || (a.x - b.x));
+
+        for (const item of positioned) {
+            let line = lines.find(l => Math.abs(l.y - item.y) <= item.size * 0.4);
+            if (!line) {
+                line = { page, y: item.y, tokens: [] };
+                lines.push(line);
+            }
+
+            const charWidth = item.width / Math.max(1, item.text.length) || item.size * 0.5;
+            const last = line.tokens[line.tokens.length - 1];
+            if (last && item.x - last.end < charWidth * 1.2 && item.x >= last.start) {
+                const gap = item.x - last.end > charWidth * 0.3 ? ' ' : '';
+                last.text = `${last.text}${gap}${item.text}`.replace(/\s+/g, ' ');
+                last.end = Math.max(last.end, item.x + item.width);
+            } else {
+                line.tokens.push({ text: item.text.trim(), start: item.x, end: item.x + item.width });
+            }
+        }
+
+        for (const line of lines) {
+            line.tokens.sort((a, b) => a.start - b.start);
+        }
+        return lines.sort((a, b) => b.y - a.y);
+    }
+
+    private lineText(line: TextLine): string {
+        return line.tokens.map(t => t.text).join('  ');
+    }
+
+    private parseLines(lines: TextLine[], text: string) {
+        const records: ResultRecord[] = [];
+        const unparsed: UnparsedRow[] = [];
+        const layouts = new Set<string>();
+        const meet = lines.length > 0 ? this.lineText(lines[0]).trim() : null;
+        const date = findDate(text.substring(0, 3000));
+
+        let header: PositionedToken[] | null = null;
+        let map: ColumnMap | null = null;
+        let weightClass: string | null = null;
+
+        lines.forEach((line, index) => {
+            const section = `page[${line.page}]`;
+            const cells = line.tokens.map(t => t.text);
+
+            // Two-row header: "Snatch" / "C&J" above a row of 1 2 3 attempt numbers
+            const previous = lines[index - 1];
+            if (previous && cells.length >= 3 && cells.every(c => /^[123]$/.test(c))) {
+                const combined = this.combineHeaderLines(previous.tokens, line.tokens);
+                const combinedMap = mapHeader(combined.map(t => t.text));
+                if (combinedMap) {
+                    header = combined;
+                    map = combinedMap;
+                    layouts.add('two-row-header');
+                    return;
+                }
+            }
+
+            const lineMap = mapHeader(cells);
+            if (lineMap) {
+                header = line.tokens;
+                map = lineMap;
+                layouts.add('positioned-columns');
+                return;
+            }
+
+            if (cells.length === 1) {
+                weightClass = detectWeightClass(cells[0]) || weightClass;
+                return;
+            }
+
+            if (!header || !map) return;
+
+            const aligned = alignToColumns(line.tokens, header);
+            const parsed = parseResultRow(aligned, map, { meet, date, weightClass, section, row: index });
+            if (isResultRecord(parsed)) {
+                records.push(parsed);
+            } else if (cells.some(c => /\d/.test(c))) {
+                unparsed.push(parsed);
+            }
+        });
+
+        return { records, unparsed, layout: layouts.size > 0 ? Array.from(layouts).join('+') : 'none' };
+    }
+
+    private combineHeaderLines(upper: PositionedToken[], lower: PositionedToken[]): PositionedToken[] {
+        // Split the attempt numbers into 1-2-3 runs, one per lift
+        const runs: PositionedToken[][] = [];
+        for (const token of lower) {
+            if (token.text === '1' || runs.length === 0) runs.push([]);
+            runs[runs.length - 1].push(token);
+        }
+
+        // Group labels are usually centred over their run, so match on centres
+        const centre = (t: { start: number; end: number }) => (t.start + t.end) / 2;
+        const owners = new Set<PositionedToken>();
+        const combined: PositionedToken[] = [];
+
+        for (const run of runs) {
+            const runCentre = (run[0].start + run[run.length - 1].end) / 2;
+            const owner = upper.reduce<PositionedToken | undefined>((best, t) =>
+                !best || Math.abs(centre(t) - runCentre) < Math.abs(centre(best) - runCentre) ? t : best, undefined);
+            if (owner) owners.add(owner);
+            for (const token of run) {
+                combined.push({ text: owner ? `${owner.text} ${token.text}` : token.text, start: token.start, end: token.end });
+            }
+        }
+
+        combined.push(...upper.filter(t => !owners.has(t)));
+        return combined.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * 0..1 score for how far the structured rows can be trusted:
+     * half from the share of data-looking rows that parsed, the rest from how many
+     * records have totals that agree with their best snatch + clean & jerk.
+     */
+    private confidence(records: ResultRecord[], unparsed: UnparsedRow[], hasTextLayer: boolean): number {
+        if (!hasTextLayer || records.length === 0) return 0;
+
+        const parsedShare = records.length / (records.length + unparsed.length);
+        const checkable = records.filter(r => r.total !== null && r.bestSnatch !== null && r.bestCleanJerk !== null);
+        const consistent = checkable.filter(r => Math.abs((r.bestSnatch! + r.bestCleanJerk!) - r.total!) < 0.01 || r.total === 0);
+        const consistency = checkable.length > 0 ? consistent.length / checkable.length : 0.5;
+
+        return Math.round((parsedShare * 0.5 + consistency * 0.5) * 100) / 100;
+    }
+}
@@ -0,0 +1,77 @@
+import fs from 'fs-extra';
+import { CONFIG } from './config';
+import { IntegrityChecker } from './integrity';
+import { logger } from './logger';
+import { RedirectHop } from './redirects';
+
+/**
+ * How an asset's URL was worked out from the page that referenced it:
+ *  - page-relative: a relative reference resolved against the page (images/x.gif on /foo/bar.html)
+ *  - root: a root-relative reference (/images/x.gif)
+ *  - absolute: a full URL in the page
+ *  - root-fallback: a page-relative image that only existed at the site root (see AssetRecovery)
+ */
+export type AssetLookup = 'page-relative' | 'root' | 'absolute' | 'root-fallback';
+
+/**
+ * Everything known about where a saved file came from, kept next to it as
+ * <file>.provenance.json so the file can be traced without inventory.json.
+ */
+export interface Provenance {
+    kind: 'document' | 'asset';
+    originalUrl: string;
+    // The CDX capture the file was fetched from
+    timestamp: string;
+    waybackUrl: string;
+    // Digest the CDX index lists for the capture, and the SHA-1 (base32) of the saved bytes
+    cdxDigest?: string;
+    sha1: string;
+    contentType?: string;
+    length: number;
+    // Response headers from the Wayback playback; x-archive-orig-* are the original server's
+    headers?: Record<string, string>;
+    fetchedAt: string;
+    // Inventory item the document belongs to
+    inventoryId?: string;
+    // The page whose link led here: the referencing page of an asset, or the page
+    // a crawled document was found on
+    referencedBy?: {
+        url: string;
+        timestamp: string;
+        // The src/href as written in that page
+        reference?: string;
+    };
+    // Assets only
+    lookup?: AssetLookup;
+    // Archived redirects that led to a document (discovery with --follow-redirects)
+    redirects?: RedirectHop[];
+}
+
+export function provenancePath(filePath: string): string {
+    return `${filePath}${CONFIG.PROVENANCE_SUFFIX}`;
+}
+
+/**
+ * Writes the sidecar for a file that was just saved. Digest and length are taken from
+ * the file on disk, so the record describes exactly the bytes that were kept.
+ */
+export async function writeProvenance(filePath: string, record: Omit<Provenance, 'sha1' | 'length' | 'fetchedAt'> & { fetchedAt?: string }): Promise<Provenance> {
+    const data = await fs.readFile(filePath);
+    const provenance: Provenance = {
+        ...record,
+        sha1: IntegrityChecker.digestOf(data),
+        length: data.length,
+        fetchedAt: record.fetchedAt || new Date().toISOString()
+    };
+    await fs.writeJSON(provenancePath(filePath), provenance, { spaces: 2 });
+    return provenance;
+}
+
+export async function readProvenance(filePath: string): Promise<Provenance | null> {
+    try {
+        return await fs.readJSON(provenancePath(filePath));
+    } catch (err: any) {
+        if (err.code !== 'ENOENT') logger.warn(`Unreadable provenance for ${filePath}: ${err.message}`);
+        return null;
+    }
+}
@@ -0,0 +1,152 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { InventoryItem, InventoryStore } from './inventory';
+import { CaptureIndex, diffInventories, itemsFromManifest, mergeInto, reconcile } from './reconcile';
+import { inventoryItem } from './testing';
+
+const DIGEST = 'CUV4LIM3XEKCE5CATWHWTRQSAGEQA3FU';
+const URL = 'http://www.usaweightlifting.org/03americanopenresults.html';
+
+const record = (overrides: Partial<InventoryItem> = {}) => inventoryItem({ id: DIGEST, originalUrl: URL, ...overrides });
+
+const nowhere = () => false;
+
+describe('CaptureIndex', () => {
+    it('matches by urlkey and digest, or by urlkey and timestamp for records without a digest', () => {
+        const index = new CaptureIndex([record()]);
+        // A hand-made id, digest kept separately, and another capture time for the same payload
+        assert.ok(index.find(record({ id: 'MANUAL-1', digest: DIGEST, timestamp: '20031215000000' })));
+        // The same bytes under another URL are another record
+        assert.equal(index.find(record({ originalUrl: 'http://usaweightlifting.org/elsewhere.html' })), undefined);
+        // No digest at all; port and www. don't matter to the urlkey
+        assert.ok(index.find(record({ id: '20031213060615-x', originalUrl: 'http://usaweightlifting.org:80/03americanopenresults.html' })));
+        // Same URL and time but a different known digest is another record
+        assert.equal(index.find(record({ id: '4JTBEOQTOOLWZ3AJYUZCEX36M3ED2CZ7' })), undefined);
+        assert.equal(index.find(record({ id: 'MANUAL-2', timestamp: '20040417122006' })), undefined);
+    });
+});
+
+describe('reconcile', () => {
+    it('lets the higher status win and bring its download fields along', () => {
+        const downloaded = record({ status: 'downloaded', localPath: 'data/a.html', downloadedAt: '2024-01-01T00:00:00Z', integrity: 'verified' });
+        const { patch, status } = reconcile(record({ status: 'failed', attempts: 3, lastError: 'HTTP 503' }), downloaded, nowhere);
+
+        assert.equal(status, 'failed -> downloaded (downloaded outranks failed)');
+        assert.deepEqual(patch, {
+            status: 'downloaded', localPath: 'data/a.html', attempts: undefined, lastError: undefined,
+            downloadedAt: '2024-01-01T00:00:00Z', integrity: 'verified'
+        });
+        // The other way round nothing changes
+        assert.deepEqual(reconcile(downloaded, record({ status: 'failed' }), nowhere).patch, {});
+    });
+
+    it('prefers the download whose file is on disk, and the failure with more attempts', () => {
+        const onDisk = (item: InventoryItem) => item.localPath === 'data/b.html';
+        const { status, patch } = reconcile(record({ status: 'downloaded', localPath: 'data/a.html' }), record({ status: 'downloaded', localPath: 'data/b.html' }), onDisk);
+        assert.equal(status, 'downloaded -> downloaded (file on disk wins)');
+        assert.deepEqual(patch, { localPath: 'data/b.html' });
+
+        assert.deepEqual(reconcile(record({ status: 'failed', attempts: 1 }), record({ status: 'failed', attempts: 4 }), nowhere).patch, { attempts: 4 });
+    });
+
+    it('fills missing details and reports, but keeps, disagreeing ones', () => {
+        const { patch, conflicts } = reconcile(record(), record({ mimetype: 'text/html', category: 'event_info', era: 'msbn' }), nowhere);
+        assert.deepEqual(patch, { mimetype: 'text/html' });
+        assert.deepEqual(conflicts, [
+            { field: 'era', kept: 'early-web', other: 'msbn' },
+            { field: 'category', kept: 'results', other: 'event_info' }
+        ]);
+    });
+
+    it('does not count a version timestamp added to the filename as a conflict', () => {
+        const kept = record({ filename: '03americanopenresults.20031213060615.html' });
+        assert.deepEqual(reconcile(kept, record(), nowhere).conflicts, []);
+        assert.deepEqual(reconcile(kept, record({ filename: '03americanopenresults.20031213060615-CUV4LIM3.html' }), nowhere).conflicts, []);
+        assert.deepEqual(reconcile(kept, record({ filename: 'other.html' }), nowhere).conflicts, [
+            { field: 'filename', kept: '03americanopenresults.20031213060615.html', other: 'other.html' }
+        ]);
+    });
+});
+
+describe('mergeInto', () => {
+    let workDir: string;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-merge-'));
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('adds new captures, updates known ones through the journal and counts the rest', async () => {
+        const file = path.join(workDir, 'inventory.json');
+        const store = await InventoryStore.load(file, { allowMissing: true });
+        store.add(record());
+        store.add(record({ id: 'BYLAWSDIGEST2222BYLAWSDIGEST2222', filename: 'bylaws.doc', originalUrl: 'http://www.usaweightlifting.org/bylaws.doc', category: 'governance' }));
+        await store.checkpoint();
+
+        const summary = await mergeInto(store, [
+            record({ id: 'MANUAL', digest: DIGEST, status: 'downloaded', localPath: 'data/x.html' }),
+            record({ id: 'BYLAWSDIGEST2222BYLAWSDIGEST2222', filename: 'bylaws.doc', originalUrl: 'http://www.usaweightlifting.org/bylaws.doc', category: 'governance' }),
+            // A later capture under the same name
+            record({ id: '4JTBEOQTOOLWZ3AJYUZCEX36M3ED2CZ7', timestamp: '20040417122006' })
+        ], 'other.json');
+
+        assert.deepEqual([summary.added.length, summary.updated.length, summary.unchanged], [1, 1, 1]);
+        assert.equal(summary.updated[0].status, 'discovered -> downloaded (downloaded outranks discovered)');
+        assert.equal(summary.added[0].item.filename, '03americanopenresults.20040417122006.html');
+
+        // The update was journaled before any checkpoint
+        const reloaded = await InventoryStore.load(file);
+        assert.equal(reloaded.withId(DIGEST)[0].status, 'downloaded');
+    });
+
+    it('keeps the filename of downloaded records and merges the same file again without conflicts', async () => {
+        const store = await InventoryStore.load(path.join(workDir, 'remerge.json'), { allowMissing: true });
+        store.add(record());
+        const incoming = [
+            record({ id: '4JTBEOQTOOLWZ3AJYUZCEX36M3ED2CZ7', timestamp: '20040417122006' }),
+            record({ id: '3I42H3S6NNFQ2MSVX7XZKYAYSCX5QBYJ', timestamp: '20050101000000', status: 'downloaded', localPath: 'data/03americanopenresults.html' })
+        ];
+
+        const first = await mergeInto(store, incoming, 'backup.json', { dryRun: true });
+        assert.deepEqual(first.added.map(c => c.item.filename), ['03americanopenresults.20040417122006.html', '03americanopenresults.html']);
+
+        const again = await mergeInto(store, incoming, 'backup.json', { dryRun: true });
+        assert.deepEqual([again.added.length, again.updated.length, again.unchanged, again.conflicts.length], [0, 0, 2, 0]);
+    });
+});
+
+describe('diffInventories', () => {
+    it('lists records on one side only and the fields that differ', () => {
+        const a = [record(), record({ id: 'ONLYA', timestamp: '20020101000000' })];
+        const b = [record({ status: 'downloaded' }), record({ id: 'ONLYB', timestamp: '20050101000000' })];
+        const diff = diffInventories(a, b);
+
+        assert.deepEqual(diff.onlyInA.map(i => i.id), ['ONLYA']);
+        assert.deepEqual(diff.onlyInB.map(i => i.id), ['ONLYB']);
+        assert.deepEqual(diff.changed[0].fields, [{ field: 'status', a: 'discovered', b: 'downloaded' }]);
+        assert.equal(diff.same, 0);
+    });
+});
+
+describe('itemsFromManifest', () => {
+    it('keeps one record per digest from the raw CDX rows', () => {
+        const row = { urlkey: 'org,usaweightlifting)/03americanopenresults.html', timestamp: '20031213060615', original: 'http://www.usaweightlifting.org:80/03americanopenresults.html', mimetype: 'text/html', statuscode: '200', digest: DIGEST, length: '10759' };
+        const { items, duplicates, skipped } = itemsFromManifest([
+            { ...row, searchTarget: 'usaweightlifting.org' },
+            { ...row, searchTarget: '*.usaweightlifting.org' },
+            { ...row, statuscode: '302', digest: '3I42H3S6NNFQ2MSVX7XZKYAYSCX5QBYJ' }
+        ], 'manifest.json');
+
+        assert.deepEqual([items.length, duplicates, skipped], [1, 1, 1]);
+        assert.equal(items[0].id, DIGEST);
+        assert.equal(items[0].era, 'early-web');
+        assert.equal(items[0].mimetype, 'text/html');
+        assert.throws(() => itemsFromManifest([{ timestamp: '2003' }], 'bad.json'), /bad\.json\[0\] is missing string field "original"/);
+    });
+});
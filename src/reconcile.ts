@@ -0,0 +1,236 @@
+import fs from 'fs-extra';
+import { CdxResult } from './cdx';
+import { ERAS, resolveEra } from './config';
+import { createInventoryItem, InventoryItem, InventoryPatch, InventoryStatus, InventoryStore } from './inventory';
+import { IntegrityChecker } from './integrity';
+import { captureKey, uniqueFilename, unversionedFilename, versionKey } from './versions';
+
+// Higher wins a status conflict: a file on disk beats a deliberate skip, which beats
+// a recorded failure, which beats a capture nobody has tried yet
+const STATUS_RANK: Record<InventoryStatus, number> = { downloaded: 3, skipped: 2, failed: 1, discovered: 0 };
+
+// Fields that describe the state of the download; they travel with the winning status
+const DOWNLOAD_FIELDS: (keyof InventoryPatch)[] = [
+    'status', 'localPath', 'attempts', 'lastError', 'lastAttemptAt', 'downloadedAt',
+    'integrity', 'actualDigest', 'quarantinedPath', 'extraction', 'render'
+];
+
+// Filled in from the other record when the kept one lacks them
+const FILLABLE_FIELDS: (keyof InventoryPatch)[] = ['digest', 'urlkey', 'mimetype', 'subcategory', 'linkedFrom', 'redirects', 'canonical'];
+
+// Kept from the target inventory when the records disagree, and reported
+const IDENTITY_FIELDS: (keyof InventoryItem)[] = ['era', 'year', 'category', 'filename', 'originalUrl'];
+
+export interface FieldConflict {
+    field: string;
+    kept: unknown;
+    other: unknown;
+}
+
+export interface MergeChange {
+    item: InventoryItem;
+    kind: 'added' | 'updated';
+    source: string;
+    fields: string[];
+    // e.g. "discovered -> downloaded (file on disk wins)"
+    status?: string;
+}
+
+export interface MergeSummary {
+    added: MergeChange[];
+    updated: MergeChange[];
+    unchanged: number;
+    conflicts: { item: InventoryItem; source: string; conflicts: FieldConflict[] }[];
+}
+
+export interface InventoryDiff {
+    onlyInA: InventoryItem[];
+    onlyInB: InventoryItem[];
+    changed: { a: InventoryItem; b: InventoryItem; fields: { field: string; a: unknown; b: unknown }[] }[];
+    same: number;
+}
+
+// A row of manifest.json: raw CDX fields plus the target it was found under
+export interface ManifestRow extends CdxResult {
+    searchTarget?: string;
+    waybackUrl?: string;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// A filename with a version timestamp added on a clash (see uniqueFilename) still names the same capture
+function sameField(field: keyof InventoryItem, a: unknown, b: unknown): boolean {
+    if (field === 'filename' && typeof a === 'string' && typeof b === 'string') {
+        return unversionedFilename(a) === unversionedFilename(b);
+    }
+    return same(a, b);
+}
+
+function copyField<K extends keyof InventoryPatch>(patch: InventoryPatch, from: InventoryItem, key: K): void {
+    patch[key] = from[key];
+}
+
+/**
+ * Finds the record for a capture across inventories: by urlkey and CDX digest where
+ * both sides know it, otherwise by urlkey and timestamp (older hand-made records lack
+ * digests or use made-up ids). The digest alone is not enough: different URLs often
+ * serve identical bytes (e.g. eventDetails.aspx error pages).
+ */
+export class CaptureIndex {
+    private byDigest = new Map<string, InventoryItem>();
+    private byCapture = new Map<string, InventoryItem>();
+
+    constructor(items: InventoryItem[] = []) {
+        items.forEach(item => this.add(item));
+    }
+
+    add(item: InventoryItem): void {
+        const digest = IntegrityChecker.expectedDigest(item);
+        const payloadKey = `${versionKey(item)} ${digest}`;
+        if (digest && !this.byDigest.has(payloadKey)) this.byDigest.set(payloadKey, item);
+        const key = captureKey(item);
+        if (!this.byCapture.has(key)) this.byCapture.set(key, item);
+    }
+
+    find(item: InventoryItem): InventoryItem | undefined {
+        const digest = IntegrityChecker.expectedDigest(item);
+        const byDigest = digest ? this.byDigest.get(`${versionKey(item)} ${digest}`) : undefined;
+        if (byDigest) return byDigest;
+
+        const byCapture = this.byCapture.get(captureKey(item));
+        // Same URL and time but two different known digests are two different records
+        const other = byCapture && IntegrityChecker.expectedDigest(byCapture);
+        return byCapture && (!digest || !other || other === digest) ? byCapture : undefined;
+    }
+}
+
+/**
+ * Settles two records of one capture. The status with the higher rank wins and brings
+ * its download fields along; of two downloads, the one whose file is on disk wins.
+ * Era, category, filename etc. stay as `kept` has them and differences are reported.
+ * Returns the patch for `kept` (empty when nothing changes).
+ */
+export function reconcile(kept: InventoryItem, other: InventoryItem, onDisk: (item: InventoryItem) => boolean): { patch: InventoryPatch; status?: string; conflicts: FieldConflict[] } {
+    const patch: InventoryPatch = {};
+    let status: string | undefined;
+
+    let takeOther = STATUS_RANK[other.status] > STATUS_RANK[kept.status];
+    let rule = `${other.status} outranks ${kept.status}`;
+    if (kept.status === 'downloaded' && other.status === 'downloaded' && !onDisk(kept) && onDisk(other)) {
+        takeOther = true;
+        rule = 'file on disk wins';
+    } else if (kept.status === 'failed' && other.status === 'failed' && (other.attempts || 0) > (kept.attempts || 0)) {
+        takeOther = true;
+        rule = 'more attempts recorded';
+    }
+    if (takeOther) {
+        for (const field of DOWNLOAD_FIELDS) {
+            if (!same(kept[field], other[field])) copyField(patch, other, field);
+        }
+        if (Object.keys(patch).length > 0) status = `${kept.status} -> ${other.status} (${rule})`;
+    }
+
+    for (const field of FILLABLE_FIELDS) {
+        if (kept[field] === undefined && other[field] !== undefined) copyField(patch, other, field);
+    }
+
+    const conflicts = IDENTITY_FIELDS
+        .filter(field => other[field] !== undefined && !sameField(field, kept[field], other[field]))
+        .map(field => ({ field, kept: kept[field], other: other[field] }));
+    return { patch, status, conflicts };
+}
+
+/**
+ * Merges `incoming` records into the store: unknown captures are added (with a filename
+ * that doesn't clash, unless they were already downloaded under their own), known ones
+ * reconciled. Changes go through the store's journal.
+ */
+export async function mergeInto(store: InventoryStore, incoming: InventoryItem[], source: string, options?: { dryRun?: boolean; summary?: MergeSummary }): Promise<MergeSummary> {
+    const summary = options?.summary || { added: [], updated: [], unchanged: 0, conflicts: [] };
+    const index = new CaptureIndex(store.all());
+    const onDisk = (item: InventoryItem) => !!item.localPath && fs.existsSync(item.localPath);
+
+    for (const record of incoming) {
+        const existing = index.find(record);
+        if (!existing) {
+            const item: InventoryItem = { ...record };
+            // A downloaded record's filename is the one its localPath was saved under
+            if (!item.localPath) item.filename = uniqueFilename(item, store);
+            store.add(item);
+            index.add(item);
+            summary.added.push({ item, kind: 'added', source, fields: [] });
+            continue;
+        }
+
+        const { patch, status, conflicts } = reconcile(existing, record, onDisk);
+        if (conflicts.length > 0) summary.conflicts.push({ item: existing, source, conflicts });
+        if (Object.keys(patch).length === 0) {
+            summary.unchanged++;
+            continue;
+        }
+        await store.update(existing, patch, { dryRun: options?.dryRun });
+        summary.updated.push({ item: existing, kind: 'updated', source, fields: Object.keys(patch), ...(status ? { status } : {}) });
+    }
+    return summary;
+}
+
+// Field-by-field comparison of two inventories, records matched as in merge
+export function diffInventories(a: InventoryItem[], b: InventoryItem[]): InventoryDiff {
+    const indexA = new CaptureIndex(a);
+    const matched = new Set<InventoryItem>();
+    const diff: InventoryDiff = { onlyInA: [], onlyInB: [], changed: [], same: 0 };
+
+    for (const item of b) {
+        const other = indexA.find(item);
+        if (!other || matched.has(other)) {
+            diff.onlyInB.push(item);
+            continue;
+        }
+        matched.add(other);
+        const fields = [...new Set([...Object.keys(other), ...Object.keys(item)] as (keyof InventoryItem)[])]
+            .filter(field => !same(other[field], item[field]))
+            .map(field => ({ field, a: other[field], b: item[field] }));
+        if (fields.length > 0) diff.changed.push({ a: other, b: item, fields }); else diff.same++;
+    }
+    diff.onlyInA = a.filter(item => !matched.has(item));
+    return diff;
+}
+
+/**
+ * Turns manifest.json rows (raw CDX rows, repeated once per search target that found
+ * them) into inventory records: one per digest, 200 captures only. The era comes
+ * from the URL and year, or from the era whose targets include the row's searchTarget.
+ */
+export function itemsFromManifest(raw: unknown, source: string): { items: InventoryItem[]; duplicates: number; skipped: number } {
+    if (!Array.isArray(raw)) throw new Error(`Manifest ${source} must contain a JSON array`);
+    const rows = raw as ManifestRow[];
+    rows.forEach((row, index) => {
+        for (const key of ['original', 'timestamp', 'digest'] as const) {
+            if (!row || typeof row[key] !== 'string' || row[key].length === 0) {
+                throw new Error(`Manifest ${source}[${index}] is missing string field "${key}"`);
+            }
+        }
+    });
+
+    const seen = new Set<string>();
+    const items: InventoryItem[] = [];
+    let duplicates = 0;
+    let skipped = 0;
+    for (const row of rows) {
+        if (row.statuscode && row.statuscode !== '200') {
+            skipped++;
+            continue;
+        }
+        if (seen.has(row.digest)) {
+            duplicates++;
+            continue;
+        }
+        seen.add(row.digest);
+        const year = parseInt(row.timestamp.substring(0, 4), 10);
+        const era = resolveEra(row.original, year)
+            || Object.values(ERAS).find(e => row.searchTarget && e.targets.includes(row.searchTarget));
+        const { searchTarget, waybackUrl, ...capture } = row;
+        items.push(createInventoryItem(capture, era ? era.id : 'unknown'));
+    }
+    return { items, duplicates, skipped };
+}
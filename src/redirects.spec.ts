@@ -0,0 +1,87 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CdxClient, CdxResult } from './cdx';
+import { CONFIG, ERAS } from './config';
+import { RedirectResolver } from './redirects';
+import { WaybackStandIn } from './standin';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'wayback', 'captures.json');
+
+describe('RedirectResolver.parseLocation', () => {
+    const from = { original: 'http://www.msbn.tv/mmsysFrontEnd/displayPage.aspx?id=410', timestamp: '20050301000000' };
+
+    it('reads the target and time out of playback redirects', () => {
+        assert.deepEqual(RedirectResolver.parseLocation('https://web.archive.org/web/20050302id_/http://www.msbn.tv/a.pdf', from),
+            { url: 'http://www.msbn.tv/a.pdf', timestamp: '20050302000000' });
+        assert.deepEqual(RedirectResolver.parseLocation('/web/20050301000010/http:/www.msbn.tv/b.pdf', from),
+            { url: 'http://www.msbn.tv/b.pdf', timestamp: '20050301000010' });
+    });
+
+    it('resolves plain Location headers against the redirecting URL', () => {
+        assert.deepEqual(RedirectResolver.parseLocation('results.aspx?id=410', from),
+            { url: 'http://www.msbn.tv/mmsysFrontEnd/results.aspx?id=410', timestamp: '20050301000000' });
+    });
+});
+
+describe('RedirectResolver against the stand-in', () => {
+    let standIn: WaybackStandIn;
+    let workDir: string;
+    let redirects: CdxResult[];
+
+    before(async () => {
+        standIn = await (await WaybackStandIn.fromFile(FIXTURES)).start();
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-redirects-'));
+        CONFIG.CDX_API_URL = standIn.cdxUrl;
+        CONFIG.WAYBACK_URL = standIn.waybackUrl;
+        CONFIG.CDX_CACHE_DIR = path.join(workDir, 'cdx');
+        CONFIG.HTTP.REQUESTS_PER_SECOND = 1000;
+        CONFIG.HTTP.BURST = 1000;
+
+        const results = await new CdxClient().search('msbn.tv/mmsysFrontEnd/*', { era: ERAS['msbn'], redirects: true });
+        redirects = results.filter(r => RedirectResolver.isRedirect(r));
+    });
+
+    after(async () => {
+        await standIn.close();
+        await fs.remove(workDir);
+    });
+
+    it('returns 3xx captures from discovery searches only when asked', async () => {
+        assert.deepEqual(redirects.map(r => r.original), [
+            'http://www.msbn.tv/mmsysFrontEnd/displayPage.aspx?id=410',
+            'http://www.msbn.tv/mmsysFrontEnd/displayPage.aspx?id=999',
+            'http://www.msbn.tv/mmsysFrontEnd/loop.aspx',
+            'http://www.msbn.tv/mmsysFrontEnd/results.aspx?id=410'
+        ]);
+        assert.deepEqual(await new CdxClient().search('msbn.tv/mmsysFrontEnd/*', { era: ERAS['msbn'] }), []);
+    });
+
+    it('follows a redirect chain to the archived document', async () => {
+        const resolved = await new RedirectResolver().resolve(redirects[0]);
+
+        assert.equal(resolved!.capture.original, 'http://www.msbn.tv/uploadedFiles/2005_nationals.pdf');
+        assert.equal(resolved!.capture.statuscode, '200');
+        assert.deepEqual(resolved!.chain, [
+            {
+                url: 'http://www.msbn.tv/mmsysFrontEnd/displayPage.aspx?id=410',
+                timestamp: '20050301000000',
+                statuscode: 302,
+                location: 'http://www.msbn.tv/mmsysFrontEnd/results.aspx?id=410'
+            },
+            {
+                url: 'http://www.msbn.tv/mmsysFrontEnd/results.aspx?id=410',
+                timestamp: '20050301000010',
+                statuscode: 301,
+                location: 'http://www.msbn.tv/uploadedFiles/2005_nationals.pdf'
+            }
+        ]);
+    });
+
+    it('gives up on targets never archived and on loops', async () => {
+        assert.equal(await new RedirectResolver().resolve(redirects[1]), null);
+        assert.equal(await new RedirectResolver().resolve(redirects[2]), null);
+    });
+});
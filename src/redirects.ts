@@ -0,0 +1,99 @@
+import { CdxClient, CdxResult, surtKey } from './cdx';
+import { playbackUrl } from './config';
+import { http } from './http';
+import { logger } from './logger';
+
+// Longer chains are almost always loops the archive recorded between two hosts
+const MAX_HOPS = 5;
+
+/**
+ * One archived redirect on the way to a document: the 3xx capture and where its
+ * Location header sent the browser.
+ */
+export interface RedirectHop {
+    url: string;
+    timestamp: string;
+    statuscode: number;
+    location: string;
+}
+
+export interface ResolvedRedirect {
+    // The 200 capture at the end of the chain
+    capture: CdxResult;
+    chain: RedirectHop[];
+}
+
+/**
+ * Follows archived 301/302 captures ("ghost" entries: the URL existed, but the archive
+ * only holds the redirect) through their Location headers to a 200 capture. Each hop
+ * is looked up in CDX closest to the time the redirect pointed at, which is how
+ * playback would have gone.
+ */
+export class RedirectResolver {
+    constructor(private cdxClient = new CdxClient()) { }
+
+    static isRedirect(capture: Pick<CdxResult, 'statuscode'>): boolean {
+        return /^3\d\d$/.test(capture.statuscode);
+    }
+
+    /**
+     * Target of a Location header. Playback answers with another playback URL
+     * (/web/<timestamp>id_/<url>); anything else is taken relative to the original URL.
+     */
+    static parseLocation(location: string, from: Pick<CdxResult, 'original' | 'timestamp'>): { url: string; timestamp: string } {
+        const playback = location.match(/\/web\/(\d{1,14})(?:[a-z]{2}_)?\/(.+)$/);
+        if (playback) {
+            // Playback collapses http:// to http:/ in some paths
+            const url = playback[2].replace(/^(https?):\/(?!\/)/i, '$1://');
+            return { url, timestamp: playback[1].padEnd(14, '0') };
+        }
+        return { url: new URL(location, from.original).toString(), timestamp: from.timestamp };
+    }
+
+    // Where an archived redirect points, or null when the capture has no Location
+    async location(capture: CdxResult): Promise<{ url: string; timestamp: string } | null> {
+        const response = await http.get<string>(playbackUrl(capture.timestamp, capture.original), { responseType: 'text', maxRedirects: 0 });
+        const header = response.headers.location;
+        if (!header || response.status < 300 || response.status >= 400) return null;
+        return RedirectResolver.parseLocation(String(header), capture);
+    }
+
+    /**
+     * The 200 capture a redirect capture leads to, with every hop on the way, or null
+     * when the chain ends at a URL that was never archived, loops, or runs too long.
+     */
+    async resolve(capture: CdxResult): Promise<ResolvedRedirect | null> {
+        const chain: RedirectHop[] = [];
+        const visited = new Set<string>();
+        let current = capture;
+
+        while (RedirectResolver.isRedirect(current)) {
+            const key = `${surtKey(current.original)} ${current.timestamp}`;
+            if (visited.has(key) || chain.length >= MAX_HOPS) {
+                logger.info(`Redirect chain from ${capture.original} loops or exceeds ${MAX_HOPS} hops; giving up`);
+                return null;
+            }
+            visited.add(key);
+
+            const target = await this.location(current);
+            if (!target) {
+                logger.info(`Redirect capture ${current.original} @ ${current.timestamp} has no Location`);
+                return null;
+            }
+            chain.push({ url: current.original, timestamp: current.timestamp, statuscode: Number(current.statuscode), location: target.url });
+
+            const [next] = await this.cdxClient.query({
+                url: target.url,
+                closest: target.timestamp,
+                limit: '1',
+                filter: 'statuscode:[23]..'
+            });
+            if (!next) {
+                logger.info(`${capture.original} redirects to ${target.url}, which was never archived`);
+                return null;
+            }
+            current = next;
+        }
+        return { capture: current, chain };
+    }
+}
@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { allowRequest, PageRenderer } from './render';
+
+describe('allowRequest', () => {
+    const root = path.resolve('data');
+    const file = (...parts: string[]) => pathToFileURL(path.join(root, ...parts)).href;
+
+    it('lets local files under the data directory and inline data through', () => {
+        assert.equal(allowRequest(file('early-web', '2003', 'css', 'style.css'), root), true);
+        assert.equal(allowRequest('data:image/gif;base64,R0lGODlhAQABAAAAACw=', root), true);
+    });
+
+    it('refuses the network and files outside the data directory', () => {
+        assert.equal(allowRequest('http://web.archive.org/web/2003id_/http://www.usaweightlifting.org/a.gif', root), false);
+        assert.equal(allowRequest('https://fonts.example.com/a.woff', root), false);
+        assert.equal(allowRequest(pathToFileURL('/etc/passwd').href, root), false);
+        assert.equal(allowRequest(pathToFileURL(`${root}-other/a.css`).href, root), false);
+    });
+});
+
+describe('PageRenderer', () => {
+    let workDir: string;
+    let renderer: PageRenderer;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-render-'));
+        renderer = new PageRenderer(workDir);
+    });
+
+    after(async () => {
+        await renderer.close();
+        await fs.remove(workDir);
+    });
+
+    it('snapshots a page offline and reports what it could not load', async (t) => {
+        try {
+            await renderer.open();
+        } catch (err: any) {
+            t.skip(`headless Chrome not available: ${err.message.split('\n')[0]}`);
+            return;
+        }
+
+        const page = path.join(workDir, 'meet.html');
+        await fs.outputFile(path.join(workDir, 'style.css'), 'body { color: navy; }');
+        await fs.outputFile(page, `<html><head><link rel="stylesheet" href="style.css"></head><body>
+            <h1>2003 American Open</h1><img src="lost.gif"><img src="http://www.usaweightlifting.org/banner.gif">
+            <script>undefinedFunction();</script></body></html>`);
+
+        const result = await renderer.render(page);
+
+        assert.ok((await fs.readFile(result.pdfPath)).subarray(0, 5).toString() === '%PDF-');
+        assert.ok(await fs.pathExists(result.pngPath));
+        assert.deepEqual(result.blocked, ['http://www.usaweightlifting.org/banner.gif']);
+        assert.deepEqual(result.missing.map(p => path.basename(p)), ['lost.gif']);
+        assert.equal(result.errors.length, 1);
+    });
+});
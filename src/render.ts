@@ -0,0 +1,100 @@
+import path from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import puppeteer, { Browser } from 'puppeteer';
+import { CONFIG } from './config';
+import { logger } from './logger';
+
+export interface RenderResult {
+    pdfPath: string;
+    pngPath: string;
+    missing: string[];
+    blocked: string[];
+    errors: string[];
+}
+
+/**
+ * Whether the offline renderer lets a page request through: only files inside `root`
+ * (the data directory) and inline data. Everything else, the network included, is
+ * refused so a snapshot shows exactly what the archive holds locally.
+ */
+export function allowRequest(url: string, root: string): boolean {
+    if (url.startsWith('data:') || url === 'about:blank') return true;
+    if (!url.startsWith('file:')) return false;
+    try {
+        const filePath = path.resolve(fileURLToPath(url));
+        const base = path.resolve(root);
+        return filePath === base || filePath.startsWith(base + path.sep);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Renders downloaded HTML pages in headless Chrome to a print PDF and a full-page PNG
+ * next to each page (<file>.render.pdf / .render.png), keeping the layout the old
+ * pages had as well as their text. Only local files load (see allowRequest); refused
+ * requests, local files that are missing and script errors are reported per page.
+ * One browser serves every page: `open()` before rendering, `close()` after.
+ */
+export class PageRenderer {
+    private browser: Browser | null = null;
+
+    constructor(private root = CONFIG.DATA_DIR) { }
+
+    async open(): Promise<void> {
+        if (this.browser) return;
+        this.browser = await puppeteer.launch({
+            headless: true,
+            // Containers often lack the user namespaces Chrome's sandbox needs
+            args: process.getuid?.() === 0 ? ['--no-sandbox'] : []
+        });
+    }
+
+    async close(): Promise<void> {
+        await this.browser?.close();
+        this.browser = null;
+    }
+
+    async render(htmlPath: string): Promise<RenderResult> {
+        if (!this.browser) throw new Error('PageRenderer.open() must be called before render()');
+
+        const result: RenderResult = {
+            pdfPath: `${htmlPath}${CONFIG.RENDER.PDF_SUFFIX}`,
+            pngPath: `${htmlPath}${CONFIG.RENDER.PNG_SUFFIX}`,
+            missing: [],
+            blocked: [],
+            errors: []
+        };
+        const page = await this.browser.newPage();
+        try {
+            await page.setViewport({ width: CONFIG.RENDER.VIEWPORT_WIDTH, height: 768 });
+            await page.setRequestInterception(true);
+            page.on('request', request => {
+                const url = request.url();
+                if (allowRequest(url, this.root)) {
+                    request.continue();
+                } else {
+                    if (!result.blocked.includes(url)) result.blocked.push(url);
+                    request.abort('blockedbyclient');
+                }
+            });
+            page.on('requestfailed', request => {
+                const url = request.url();
+                if (url.startsWith('file:') && allowRequest(url, this.root)) {
+                    const missing = path.relative(process.cwd(), fileURLToPath(url));
+                    if (!result.missing.includes(missing)) result.missing.push(missing);
+                }
+            });
+            page.on('pageerror', (err: unknown) => {
+                result.errors.push(err instanceof Error ? err.message : String(err));
+            });
+
+            await page.goto(pathToFileURL(path.resolve(htmlPath)).href, { waitUntil: 'load', timeout: CONFIG.RENDER.TIMEOUT_MS });
+            await page.pdf({ path: result.pdfPath, format: 'Letter', printBackground: true });
+            await page.screenshot({ path: result.pngPath as `${string}.png`, fullPage: true });
+        } finally {
+            await page.close().catch(err => logger.debug(`Closing page for ${htmlPath}: ${err.message}`));
+        }
+        return result;
+    }
+}
@@ -0,0 +1,72 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CONFIG } from './config';
+import { InventoryItem } from './inventory';
+import { CoverageReport, CoverageReporter } from './report';
+import { inventoryItem } from './testing';
+
+const item = (overrides: Partial<InventoryItem>) => inventoryItem({ year: 2002, timestamp: '20020101000000', ...overrides });
+
+describe('CoverageReporter', () => {
+    let workDir: string;
+    let report: CoverageReport;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-report-'));
+        CONFIG.DATA_DIR = path.join(workDir, 'data');
+
+        const pageDir = path.join(CONFIG.DATA_DIR, 'early-web', '2001', 'results');
+        await fs.outputFile(path.join(pageDir, 'meet.html'), '<html><body><img src="logo.gif"><img src="lost.gif"></body></html>');
+        await fs.outputFile(path.join(pageDir, 'logo.gif'), 'GIF89a');
+
+        const items = [
+            item({ filename: 'meet.html', year: 2001, status: 'downloaded', localPath: path.join(pageDir, 'meet.html') }),
+            item({ filename: 'nationals.pdf', year: 2001, status: 'failed', attempts: 3, lastError: 'HTTP 503' }),
+            item({ filename: 'american-open.pdf', year: 2001, status: 'downloaded', localPath: path.join(pageDir, 'american-open.pdf') }),
+            ...['a', 'b', 'c', 'd'].map(name => item({ filename: `${name}-results.pdf`, year: 2002 })),
+            item({ filename: 'minutes.pdf', year: 2002, category: 'governance' }),
+            item({ filename: 'open-results.pdf', year: 2003, status: 'skipped' }),
+        ];
+        report = await new CoverageReporter(items, 'inventory.json', { minResults: 2 }).build();
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('counts items by era, year, category and status', () => {
+        assert.deepEqual(report.totals, { items: 9, discovered: 5, downloaded: 2, failed: 1, skipped: 1 });
+        const row = report.coverage.find(r => r.era === 'early-web' && r.year === 2001 && r.category === 'results')!;
+        assert.deepEqual({ ...row }, { era: 'early-web', year: 2001, category: 'results', discovered: 0, downloaded: 2, failed: 1, skipped: 0, total: 3 });
+        assert.deepEqual(report.coverage.filter(r => r.year === 2002).map(r => r.category), ['results', 'governance']);
+    });
+
+    it('lists failed, pending and vanished items', () => {
+        assert.deepEqual(report.failed.map(i => [i.filename, i.lastError]), [['nationals.pdf', 'HTTP 503']]);
+        assert.equal(report.notDownloaded.length, 5);
+        assert.deepEqual(report.missingFiles.map(i => i.filename), ['american-open.pdf']);
+    });
+
+    it('lists assets a downloaded page still lacks', () => {
+        assert.deepEqual(report.unrecoveredAssets.map(p => p.assets), [['http://www.usaweightlifting.org/lost.gif']]);
+    });
+
+    it('flags years with few results documents', () => {
+        const early = report.thinYears.filter(y => y.era === 'early-web').map(y => [y.year, y.results]);
+        // 2001 has 3 and 2002 has 4; skipped documents don't count
+        assert.deepEqual(early, [[2000, 0], [2003, 0], [2004, 0]]);
+    });
+
+    it('renders the same report as text and Markdown', () => {
+        const text = CoverageReporter.toText(report);
+        assert.match(text, /early-web\s+2001\s+results\s+0\s+2\s+1\s+0\s+3/);
+        assert.match(text, /Failed \(1\):\n {2}early-web\/2001\/results {2}http:\/\/www\.usaweightlifting\.org\/nationals\.pdf {2}\[HTTP 503\]/);
+
+        const markdown = CoverageReporter.toMarkdown(report);
+        assert.match(markdown, /\| early-web \| 2001 \| results \| 0 \| 2 \| 1 \| 0 \| 3 \|/);
+        assert.match(markdown, /## Pages with unrecovered assets \(1\)/);
+    });
+});
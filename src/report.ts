@@ -0,0 +1,255 @@
+import fs from 'fs-extra';
+import { AssetRecovery } from './assets';
+import { CATEGORIES } from './categorizer';
+import { ERAS } from './config';
+import { InventoryItem, InventoryStatus } from './inventory';
+import { logger } from './logger';
+
+const STATUSES: InventoryStatus[] = ['discovered', 'downloaded', 'failed', 'skipped'];
+// Coverage rows carry the category as a plain string
+const CATEGORY_ORDER: readonly string[] = CATEGORIES;
+
+export interface CoverageRow {
+    era: string;
+    year: number;
+    category: string;
+    discovered: number;
+    downloaded: number;
+    failed: number;
+    skipped: number;
+    total: number;
+}
+
+export interface ReportedItem {
+    era: string;
+    year: number;
+    category: string;
+    filename: string;
+    originalUrl: string;
+    localPath?: string;
+    attempts?: number;
+    lastError?: string;
+}
+
+export interface ThinYear {
+    era: string;
+    year: number;
+    results: number;
+    // Median results count per year across the era, for comparison
+    eraMedian: number;
+}
+
+export interface CoverageReport {
+    generatedAt: string;
+    inventory: string;
+    totals: Record<InventoryStatus, number> & { items: number };
+    coverage: CoverageRow[];
+    failed: ReportedItem[];
+    notDownloaded: ReportedItem[];
+    // Marked downloaded, but the file is gone from the data tree
+    missingFiles: ReportedItem[];
+    unrecoveredAssets: { page: string; originalUrl: string; assets: string[] }[];
+    thinYears: ThinYear[];
+}
+
+export interface ReportOptions {
+    // Years with fewer results documents than this are flagged
+    minResults?: number;
+}
+
+function reported(item: InventoryItem): ReportedItem {
+    const { era, year, category, filename, originalUrl, localPath, attempts, lastError } = item;
+    return { era, year, category, filename, originalUrl, localPath, attempts, lastError };
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Fixed-width text table; numeric columns are right-aligned
+function textTable(headers: string[], rows: (string | number)[][]): string {
+    const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => String(row[i]).length)));
+    const line = (cells: (string | number)[]) => cells
+        .map((cell, i) => typeof cell === 'number' ? String(cell).padStart(widths[i]) : String(cell).padEnd(widths[i]))
+        .join('  ')
+        .trimEnd();
+    return [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+}
+
+function markdownTable(headers: string[], rows: (string | number)[][]): string {
+    const escape = (cell: string | number) => String(cell).replace(/\|/g, '\\|');
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(escape).join(' | ')} |`)
+    ].join('\n');
+}
+
+/**
+ * Summarizes how complete the archive is: counts per era, year, category and status,
+ * the items still to fetch, downloaded files missing from disk, HTML pages whose
+ * assets could not be recovered, and years with suspiciously few results documents.
+ * Rendered as a terminal table, Markdown or JSON (for comparing runs).
+ */
+export class CoverageReporter {
+    constructor(private items: InventoryItem[], private inventoryPath: string, private options: ReportOptions = {}) { }
+
+    async build(): Promise<CoverageReport> {
+        const totals = { items: this.items.length, discovered: 0, downloaded: 0, failed: 0, skipped: 0 };
+        const cells = new Map<string, CoverageRow>();
+
+        for (const item of this.items) {
+            totals[item.status]++;
+            const key = `${item.era}\u0000${item.year}\u0000${item.category}`;
+            let row = cells.get(key);
+            if (!row) {
+                row = { era: item.era, year: item.year, category: item.category, discovered: 0, downloaded: 0, failed: 0, skipped: 0, total: 0 };
+                cells.set(key, row);
+            }
+            row[item.status]++;
+            row.total++;
+        }
+
+        const report: CoverageReport = {
+            generatedAt: new Date().toISOString(),
+            inventory: this.inventoryPath,
+            totals,
+            coverage: Array.from(cells.values()).sort((a, b) =>
+                this.eraOrder(a.era) - this.eraOrder(b.era) || a.era.localeCompare(b.era) || a.year - b.year ||
+                CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)),
+            failed: this.items.filter(item => item.status === 'failed').map(reported),
+            notDownloaded: this.items.filter(item => item.status === 'discovered').map(reported),
+            missingFiles: [],
+            unrecoveredAssets: [],
+            thinYears: this.thinYears()
+        };
+
+        const assets = new AssetRecovery();
+        for (const item of this.items) {
+            if (item.status !== 'downloaded' || !item.localPath) continue;
+            if (!await fs.pathExists(item.localPath)) {
+                report.missingFiles.push(reported(item));
+                continue;
+            }
+            if (!/\.html?$/i.test(item.localPath)) continue;
+            try {
+                const missing = await assets.missingAssets(item, item.localPath);
+                if (missing.length > 0) {
+                    report.unrecoveredAssets.push({ page: item.localPath, originalUrl: item.originalUrl, assets: missing });
+                }
+            } catch (err: any) {
+                logger.warn(`Could not scan ${item.localPath} for assets: ${err.message}`);
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Years (within the era's range, plus any year holding documents) whose results
+     * count is under `minResults` or under a quarter of the era's median year.
+     */
+    private thinYears(): ThinYear[] {
+        const minResults = this.options.minResults ?? 3;
+        const byEra = new Map<string, Map<number, number>>();
+
+        for (const [id, era] of Object.entries(ERAS)) {
+            const years = new Map<number, number>();
+            for (let year = era.startYear; year <= era.endYear; year++) years.set(year, 0);
+            byEra.set(id, years);
+        }
+        for (const item of this.items) {
+            if (!byEra.has(item.era)) byEra.set(item.era, new Map());
+            const years = byEra.get(item.era)!;
+            years.set(item.year, (years.get(item.year) || 0) + (item.category === 'results' && item.status !== 'skipped' ? 1 : 0));
+        }
+
+        const thin: ThinYear[] = [];
+        for (const [era, years] of byEra) {
+            const eraMedian = median(Array.from(years.values()));
+            for (const [year, results] of Array.from(years.entries()).sort((a, b) => a[0] - b[0])) {
+                if (results < minResults || results < eraMedian / 4) {
+                    thin.push({ era, year, results, eraMedian });
+                }
+            }
+        }
+        return thin.sort((a, b) => this.eraOrder(a.era) - this.eraOrder(b.era) || a.year - b.year);
+    }
+
+    private eraOrder(eraId: string): number {
+        const index = Object.keys(ERAS).indexOf(eraId);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    }
+
+    static toText(report: CoverageReport): string {
+        const t = report.totals;
+        const sections = [
+            `Coverage of ${report.inventory} (${report.generatedAt})`,
+            `${t.items} items: ${t.downloaded} downloaded, ${t.discovered} not yet downloaded, ${t.failed} failed, ${t.skipped} skipped`,
+            '',
+            textTable(['Era', 'Year', 'Category', ...STATUSES, 'total'],
+                report.coverage.map(r => [r.era, r.year, r.category, r.discovered, r.downloaded, r.failed, r.skipped, r.total]))
+        ];
+
+        if (report.thinYears.length > 0) {
+            sections.push('', 'Years with few results documents:',
+                textTable(['Era', 'Year', 'Results', 'Era median'], report.thinYears.map(y => [y.era, y.year, y.results, y.eraMedian])));
+        }
+        const itemList = (title: string, items: ReportedItem[], detail: (item: ReportedItem) => string) => {
+            if (items.length === 0) return;
+            sections.push('', `${title} (${items.length}):`, ...items.map(item => `  ${item.era}/${item.year}/${item.category}  ${item.originalUrl}${detail(item)}`));
+        };
+        itemList('Failed', report.failed, item => item.lastError ? `  [${item.lastError}]` : '');
+        itemList('Not yet downloaded', report.notDownloaded, () => '');
+        itemList('Downloaded but missing from disk', report.missingFiles, item => `  (${item.localPath})`);
+
+        if (report.unrecoveredAssets.length > 0) {
+            sections.push('', `Pages with unrecovered assets (${report.unrecoveredAssets.length}):`);
+            for (const page of report.unrecoveredAssets) {
+                sections.push(`  ${page.page}`, ...page.assets.map(asset => `    - ${asset}`));
+            }
+        }
+        return sections.join('\n');
+    }
+
+    static toMarkdown(report: CoverageReport): string {
+        const t = report.totals;
+        const sections = [
+            '# Archive coverage report',
+            '',
+            `Inventory \`${report.inventory}\`, generated ${report.generatedAt}.`,
+            '',
+            `**${t.items} items**: ${t.downloaded} downloaded, ${t.discovered} not yet downloaded, ${t.failed} failed, ${t.skipped} skipped.`,
+            '',
+            '## Coverage by era, year and category',
+            '',
+            markdownTable(['Era', 'Year', 'Category', ...STATUSES, 'total'],
+                report.coverage.map(r => [r.era, r.year, r.category, r.discovered, r.downloaded, r.failed, r.skipped, r.total]))
+        ];
+
+        sections.push('', '## Years with few results documents', '');
+        sections.push(report.thinYears.length > 0
+            ? markdownTable(['Era', 'Year', 'Results', 'Era median'], report.thinYears.map(y => [y.era, y.year, y.results, y.eraMedian]))
+            : 'None.');
+
+        const itemList = (title: string, items: ReportedItem[], detail: (item: ReportedItem) => string) => {
+            sections.push('', `## ${title} (${items.length})`, '');
+            sections.push(items.length > 0
+                ? items.map(item => `- ${item.era} ${item.year} ${item.category}: <${item.originalUrl}>${detail(item)}`).join('\n')
+                : 'None.');
+        };
+        itemList('Failed', report.failed, item => item.lastError ? ` (${item.lastError})` : '');
+        itemList('Not yet downloaded', report.notDownloaded, () => '');
+        itemList('Downloaded but missing from disk', report.missingFiles, item => ` (\`${item.localPath}\`)`);
+
+        sections.push('', `## Pages with unrecovered assets (${report.unrecoveredAssets.length})`, '');
+        sections.push(report.unrecoveredAssets.length > 0
+            ? report.unrecoveredAssets.map(page => [`- \`${page.page}\``, ...page.assets.map(asset => `  - <${asset}>`)].join('\n')).join('\n')
+            : 'None.');
+
+        return sections.join('\n') + '\n';
+    }
+}
@@ -0,0 +1,310 @@
+import fs from 'fs-extra';
+
+/**
+ * Shared schema for competition results, whatever document they were extracted from.
+ *
+ * Attempts follow the usual weightlifting sheet convention: a negative number is a
+ * missed attempt at that weight, null means the attempt was not taken or is unreadable.
+ */
+export interface ResultRecord {
+    meet: string | null;
+    date: string | null;
+    weightClass: string | null;
+    name: string;
+    club: string | null;
+    state: string | null;
+    bodyweight: number | null;
+    snatch: (number | null)[];
+    bestSnatch: number | null;
+    cleanJerk: (number | null)[];
+    bestCleanJerk: number | null;
+    total: number | null;
+    place: number | null;
+    // Where the row came from, for tracing odd values back to the document
+    source: { section?: string; row: number };
+    raw: string[];
+}
+
+export interface UnparsedRow {
+    section?: string;
+    row: number;
+    reason: string;
+    raw: string[];
+}
+
+export interface ResultDocument {
+    sourcePath: string;
+    parser: string; // e.g. 'html', 'spreadsheet'
+    layout: string; // which layout inside that parser matched, e.g. 'table' or 'pre'
+    meet: string | null;
+    date: string | null;
+    extractedAt: string;
+    records: ResultRecord[];
+    unparsed: UnparsedRow[];
+    confidence?: number; // 0..1, set by parsers that can judge their own output (pdf)
+    notes?: string[];
+}
+
+export type ResultField =
+    | 'name' | 'club' | 'state' | 'bodyweight' | 'weightClass'
+    | 'snatch1' | 'snatch2' | 'snatch3' | 'bestSnatch'
+    | 'cleanJerk1' | 'cleanJerk2' | 'cleanJerk3' | 'bestCleanJerk'
+    | 'total' | 'place';
+
+export type ColumnMap = Partial<Record<ResultField, number>>;
+
+// Header labels seen across the three eras. Order matters: attempt columns
+// ("Sn1") must be tried before the best-lift column ("Sn").
+const HEADER_PATTERNS: [ResultField, RegExp][] = [
+    ['snatch1', /^(sn|snatch|sna)\s*[-#.]?\s*1$/],
+    ['snatch2', /^(sn|snatch|sna)\s*[-#.]?\s*2$/],
+    ['snatch3', /^(sn|snatch|sna)\s*[-#.]?\s*3$/],
+    ['cleanJerk1', /^(cj|c&j|c\s*&\s*j|c\/j|clean\s*(&|and)\s*jerk|jerk)\s*[-#.]?\s*1$/],
+    ['cleanJerk2', /^(cj|c&j|c\s*&\s*j|c\/j|clean\s*(&|and)\s*jerk|jerk)\s*[-#.]?\s*2$/],
+    ['cleanJerk3', /^(cj|c&j|c\s*&\s*j|c\/j|clean\s*(&|and)\s*jerk|jerk)\s*[-#.]?\s*3$/],
+    ['bestSnatch', /^(best\s*)?(sn|snatch|sna)(\s*best)?$/],
+    ['bestCleanJerk', /^(best\s*)?(cj|c&j|c\s*&\s*j|c\/j|clean\s*(&|and)\s*jerk|jerk)(\s*best)?$/],
+    ['total', /^(total|tot|ttl)$/],
+    ['place', /^(place|pl|plc|pl\.|rank|pos|position)$/],
+    ['name', /^(name|lifter|lifter\s*name|athlete|competitor)$/],
+    ['club', /^(club|team|affiliation|club\s*\/\s*state|team\s*\/\s*state)$/],
+    ['state', /^(state|st|lwc)$/],
+    ['bodyweight', /^(bwt|bw|b\.?w\.?t?\.?|body\s*weight|bodywt|weight)$/],
+    ['weightClass', /^(class|cat|category|wt\.?\s*class|weight\s*class|division|wt\s*cat)$/],
+];
+
+function normalizeHeaderCell(cell: string): string {
+    return cell.toLowerCase().replace(/\s+/g, ' ').replace(/[:*]/g, '').replace(/\(kg\)|kg$/, '').trim();
+}
+
+/**
+ * Maps a candidate header row onto result fields. Returns null unless the row names
+ * the lifter and at least one lift column, which keeps navigation tables and meet
+ * info tables from being mistaken for results.
+ */
+export function mapHeader(cells: string[]): ColumnMap | null {
+    const map: ColumnMap = {};
+
+    cells.forEach((cell, index) => {
+        const label = normalizeHeaderCell(cell);
+        if (!label) return;
+        for (const [field, pattern] of HEADER_PATTERNS) {
+            if (map[field] === undefined && pattern.test(label)) {
+                map[field] = index;
+                return;
+            }
+        }
+    });
+
+    const hasLift = ['total', 'bestSnatch', 'bestCleanJerk', 'snatch1', 'cleanJerk1'].some(f => map[f as ResultField] !== undefined);
+    return map.name !== undefined && hasLift ? map : null;
+}
+
+export function parseNumber(raw: string | undefined): number | null {
+    if (raw === undefined) return null;
+    const cleaned = raw.replace(/kg$/i, '').replace(/,/g, '.').trim();
+    if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+    return parseFloat(cleaned);
+}
+
+/**
+ * Parses an attempt cell. Misses are written as "-120", "(120)", "x120" or "120x"
+ * depending on the sheet; all of them come back as -120.
+ */
+export function parseAttempt(raw: string | undefined): number | null {
+    if (raw === undefined) return null;
+    const cell = raw.replace(/kg$/i, '').trim();
+    if (!cell || /^[-—–x0]+$/i.test(cell)) return null;
+
+    const match = cell.match(/^(\()?\s*([-xX])?\s*(\d+(?:\.\d+)?)\s*([xX])?\s*(\))?$/);
+    if (!match) return null;
+
+    const weight = parseFloat(match[3]);
+    const missed = Boolean(match[1] || match[2] || match[4]);
+    return missed ? -weight : weight;
+}
+
+export function parsePlace(raw: string | undefined): number | null {
+    if (!raw) return null;
+    const match = raw.trim().match(/^(\d+)(st|nd|rd|th|\.)?$/i);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Normalizes weight class labels ("56", "56 kg", "105+", "+105kg") to "56kg" / "+105kg".
+ */
+export function normalizeWeightClass(raw: string | null | undefined): string | null {
+    if (!raw) return null;
+    const match = raw.trim().match(/^(\+)?\s*(\d{2,3}(?:\.\d)?)\s*(\+)?\s*(kg|kilos?)?$/i);
+    if (!match) return raw.trim() || null;
+    return `${match[1] || match[3] ? '+' : ''}${match[2]}kg`;
+}
+
+// A lone cell like "56 kg", "Women's 48 Kg" or "+105" introduces a weight class section
+export function detectWeightClass(text: string): string | null {
+    const match = text.trim().match(/^(?:(?:men'?s?|women'?s?|male|female)\s+)?(\+?\s*\d{2,3}(?:\.\d)?\s*\+?)\s*(kg|kilos?)?(\s*class)?$/i);
+    if (!match) return null;
+    if (!match[2] && !/\+/.test(match[1]) && !/class/i.test(match[3] || '')) {
+        // A bare number is only a class if it is a plausible bodyweight category
+        const value = parseFloat(match[1]);
+        if (value < 35 || value > 200) return null;
+    }
+    return normalizeWeightClass(match[1]);
+}
+
+export interface RowContext {
+    meet: string | null;
+    date: string | null;
+    weightClass: string | null;
+    section?: string;
+    row: number;
+}
+
+/**
+ * Turns one row of cells into a ResultRecord using a header map. Returns an
+ * UnparsedRow instead when the row has content but no lifter or no lift values.
+ */
+export function parseResultRow(cells: string[], map: ColumnMap, context: RowContext): ResultRecord | UnparsedRow {
+    const cell = (field: ResultField) => {
+        const index = map[field];
+        return index === undefined ? undefined : (cells[index] || '').trim();
+    };
+
+    const name = cell('name') || '';
+    const snatch = [parseAttempt(cell('snatch1')), parseAttempt(cell('snatch2')), parseAttempt(cell('snatch3'))];
+    const cleanJerk = [parseAttempt(cell('cleanJerk1')), parseAttempt(cell('cleanJerk2')), parseAttempt(cell('cleanJerk3'))];
+    const best = (column: number | null, attempts: (number | null)[]) => {
+        if (column !== null) return column;
+        const made = attempts.filter((a): a is number => a !== null && a > 0);
+        return made.length > 0 ? Math.max(...made) : null;
+    };
+
+    const bestSnatch = best(parseNumber(cell('bestSnatch')), snatch);
+    const bestCleanJerk = best(parseNumber(cell('bestCleanJerk')), cleanJerk);
+    const total = parseNumber(cell('total'));
+
+    if (!name || /^\d+(\.\d+)?$/.test(name)) {
+        return { section: context.section, row: context.row, reason: 'no lifter name', raw: cells };
+    }
+    const anyLift = [total, bestSnatch, bestCleanJerk, ...snatch, ...cleanJerk].some(v => v !== null);
+    if (!anyLift) {
+        return { section: context.section, row: context.row, reason: 'no numeric lift values', raw: cells };
+    }
+
+    return {
+        meet: context.meet,
+        date: context.date,
+        weightClass: normalizeWeightClass(cell('weightClass')) || context.weightClass,
+        name: name.replace(/\s+/g, ' '),
+        club: cell('club') || null,
+        state: cell('state') || null,
+        bodyweight: parseNumber(cell('bodyweight')),
+        snatch,
+        bestSnatch,
+        cleanJerk,
+        bestCleanJerk,
+        total,
+        place: parsePlace(cell('place')),
+        source: { section: context.section, row: context.row },
+        raw: cells
+    };
+}
+
+export interface PositionedToken {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits a fixed-width line (a <pre> block or a line of positioned PDF text) into
+ * tokens with their horizontal extent. Runs of 2+ spaces separate cells; single
+ * spaces stay inside a cell so "John Smith" is one token.
+ */
+export function tokenizeFixedWidth(line: string): PositionedToken[] {
+    const tokens: PositionedToken[] = [];
+    const pattern = /\S+(?: \S+)*/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+        tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+}
+
+/**
+ * Assigns each token to the header column it overlaps most (or sits nearest to),
+ * so rows with blank attempt cells still land in the right columns.
+ */
+export function alignToColumns(tokens: PositionedToken[], headers: PositionedToken[]): string[] {
+    const cells: string[] = headers.map(() => '');
+    for (const token of tokens) {
+        let bestIndex = 0;
+        let bestScore = -Infinity;
+        headers.forEach((header, index) => {
+            const overlap = Math.min(token.end, header.end) - Math.max(token.start, header.start);
+            const distance = Math.abs((token.start + token.end) / 2 - (header.start + header.end) / 2);
+            const score = overlap > 0 ? overlap * 1000 - distance : -distance;
+            if (score > bestScore) {
+                bestScore = score;
+                bestIndex = index;
+            }
+        });
+        cells[bestIndex] = cells[bestIndex] ? `${cells[bestIndex]} ${token.text}` : token.text;
+    }
+    return cells;
+}
+
+export function isResultRecord(value: ResultRecord | UnparsedRow): value is ResultRecord {
+    return (value as ResultRecord).name !== undefined;
+}
+
+// Finds a meet date in free text ("March 15-16, 2003", "3/15/2003")
+export function findDate(text: string): string | null {
+    const long = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(\s*[-–]\s*\d{1,2})?,?\s+(19|20)\d{2}\b/i);
+    if (long) return long[0].replace(/\s+/g, ' ');
+    const short = text.match(/\b\d{1,2}\/\d{1,2}\/(19|20)?\d{2}\b/);
+    return short ? short[0] : null;
+}
+
+const CSV_COLUMNS = [
+    'meet', 'date', 'weightClass', 'place', 'name', 'club', 'state', 'bodyweight',
+    'snatch1', 'snatch2', 'snatch3', 'bestSnatch',
+    'cleanJerk1', 'cleanJerk2', 'cleanJerk3', 'bestCleanJerk', 'total', 'section', 'row'
+];
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: ResultRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const r of records) {
+        lines.push([
+            r.meet, r.date, r.weightClass, r.place, r.name, r.club, r.state, r.bodyweight,
+            r.snatch[0], r.snatch[1], r.snatch[2], r.bestSnatch,
+            r.cleanJerk[0], r.cleanJerk[1], r.cleanJerk[2], r.bestCleanJerk, r.total,
+            r.source.section, r.source.row
+        ].map(csvCell).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes `<source>.results.json` and `<source>.results.csv` next to the source document,
+ * plus `<source>.txt` when the parser recovered plain text (PDFs) for search.
+ */
+export async function writeResultDocument(doc: ResultDocument, text?: string | null): Promise<{ jsonPath: string; csvPath: string; textPath?: string }> {
+    const jsonPath = `${doc.sourcePath}.results.json`;
+    const csvPath = `${doc.sourcePath}.results.csv`;
+    await fs.writeJSON(jsonPath, doc, { spaces: 2 });
+    await fs.writeFile(csvPath, toCsv(doc.records));
+
+    if (text) {
+        const textPath = `${doc.sourcePath}.txt`;
+        await fs.writeFile(textPath, text);
+        return { jsonPath, csvPath, textPath };
+    }
+    return { jsonPath, csvPath };
+}
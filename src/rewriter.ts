@@ -0,0 +1,204 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { CONFIG, publicPlaybackUrl } from './config';
+import { InventoryItem } from './inventory';
+
+export interface ResolvedReference {
+    cleanUrl: string;    // reference without query/fragment, as written in the page
+    absoluteUrl: string; // what the reference pointed at on the live site
+    localPath: string;   // where the downloader mirrors it on disk (absolute)
+}
+
+/**
+ * Maps a src/href found in an archived page to the live URL it referred to and to
+ * the place the downloader mirrors it:
+ *  - root-relative (/images/x.gif) and same-host absolute URLs -> under the year directory
+ *  - page-relative (images/x.gif) -> next to the page
+ *  - other hosts -> data/<era>/<year>/_external/<host>/...
+ * Returns null for references that are not fetchable resources (anchors, mailto:, data:).
+ */
+export function resolveReference(ref: string, pageUrl: string, targetDir: string, yearDir: string): ResolvedReference | null {
+    const trimmed = ref.trim();
+    if (!trimmed || /^(data:|#|mailto:|javascript:)/i.test(trimmed) || trimmed.includes('web.archive.org') || trimmed.startsWith(CONFIG.WAYBACK_URL)) return null;
+
+    const cleanUrl = trimmed.split('?')[0].split('#')[0];
+    if (!cleanUrl) return null;
+
+    let page: URL;
+    let absolute: URL;
+    try {
+        page = new URL(pageUrl);
+        // Resolve against the directory of the original page
+        // original: http://site.com/foo/bar.html, asset: images/baz.gif -> http://site.com/foo/images/baz.gif
+        absolute = new URL(cleanUrl, pageUrl);
+    } catch {
+        return null;
+    }
+    if (!/^https?:$/.test(absolute.protocol)) return null;
+
+    const decodedPath = safeDecode(absolute.pathname);
+    let localPath: string;
+    if (absolute.hostname.replace(/^www\./, '') !== page.hostname.replace(/^www\./, '')) {
+        localPath = path.resolve(yearDir, '_external', absolute.hostname, `.${decodedPath}`);
+    } else if (/^[a-z]+:\/\//i.test(cleanUrl) || cleanUrl.startsWith('/')) {
+        // Root Relative: map / to the year root for containment
+        localPath = path.resolve(yearDir, `.${decodedPath}`);
+    } else {
+        // Relative: map to the HTML directory
+        localPath = path.resolve(targetDir, safeDecode(cleanUrl));
+    }
+
+    return { cleanUrl, absoluteUrl: absolute.toString(), localPath };
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+// Host without www/port, lowercased path and query: how the same document is linked in different eras
+function urlKey(url: string): string {
+    return url.toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/:\d+(?=\/|$)/, '')
+        .replace(/#.*$/, '')
+        .replace(/\/$/, '');
+}
+
+export interface RewriteStats {
+    local: number;
+    wayback: number;
+    untouched: number;
+}
+
+// Elements and attributes that point at other resources in these pages
+const REFERENCE_ATTRIBUTES: [string, string][] = [
+    ['img', 'src'],
+    ['script', 'src'],
+    ['link', 'href'],
+    ['a', 'href'],
+    ['frame', 'src'],
+    ['iframe', 'src'],
+    ['input[type="image"]', 'src'],
+    ['[background]', 'background'],
+];
+
+// Every src/href value in a page, in document order
+export function collectReferences(html: string): string[] {
+    const $ = cheerio.load(html);
+    const refs: string[] = [];
+    for (const [selector, attribute] of REFERENCE_ATTRIBUTES) {
+        $(selector).each((_, el) => {
+            const value = $(el).attr(attribute);
+            if (value) refs.push(value);
+        });
+    }
+    return refs;
+}
+
+/**
+ * Rewrites archived HTML so it works offline: every reference we hold a local copy of
+ * becomes a relative path, everything else points at the raw Wayback capture.
+ *
+ * The downloaded page is kept byte-for-byte as `<file>.orig` and every rewrite starts
+ * from that backup, so running it again (after more downloads) is safe.
+ */
+export class OfflineRewriter {
+    private dataDir = CONFIG.DATA_DIR;
+    private byUrl = new Map<string, InventoryItem[]>();
+
+    // Indexed regardless of status so items downloaded later in the same run are found
+    constructor(items: InventoryItem[]) {
+        for (const item of items) {
+            const key = urlKey(item.originalUrl);
+            this.byUrl.set(key, [...(this.byUrl.get(key) || []), item]);
+        }
+    }
+
+    // Several captures of one URL: link to the canonical version, else the newest one we actually hold
+    private async localCopy(url: string): Promise<string | null> {
+        const candidates = (this.byUrl.get(urlKey(url)) || [])
+            .filter(item => item.status === 'downloaded' && item.localPath)
+            .sort((a, b) => Number(!!b.canonical) - Number(!!a.canonical) || b.timestamp.localeCompare(a.timestamp));
+        for (const item of candidates) {
+            if (await fs.pathExists(item.localPath!)) return path.resolve(item.localPath!);
+        }
+        return null;
+    }
+
+    static backupPath(htmlPath: string): string {
+        return `${htmlPath}${CONFIG.ORIGINAL_SUFFIX}`;
+    }
+
+    async rewrite(item: InventoryItem, htmlPath: string, options?: { dryRun?: boolean }): Promise<RewriteStats> {
+        const backup = OfflineRewriter.backupPath(htmlPath);
+        const source = await fs.pathExists(backup) ? backup : htmlPath;
+        const html = await fs.readFile(source, 'utf-8');
+        const $ = cheerio.load(html);
+
+        const pageDir = path.dirname(path.resolve(htmlPath));
+        const yearDir = path.resolve(this.dataDir, item.era, item.year.toString());
+        const stats: RewriteStats = { local: 0, wayback: 0, untouched: 0 };
+
+        for (const [selector, attribute] of REFERENCE_ATTRIBUTES) {
+            for (const el of $(selector).toArray()) {
+                const value = $(el).attr(attribute);
+                if (!value) continue;
+
+                const target = await this.target(value, item, pageDir, yearDir);
+                if (!target) {
+                    stats.untouched++;
+                    continue;
+                }
+                $(el).attr(attribute, target.url);
+                stats[target.kind]++;
+            }
+        }
+
+        if (options?.dryRun) return stats;
+
+        if (source !== backup) {
+            await fs.copy(htmlPath, backup);
+        }
+        await fs.writeFile(htmlPath, $.html());
+        return stats;
+    }
+
+    private async target(ref: string, item: InventoryItem, pageDir: string, yearDir: string): Promise<{ url: string; kind: 'local' | 'wayback' } | null> {
+        const resolved = resolveReference(ref, item.originalUrl, pageDir, yearDir);
+        if (!resolved) return null;
+
+        // Query strings matter for lookup and playback (displayPage.aspx?id=396); only the fragment is dropped
+        const full = new URL(ref.trim(), item.originalUrl);
+        const fragment = full.hash;
+        full.hash = '';
+        const dataRoot = path.resolve(this.dataDir);
+
+        // 1. Another inventory document (archived page, PDF, spreadsheet)
+        const linked = await this.localCopy(full.toString());
+        if (linked) {
+            return { url: this.relative(pageDir, linked) + fragment, kind: 'local' };
+        }
+
+        // 2. An asset mirrored next to the page by the downloader
+        if (resolved.localPath.startsWith(dataRoot) && await fs.pathExists(resolved.localPath)) {
+            return { url: this.relative(pageDir, resolved.localPath) + fragment, kind: 'local' };
+        }
+
+        // 3. Not held locally: the raw capture nearest the page
+        return { url: publicPlaybackUrl(item.timestamp, full.toString()) + fragment, kind: 'wayback' };
+    }
+
+    private relative(fromDir: string, to: string): string {
+        return path.relative(fromDir, to)
+            .split(path.sep)
+            .map(segment => encodeURIComponent(segment))
+            .join('/');
+    }
+}
@@ -0,0 +1,60 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { finishRun, RunHistory, writeChangelog } from './runs';
+import { inventoryItem } from './testing';
+
+describe('RunHistory', () => {
+    let workDir: string;
+    let inventoryPath: string;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-runs-'));
+        inventoryPath = path.join(workDir, 'inventory.json');
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('resumes each target from the newest capture a successful run saw', async () => {
+        const history = await RunHistory.load(inventoryPath);
+        const first = history.start({ era: 'early-web' });
+        first.targets.push(
+            { target: 'usaweightlifting.org', era: 'early-web', results: 4, added: 4, known: 0, latestCapture: '20031213060615' },
+            { target: '*.usaweightlifting.org', era: 'early-web', results: 1, added: 1, known: 0, latestCapture: '20020401000000' });
+        finishRun(first);
+        const second = history.start({ era: 'early-web', sinceLastRun: true });
+        second.targets.push(
+            { target: 'usaweightlifting.org', era: 'early-web', results: 0, added: 0, known: 0, error: 'HTTP 503' },
+            { target: '*.usaweightlifting.org', era: 'early-web', results: 2, added: 1, known: 1, latestCapture: '20020901000000' });
+        finishRun(second);
+        await history.save();
+
+        assert.deepEqual([first.status, first.added, second.status, second.added], ['completed', 5, 'partial', 1]);
+        const reloaded = await RunHistory.load(inventoryPath);
+        assert.equal(reloaded.runs.length, 2);
+        // The failed target falls back to the run before
+        assert.equal(reloaded.latestCapture('usaweightlifting.org', 'early-web'), '20031213060615');
+        assert.equal(reloaded.latestCapture('*.usaweightlifting.org', 'early-web'), '20020901000000');
+        assert.equal(reloaded.latestCapture('usaweightlifting.org', 'msbn'), undefined);
+    });
+
+    it('writes a changelog of the new items grouped by era and year', async () => {
+        const history = await RunHistory.load(inventoryPath);
+        const run = history.start({ era: 'early-web' });
+        const item = (filename: string, year: number, timestamp: string) =>
+            inventoryItem({ id: filename, year, filename, timestamp, originalUrl: `http://www.usaweightlifting.org/results/${filename}` });
+        run.targets.push({ target: 'usaweightlifting.org', era: 'early-web', results: 2, added: 2, known: 0 });
+        finishRun(run);
+
+        const [md, json] = await writeChangelog(run, [item('nationals.pdf', 2003, '20031213060615'), item('states.html', 2002, '20020401000000')], path.join(workDir, 'changes'));
+
+        const lines = (await fs.readFile(md, 'utf-8')).split('\n');
+        assert.ok(lines.indexOf('## early-web / 2002') < lines.indexOf('## early-web / 2003'));
+        assert.ok(lines.includes('- results: [nationals.pdf](http://www.usaweightlifting.org/results/nationals.pdf) ([20031213060615](https://web.archive.org/web/20031213060615id_/http://www.usaweightlifting.org/results/nationals.pdf))'));
+        assert.deepEqual((await fs.readJSON(json)).items.map((i: any) => i.filename), ['states.html', 'nationals.pdf']);
+    });
+});
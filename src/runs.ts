@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { InventoryItem } from './inventory';
+
+// One target (host or host/path prefix) of a discovery run
+export interface TargetRun {
+    target: string;
+    era: string;
+    // CDX range queried: a year, or the capture timestamp an earlier run reached
+    from?: string;
+    to?: string;
+    results: number;
+    added: number;
+    // Captures that were already in the inventory
+    known: number;
+    redirects?: { resolved: number; unresolved: number };
+    // Newest capture seen for this target by any successful run so far
+    latestCapture?: string;
+    error?: string;
+}
+
+export interface DiscoveryRun {
+    id: string;
+    startedAt: string;
+    finishedAt?: string;
+    // partial: some targets failed; their latestCapture is carried over unchanged
+    status: 'running' | 'completed' | 'partial';
+    parameters: {
+        era?: string;
+        from?: number;
+        to?: number;
+        sinceLastRun?: boolean;
+        followRedirects?: boolean;
+        refreshCdx?: boolean;
+        limit?: number;
+    };
+    targets: TargetRun[];
+    added: number;
+    // Markdown and JSON lists of the items this run added
+    changelog?: string[];
+}
+
+/**
+ * Discovery runs recorded next to the inventory (<inventory>.runs.json), newest last.
+ * `--since-last-run` starts each target's CDX query at the newest capture an earlier
+ * successful run saw for it instead of re-reading the whole range.
+ */
+export class RunHistory {
+    private constructor(readonly filePath: string, readonly runs: DiscoveryRun[]) { }
+
+    static pathFor(inventoryPath: string): string {
+        return `${inventoryPath}.runs.json`;
+    }
+
+    static async load(inventoryPath: string): Promise<RunHistory> {
+        const filePath = RunHistory.pathFor(inventoryPath);
+        let runs: DiscoveryRun[] = [];
+        if (await fs.pathExists(filePath)) {
+            try {
+                runs = await fs.readJSON(filePath);
+            } catch (e: any) {
+                throw new Error(`Run history ${filePath} is not valid JSON: ${e.message}`);
+            }
+            if (!Array.isArray(runs)) throw new Error(`Run history ${filePath} must contain a JSON array`);
+        }
+        return new RunHistory(filePath, runs);
+    }
+
+    // Newest capture timestamp a successful run recorded for the target
+    latestCapture(target: string, era: string): string | undefined {
+        for (let i = this.runs.length - 1; i >= 0; i--) {
+            const entry = this.runs[i].targets.find(t => t.target === target && t.era === era && !t.error && t.latestCapture);
+            if (entry) return entry.latestCapture;
+        }
+        return undefined;
+    }
+
+    start(parameters: DiscoveryRun['parameters']): DiscoveryRun {
+        const startedAt = new Date().toISOString();
+        const run: DiscoveryRun = {
+            id: startedAt.replace(/[:.]/g, '-'),
+            startedAt,
+            status: 'running',
+            parameters,
+            targets: [],
+            added: 0
+        };
+        this.runs.push(run);
+        return run;
+    }
+
+    // Written like the inventory snapshot: temp file renamed over the original
+    async save(): Promise<void> {
+        const dir = path.dirname(path.resolve(this.filePath));
+        await fs.ensureDir(dir);
+        const tmpPath = path.join(dir, `.${path.basename(this.filePath)}.${process.pid}.tmp`);
+        await fs.writeJSON(tmpPath, this.runs, { spaces: 2 });
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
+
+export function finishRun(run: DiscoveryRun): void {
+    run.finishedAt = new Date().toISOString();
+    run.added = run.targets.reduce((sum, t) => sum + t.added, 0);
+    run.status = run.targets.some(t => t.error) ? 'partial' : 'completed';
+}
+
+/**
+ * Writes the items a run added as <dir>/<run id>.md (grouped by era and year, with
+ * Wayback links) and <dir>/<run id>.json. Returns both paths.
+ */
+export async function writeChangelog(run: DiscoveryRun, added: InventoryItem[], dir: string): Promise<string[]> {
+    const mdPath = path.join(dir, `${run.id}.md`);
+    const jsonPath = path.join(dir, `${run.id}.json`);
+    const sorted = [...added].sort((a, b) =>
+        a.era.localeCompare(b.era) || a.year - b.year || a.category.localeCompare(b.category) || a.originalUrl.localeCompare(b.originalUrl));
+
+    const range = run.parameters.sinceLastRun ? 'since the last run' : `${run.parameters.from || 'all'} - ${run.parameters.to || 'all'}`;
+    const lines = [
+        `# Discovery run ${run.startedAt}`,
+        '',
+        `${added.length} new items (${run.parameters.era || 'all eras'}, ${range}).`,
+        '',
+        '| target | era | from | results | new | already known |',
+        '| --- | --- | --- | ---: | ---: | ---: |',
+        ...run.targets.map(t => `| ${t.target} | ${t.era} | ${t.from || ''} | ${t.error ? `failed: ${t.error}` : t.results} | ${t.added} | ${t.known} |`)
+    ];
+    let group = '';
+    for (const item of sorted) {
+        const heading = `${item.era} / ${item.year}`;
+        if (heading !== group) {
+            lines.push('', `## ${heading}`, '');
+            group = heading;
+        }
+        const category = item.subcategory ? `${item.category}/${item.subcategory}` : item.category;
+        lines.push(`- ${category}: [${item.filename}](${item.originalUrl}) ([${item.timestamp}](${item.waybackUrl}))`);
+    }
+
+    await fs.ensureDir(dir);
+    await fs.writeFile(mdPath, lines.join('\n') + '\n');
+    await fs.writeJSON(jsonPath, {
+        run: run.id,
+        items: sorted.map(item => ({
+            id: item.id,
+            era: item.era,
+            year: item.year,
+            category: item.category,
+            ...(item.subcategory ? { subcategory: item.subcategory } : {}),
+            filename: item.filename,
+            originalUrl: item.originalUrl,
+            timestamp: item.timestamp,
+            waybackUrl: item.waybackUrl
+        }))
+    }, { spaces: 2 });
+    return [mdPath, jsonPath];
+}
@@ -0,0 +1,32 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { documentText, tokenize } from './search';
+
+describe('documentText', () => {
+    let workDir: string;
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-search-'));
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('decodes entities and keeps block elements and cells apart', async () => {
+        const page = path.join(workDir, 'results.html');
+        await fs.writeFile(page, '<html><head><style>td { color: red }</style></head><body>'
+            + '<h2>Women&#39;s Nationals &amp; Jos&eacute; Open</h2><p>Bodyweight &lt; 48&nbsp;kg</p>'
+            + '<table><tr><td>Jane</td><td>Smith</td></tr><tr><td>Ann</td><td>Lee</td></tr></table>'
+            + '<script>var junk = 1;</script></body></html>');
+
+        const text = await documentText(page);
+        assert.deepEqual(text.split('\n').map(line => line.trim()).filter(Boolean),
+            ["Women's Nationals & José Open", 'Bodyweight < 48 kg', 'Jane Smith', 'Ann Lee']);
+        const terms = tokenize(text).map(t => t.term);
+        assert.ok(!terms.some(term => /^(39|eacute|lt|nbsp|junk|color)$/.test(term)), terms.join(' '));
+    });
+});
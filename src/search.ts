@@ -0,0 +1,365 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { InventoryItem } from './inventory';
+import { SpreadsheetResultsExtractor } from './spreadsheet';
+import { PdfResultsExtractor } from './pdf';
+import { logger } from './logger';
+
+// Bump when the on-disk layout changes; older indexes are rebuilt from scratch
+const INDEX_VERSION = 2;
+// Body positions start here so a phrase can never match across metadata and body text
+const BODY_OFFSET = 10000;
+// A hit in filename/URL/era/category counts as much as this many hits in the text
+const META_WEIGHT = 3;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_CONTEXT = 12; // tokens either side of the match
+// Elements that end a line in the plain text of an HTML page
+const BLOCK_ELEMENTS = 'br, p, div, tr, li, h1, h2, h3, h4, h5, h6, table, tbody, thead, ul, ol, pre, blockquote, center, hr';
+
+interface Token {
+    term: string;
+    start: number;
+    end: number;
+}
+
+interface IndexedDocument {
+    ref: number;
+    localPath: string;
+    filename: string;
+    originalUrl: string;
+    era: string;
+    year: number;
+    category: string;
+    timestamp: string;
+    fingerprint: string;
+    length: number;
+    terms: string[]; // distinct terms, so the document can be dropped from the postings
+    text: string;    // body text, kept for snippets
+}
+
+interface IndexFile {
+    version: number;
+    nextRef: number;
+    documents: Record<string, IndexedDocument>;          // keyed by local path
+    postings: Record<string, Record<string, number[]>>; // term -> doc ref -> positions
+}
+
+export interface SearchFilters {
+    era?: string;
+    year?: number;
+    category?: string;
+}
+
+export interface SearchHit {
+    score: number;
+    localPath: string;
+    filename: string;
+    originalUrl: string;
+    era: string;
+    year: number;
+    category: string;
+    timestamp: string;
+    snippet: string;
+}
+
+export interface IndexUpdateResult {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+}
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+        tokens.push({ term: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+    }
+    return tokens;
+}
+
+/**
+ * Splits a query into clauses: "quoted phrases" stay together, bare words are
+ * single-term clauses. Every clause has to match.
+ */
+export function parseQuery(query: string): string[][] {
+    const clauses: string[][] = [];
+    for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+        const terms = tokenize(match[1] ?? match[2]).map(t => t.term);
+        if (terms.length > 0) clauses.push(terms);
+    }
+    return clauses;
+}
+
+/**
+ * Positional full-text index over downloaded documents, kept as one JSON file.
+ * Indexes the visible text of HTML pages, the text layer of PDFs (the .txt written
+ * by `extract` when present), spreadsheet cells, and each item's inventory metadata.
+ *
+ * Updates are incremental: a document is only re-read when its file (or extracted
+ * text) or its metadata changed since it was indexed.
+ */
+export class SearchIndex {
+    private data: IndexFile = { version: INDEX_VERSION, nextRef: 1, documents: {}, postings: {} };
+
+    private constructor(private filePath: string) { }
+
+    static async load(filePath: string): Promise<SearchIndex> {
+        const index = new SearchIndex(filePath);
+        if (await fs.pathExists(filePath)) {
+            const raw = await fs.readJSON(filePath);
+            if (raw && raw.version === INDEX_VERSION) {
+                index.data = raw;
+            } else {
+                logger.warn(`Search index ${filePath} has an old format; rebuilding`);
+            }
+        }
+        return index;
+    }
+
+    get size(): number {
+        return Object.keys(this.data.documents).length;
+    }
+
+    async save(): Promise<void> {
+        const dir = path.dirname(path.resolve(this.filePath));
+        await fs.ensureDir(dir);
+
+        const tmpPath = path.join(dir, `.${path.basename(this.filePath)}.${process.pid}.tmp`);
+        await fs.writeJSON(tmpPath, this.data);
+        await fs.rename(tmpPath, this.filePath);
+    }
+
+    /**
+     * Brings the index in line with the inventory's downloaded items: new and changed
+     * documents are (re)indexed, documents no longer downloaded are dropped.
+     */
+    async update(items: InventoryItem[], options?: { rebuild?: boolean }): Promise<IndexUpdateResult> {
+        if (options?.rebuild) {
+            this.data = { version: INDEX_VERSION, nextRef: 1, documents: {}, postings: {} };
+        }
+
+        const result: IndexUpdateResult = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+        const seen = new Set<string>();
+
+        for (const item of items) {
+            if (item.status !== 'downloaded' || !item.localPath) continue;
+            const key = path.normalize(item.localPath);
+            if (seen.has(key)) continue;
+
+            const fingerprint = await this.fingerprint(item);
+            if (!fingerprint) continue; // missing on disk: `verify` reports these
+            seen.add(key);
+
+            const existing = this.data.documents[key];
+            if (existing && existing.fingerprint === fingerprint) {
+                result.unchanged++;
+                continue;
+            }
+            if (existing) this.remove(key);
+
+            await this.add(key, item, fingerprint);
+            existing ? result.updated++ : result.added++;
+        }
+
+        for (const key of Object.keys(this.data.documents)) {
+            if (!seen.has(key)) {
+                this.remove(key);
+                result.removed++;
+            }
+        }
+
+        return result;
+    }
+
+    search(query: string, filters: SearchFilters = {}, limit = 20): SearchHit[] {
+        const clauses = parseQuery(query);
+        if (clauses.length === 0) return [];
+
+        const documents = Object.values(this.data.documents).filter(doc =>
+            (!filters.era || doc.era === filters.era) &&
+            (!filters.year || doc.year === filters.year) &&
+            (!filters.category || doc.category === filters.category));
+        if (documents.length === 0) return [];
+
+        const total = this.size;
+        const averageLength = Object.values(this.data.documents).reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, total);
+        const matches = clauses.map(clause => this.matchPhrase(clause));
+
+        const hits: SearchHit[] = [];
+        for (const doc of documents) {
+            const perClause = matches.map(m => m.get(doc.ref));
+            if (perClause.some(positions => !positions)) continue;
+
+            let score = 0;
+            perClause.forEach((positions, i) => {
+                const df = matches[i].size;
+                const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+                const tf = positions!.reduce((sum, p) => sum + (p < BODY_OFFSET ? META_WEIGHT : 1), 0);
+                score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / Math.max(1, averageLength)));
+            });
+
+            hits.push({
+                score: Math.round(score * 1000) / 1000,
+                localPath: doc.localPath,
+                filename: doc.filename,
+                originalUrl: doc.originalUrl,
+                era: doc.era,
+                year: doc.year,
+                category: doc.category,
+                timestamp: doc.timestamp,
+                snippet: this.snippet(doc, perClause as number[][], clauses)
+            });
+        }
+
+        return hits.sort((a, b) => b.score - a.score || a.localPath.localeCompare(b.localPath)).slice(0, limit);
+    }
+
+    // doc ref -> start positions of the phrase
+    private matchPhrase(terms: string[]): Map<number, number[]> {
+        const result = new Map<number, number[]>();
+        const first = this.data.postings[terms[0]];
+        if (!first) return result;
+
+        for (const [ref, positions] of Object.entries(first)) {
+            const rest = terms.slice(1).map(term => new Set(this.data.postings[term]?.[ref] || []));
+            const starts = positions.filter(p => rest.every((set, i) => set.has(p + i + 1)));
+            if (starts.length > 0) result.set(Number(ref), starts);
+        }
+        return result;
+    }
+
+    private snippet(doc: IndexedDocument, positions: number[][], clauses: string[][]): string {
+        const tokens = tokenize(doc.text);
+
+        // Earliest body hit of any clause; metadata-only matches fall back to the opening text
+        let at = -1;
+        let length = 0;
+        for (let i = 0; i < positions.length; i++) {
+            const body = positions[i].find(p => p >= BODY_OFFSET);
+            if (body !== undefined && (at === -1 || body - BODY_OFFSET < at)) {
+                at = body - BODY_OFFSET;
+                length = clauses[i].length;
+            }
+        }
+        if (at === -1 || !tokens[at + length - 1]) {
+            return doc.text.substring(0, 160).replace(/\s+/g, ' ').trim();
+        }
+
+        const from = tokens[Math.max(0, at - SNIPPET_CONTEXT)].start;
+        const to = tokens[Math.min(tokens.length - 1, at + length - 1 + SNIPPET_CONTEXT)].end;
+        const matchStart = tokens[at].start;
+        const matchEnd = tokens[at + length - 1].end;
+
+        const clean = (s: string) => s.replace(/\s+/g, ' ');
+        const snippet = `${clean(doc.text.substring(from, matchStart))}[${clean(doc.text.substring(matchStart, matchEnd))}]${clean(doc.text.substring(matchEnd, to))}`;
+        return `${from > 0 ? '...' : ''}${snippet.trim()}${to < doc.text.length ? '...' : ''}`;
+    }
+
+    private async add(key: string, item: InventoryItem, fingerprint: string): Promise<void> {
+        let text = '';
+        try {
+            text = await documentText(item.localPath!);
+        } catch (err: any) {
+            logger.warn(`Could not read text from ${item.localPath}, indexing metadata only: ${err.message}`);
+        }
+
+        const ref = this.data.nextRef++;
+        const meta = tokenize([item.filename, item.originalUrl, item.era, item.year, item.category].join(' '));
+        const body = tokenize(text);
+        const terms = new Set<string>();
+
+        const post = (term: string, position: number) => {
+            const postings = this.data.postings[term] || (this.data.postings[term] = {});
+            (postings[ref] || (postings[ref] = [])).push(position);
+            terms.add(term);
+        };
+        meta.forEach((token, i) => post(token.term, i));
+        body.forEach((token, i) => post(token.term, BODY_OFFSET + i));
+
+        this.data.documents[key] = {
+            ref,
+            localPath: item.localPath!,
+            filename: item.filename,
+            originalUrl: item.originalUrl,
+            era: item.era,
+            year: item.year,
+            category: item.category,
+            timestamp: item.timestamp,
+            fingerprint,
+            length: meta.length + body.length,
+            terms: Array.from(terms),
+            text
+        };
+    }
+
+    private remove(key: string): void {
+        const doc = this.data.documents[key];
+        if (!doc) return;
+        for (const term of doc.terms) {
+            const postings = this.data.postings[term];
+            if (!postings) continue;
+            delete postings[doc.ref];
+            if (Object.keys(postings).length === 0) delete this.data.postings[term];
+        }
+        delete this.data.documents[key];
+    }
+
+    // Changes whenever the file, its extracted text or its inventory metadata change
+    private async fingerprint(item: InventoryItem): Promise<string | null> {
+        if (!await fs.pathExists(item.localPath!)) return null;
+        const stat = await fs.stat(item.localPath!);
+        const sidecar = `${item.localPath}.txt`;
+        const sidecarStat = await fs.pathExists(sidecar) ? await fs.stat(sidecar) : null;
+
+        return [
+            stat.size, Math.round(stat.mtimeMs),
+            sidecarStat ? Math.round(sidecarStat.mtimeMs) : '',
+            item.filename, item.originalUrl, item.era, item.year, item.category, item.timestamp
+        ].join('|');
+    }
+}
+
+/**
+ * Plain text of an HTML page: one line per block element, table cells separated by
+ * a space, every entity decoded.
+ */
+export function htmlText(html: string): string {
+    const $ = cheerio.load(html);
+    $('script, style, noscript').remove();
+    // Block elements end a line and table cells a word, so adjacent cells don't run together;
+    // .text() decodes every entity (&eacute;, &#39;, ...)
+    $(BLOCK_ELEMENTS).after('\n');
+    $('td, th').after(' ');
+    return $('body').text().replace(/[ \t\u00a0]+/g, ' ');
+}
+
+/**
+ * Plain text of a downloaded document: HTML without markup (one line per block
+ * element), PDF text (the `.txt` sidecar when `extract` saved one) or spreadsheet
+ * cells. Types without a text extractor give ''.
+ */
+export async function documentText(filePath: string): Promise<string> {
+    const ext = path.extname(filePath).toLowerCase();
+
+    if (ext === '.html' || ext === '.htm') {
+        return htmlText(await fs.readFile(filePath, 'utf-8'));
+    }
+    if (ext === '.pdf') {
+        // Reuse the text layer `extract` already saved; parsing PDFs is slow
+        const sidecar = `${filePath}.txt`;
+        if (await fs.pathExists(sidecar)) return fs.readFile(sidecar, 'utf-8');
+        const { text } = await new PdfResultsExtractor().extract(await fs.readFile(filePath), filePath);
+        return text;
+    }
+    if (ext === '.xls' || ext === '.xlsx') {
+        return new SpreadsheetResultsExtractor().text(await fs.readFile(filePath));
+    }
+    if (ext === '.txt') {
+        return fs.readFile(filePath, 'utf-8');
+    }
+    // .doc/.docx: no text extractor yet, metadata only
+    return '';
+}
@@ -0,0 +1,254 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as crypto from 'crypto';
+import { ERAS, publicPlaybackUrl } from './config';
+import { InventoryItem } from './inventory';
+
+const STATE_FILE = '.site-state.json';
+
+interface SiteState {
+    // page path (relative to the site root) -> sha1 of its rendered HTML
+    pages: Record<string, string>;
+}
+
+export interface SiteBuildResult {
+    written: number;
+    unchanged: number;
+    removed: number;
+}
+
+function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// 20031213060615 -> 2003-12-13 06:06:15
+function formatTimestamp(ts: string): string {
+    const m = ts.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/);
+    return m ? `${m[1]}-${m[2]}-${m[3]} ${m[4]}:${m[5]}:${m[6]}` : ts;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        groups.set(k, [...(groups.get(k) || []), item]);
+    }
+    return groups;
+}
+
+/**
+ * Generates a static, browsable archive from the inventory: one index per era, year
+ * and category, linking each document to its local copy, original URL and Wayback
+ * capture. Pages only use relative links and inline script, so they work opened
+ * straight from disk (file://).
+ *
+ * Builds are incremental: every page is rendered, but only pages whose HTML changed
+ * are written, and pages for eras/years that disappeared are removed.
+ */
+export class SiteBuilder {
+    constructor(private items: InventoryItem[], private outDir: string) { }
+
+    async build(): Promise<SiteBuildResult> {
+        const pages = this.render();
+        await fs.ensureDir(this.outDir);
+
+        const statePath = path.join(this.outDir, STATE_FILE);
+        const previous: SiteState = await fs.pathExists(statePath) ? await fs.readJSON(statePath) : { pages: {} };
+        const next: SiteState = { pages: {} };
+        const result: SiteBuildResult = { written: 0, unchanged: 0, removed: 0 };
+
+        for (const [page, html] of pages) {
+            const hash = crypto.createHash('sha1').update(html).digest('hex');
+            next.pages[page] = hash;
+
+            const target = path.join(this.outDir, page);
+            if (previous.pages[page] === hash && await fs.pathExists(target)) {
+                result.unchanged++;
+                continue;
+            }
+            await fs.ensureDir(path.dirname(target));
+            await fs.writeFile(target, html);
+            result.written++;
+        }
+
+        for (const page of Object.keys(previous.pages)) {
+            if (!pages.has(page)) {
+                await fs.remove(path.join(this.outDir, page));
+                result.removed++;
+            }
+        }
+
+        await fs.writeJSON(statePath, next, { spaces: 2 });
+        return result;
+    }
+
+    static async hasBeenBuilt(outDir: string): Promise<boolean> {
+        return fs.pathExists(path.join(outDir, STATE_FILE));
+    }
+
+    private render(): Map<string, string> {
+        const pages = new Map<string, string>();
+        const byEra = groupBy(this.items, item => item.era);
+        const eraIds = Array.from(byEra.keys()).sort((a, b) => this.eraOrder(a) - this.eraOrder(b) || a.localeCompare(b));
+
+        const eraRows = eraIds.map(eraId => {
+            const items = byEra.get(eraId)!;
+            return `<tr><td><a href="${escapeHtml(eraId)}/index.html">${escapeHtml(this.eraTitle(eraId))}</a></td><td>${items.length}</td><td>${this.downloadedCount(items)}</td></tr>`;
+        }).join('\n');
+        pages.set('index.html', this.layout('USA Weightlifting Results Archive', '', `
+<table><thead><tr><th>Era</th><th>Documents</th><th>Downloaded</th></tr></thead><tbody>
+${eraRows}
+</tbody></table>
+<h2>All documents</h2>
+${this.itemTable(this.items, '')}`));
+
+        for (const eraId of eraIds) {
+            const eraItems = byEra.get(eraId)!;
+            const byYear = groupBy(eraItems, item => item.year.toString());
+            const years = Array.from(byYear.keys()).sort();
+
+            const yearRows = years.map(year => {
+                const yearItems = byYear.get(year)!;
+                const categories = Array.from(groupBy(yearItems, i => i.category).entries())
+                    .map(([category, list]) => `<a href="${escapeHtml(year)}/${escapeHtml(category)}.html">${escapeHtml(category)}</a> (${list.length})`)
+                    .join(', ');
+                return `<tr><td><a href="${escapeHtml(year)}/index.html">${escapeHtml(year)}</a></td><td>${yearItems.length}</td><td>${categories}</td></tr>`;
+            }).join('\n');
+
+            pages.set(`${eraId}/index.html`, this.layout(this.eraTitle(eraId), '../', `
+<p><a href="../index.html">All eras</a></p>
+<table><thead><tr><th>Year</th><th>Documents</th><th>Categories</th></tr></thead><tbody>
+${yearRows}
+</tbody></table>`));
+
+            for (const year of years) {
+                const yearItems = byYear.get(year)!;
+                const byCategory = groupBy(yearItems, item => item.category);
+                const categoryLinks = Array.from(byCategory.entries())
+                    .map(([category, list]) => `<li><a href="${escapeHtml(category)}.html">${escapeHtml(category)}</a> (${list.length})</li>`)
+                    .join('\n');
+
+                pages.set(`${eraId}/${year}/index.html`, this.layout(`${this.eraTitle(eraId)} - ${year}`, '../../', `
+<p><a href="../../index.html">All eras</a> &rsaquo; <a href="../index.html">${escapeHtml(this.eraTitle(eraId))}</a></p>
+<ul>${categoryLinks}</ul>
+${this.itemTable(yearItems, '../../')}`));
+
+                for (const [category, list] of byCategory) {
+                    pages.set(`${eraId}/${year}/${category}.html`, this.layout(`${this.eraTitle(eraId)} - ${year} - ${category}`, '../../', `
+<p><a href="../../index.html">All eras</a> &rsaquo; <a href="../index.html">${escapeHtml(this.eraTitle(eraId))}</a> &rsaquo; <a href="index.html">${escapeHtml(year)}</a></p>
+${this.itemTable(list, '../../')}`));
+                }
+            }
+        }
+
+        return pages;
+    }
+
+    private eraTitle(eraId: string): string {
+        return ERAS[eraId] ? ERAS[eraId].description : eraId;
+    }
+
+    // Known eras in chronological order, anything else after them
+    private eraOrder(eraId: string): number {
+        const index = Object.keys(ERAS).indexOf(eraId);
+        return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    }
+
+    private downloadedCount(items: InventoryItem[]): number {
+        return items.filter(item => item.status === 'downloaded').length;
+    }
+
+    /**
+     * Table of documents. `toRoot` climbs from the page back to the site root; local
+     * files are linked relative to the site root's parent (the repo root).
+     */
+    private itemTable(items: InventoryItem[], toRoot: string): string {
+        const rows = [...items]
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.filename.localeCompare(b.filename))
+            .map(item => {
+                const local = item.status === 'downloaded' && item.localPath
+                    ? `<a href="${escapeHtml(this.localHref(item.localPath, toRoot))}">${escapeHtml(item.filename)}</a>`
+                    : escapeHtml(item.filename);
+                const wayback = publicPlaybackUrl(item.timestamp, item.originalUrl, false);
+                return `<tr data-era="${escapeHtml(item.era)}" data-year="${item.year}" data-category="${escapeHtml(item.category)}" data-status="${escapeHtml(item.status)}">` +
+                    `<td>${local}</td><td>${escapeHtml(item.era)}</td><td>${item.year}</td><td>${escapeHtml(item.subcategory ? `${item.category} / ${item.subcategory}` : item.category)}</td><td>${escapeHtml(item.status)}</td>` +
+                    `<td>${escapeHtml(formatTimestamp(item.timestamp))}</td>` +
+                    `<td><a href="${escapeHtml(item.originalUrl)}">original</a></td><td><a href="${escapeHtml(wayback)}">wayback</a></td></tr>`;
+            }).join('\n');
+
+        const options = (values: string[]) => Array.from(new Set(values)).sort().map(v => `<option>${escapeHtml(v)}</option>`).join('');
+
+        return `
+<div class="filters">
+<input type="search" class="filter-text" placeholder="Filter by filename or URL...">
+<select class="filter-category"><option value="">All categories</option>${options(items.map(i => i.category))}</select>
+<select class="filter-status"><option value="">All statuses</option>${options(items.map(i => i.status))}</select>
+<span class="filter-count"></span>
+</div>
+<table class="items"><thead><tr><th>File</th><th>Era</th><th>Year</th><th>Category</th><th>Status</th><th>Captured</th><th>Original</th><th>Wayback</th></tr></thead><tbody>
+${rows}
+</tbody></table>`;
+    }
+
+    private localHref(localPath: string, toRoot: string): string {
+        // The site lives in outDir; local paths in the inventory are relative to the working directory
+        const fromSiteRoot = path.relative(path.resolve(this.outDir), path.resolve(localPath));
+        return toRoot + fromSiteRoot.split(path.sep).map(segment => encodeURIComponent(segment)).join('/');
+    }
+
+    private layout(title: string, toRoot: string, body: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: Verdana, Arial, sans-serif; font-size: 13px; margin: 1.5em; color: #222; }
+h1 { color: #002868; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 3px 8px; text-align: left; }
+th { background: #002868; color: #fff; }
+tr:nth-child(even) td { background: #f4f6fa; }
+.filters { margin: 1em 0; }
+.filters input { width: 22em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+<script>
+// Client-side filtering; inline so it also runs from file://
+document.querySelectorAll('.filters').forEach(function (filters) {
+    var table = filters.nextElementSibling;
+    var text = filters.querySelector('.filter-text');
+    var category = filters.querySelector('.filter-category');
+    var status = filters.querySelector('.filter-status');
+    var count = filters.querySelector('.filter-count');
+    function apply() {
+        var needle = text.value.toLowerCase();
+        var shown = 0;
+        table.querySelectorAll('tbody tr').forEach(function (row) {
+            // innerHTML too, so the filter also matches original URLs behind the links
+            var visible = (!needle || row.textContent.toLowerCase().indexOf(needle) !== -1 ||
+                    row.innerHTML.toLowerCase().indexOf(needle) !== -1) &&
+                (!category.value || row.dataset.category === category.value) &&
+                (!status.value || row.dataset.status === status.value);
+            row.style.display = visible ? '' : 'none';
+            if (visible) shown++;
+        });
+        count.textContent = shown + ' shown';
+    }
+    [text, category, status].forEach(function (el) { el.addEventListener('input', apply); });
+    apply();
+});
+</script>
+<p><small><a href="${toRoot}index.html">Archive home</a></small></p>
+</body>
+</html>
+`;
+    }
+}
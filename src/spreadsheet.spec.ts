@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import path from 'path';
+import { ResultRecord } from './results';
+import { SpreadsheetResultsExtractor } from './spreadsheet';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'results');
+
+const byName = (records: ResultRecord[], name: string) => records.find(r => r.name === name)!;
+
+describe('SpreadsheetResultsExtractor', () => {
+    it('reads an .xlsx sheet with a single header row, repeated headers and class rows', async () => {
+        const doc = new SpreadsheetResultsExtractor().extract(await fs.readFile(path.join(FIXTURES, 'header_row.xlsx')), 'header_row.xlsx');
+
+        assert.equal(doc.layout, 'header-row');
+        assert.equal(doc.meet, '2010 National Championships');
+        assert.equal(doc.date, 'May 20-22, 2010');
+        assert.deepEqual(doc.records.map(r => [r.name, r.weightClass, r.place, r.source.section]), [
+            ['Chad Vaughn', '77kg', 1, 'Session A'],
+            ['Pat Second', '77kg', 2, 'Session A'],
+            ['Kendrick Farris', '85kg', 1, 'Session A']
+        ]);
+
+        const chad = byName(doc.records, 'Chad Vaughn');
+        assert.deepEqual([chad.club, chad.state, chad.bodyweight], ['Team Houston', 'TX', 76.8]);
+        assert.deepEqual(chad.snatch, [140, 145, -150]);
+        assert.deepEqual(chad.cleanJerk, [175, -180, 180]);
+        assert.deepEqual([chad.bestSnatch, chad.bestCleanJerk, chad.total], [145, 180, 325]);
+        assert.deepEqual(byName(doc.records, 'Pat Second').cleanJerk, [165, 170, null]);
+
+        assert.deepEqual(doc.unparsed.map(u => [u.section, u.reason]), [
+            ['Session A', 'no numeric lift values'],
+            ['Notes', 'no header row found']
+        ]);
+    });
+
+    it('reads an .xls sheet whose attempt columns sit under merged Snatch / C&J cells', async () => {
+        const doc = new SpreadsheetResultsExtractor().extract(await fs.readFile(path.join(FIXTURES, 'two_row_header.xls')), 'two_row_header.xls');
+
+        assert.equal(doc.layout, 'two-row-header');
+        assert.equal(doc.meet, '2006 American Open');
+        assert.deepEqual(doc.records.map(r => [r.name, r.weightClass]), [['Ann Strong', '58kg'], ['Beth Steady', '58kg']]);
+
+        const ann = byName(doc.records, 'Ann Strong');
+        assert.deepEqual(ann.snatch, [80, -85, 85]);
+        assert.deepEqual(ann.cleanJerk, [100, 105, -110]);
+        assert.deepEqual([ann.bestSnatch, ann.bestCleanJerk, ann.total, ann.club], [85, 105, 190, 'Calif Power']);
+        assert.deepEqual(doc.unparsed, []);
+    });
+
+    it('flattens every sheet to tab-separated text for search', async () => {
+        const text = new SpreadsheetResultsExtractor().text(await fs.readFile(path.join(FIXTURES, 'header_row.xlsx')));
+        assert.match(text, /^Session A\n2010 National Championships/);
+        assert.match(text, /Chad Vaughn\tTeam Houston\tTX/);
+        assert.match(text, /\nNotes\nOfficials/);
+    });
+});
@@ -0,0 +1,139 @@
+import * as XLSX from 'xlsx';
+import {
+    ColumnMap, detectWeightClass, findDate, isResultRecord, mapHeader,
+    parseResultRow, ResultDocument, ResultRecord, UnparsedRow
+} from './results';
+
+// Header rows are near the top; anything further down is data or notes
+const HEADER_SEARCH_ROWS = 40;
+
+interface HeaderMatch {
+    rowIndex: number; // last row of the header
+    map: ColumnMap;
+    layout: 'header-row' | 'two-row-header';
+}
+
+/**
+ * Pulls results out of .xls/.xlsx result sheets (mostly Hangastar-era files on
+ * assets.teamusa.org). Each worksheet is treated as its own section, since meets
+ * usually put one session per sheet.
+ */
+export class SpreadsheetResultsExtractor {
+    readonly parser = 'spreadsheet';
+
+    extract(data: Buffer, sourcePath: string): ResultDocument {
+        const workbook = XLSX.read(data, { type: 'buffer' });
+
+        const records: ResultRecord[] = [];
+        const unparsed: UnparsedRow[] = [];
+        const layouts = new Set<string>();
+        let meet: string | null = null;
+        let date: string | null = null;
+
+        for (const sheetName of workbook.SheetNames) {
+            const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+                header: 1,
+                raw: false,
+                defval: '',
+                blankrows: false
+            }).map(row => row.map(cell => String(cell).replace(/\s+/g, ' ').trim()));
+
+            if (rows.every(row => row.every(cell => !cell))) continue;
+
+            const header = this.findHeader(rows);
+            if (!header) {
+                unparsed.push({ section: sheetName, row: -1, reason: 'no header row found', raw: rows[0] || [] });
+                continue;
+            }
+            layouts.add(header.layout);
+
+            // Title rows above the header name the meet and its date
+            const preamble = rows.slice(0, header.rowIndex - (header.layout === 'two-row-header' ? 1 : 0))
+                .map(row => row.filter(Boolean).join(' '))
+                .filter(Boolean);
+            meet = meet || preamble[0] || null;
+            date = date || findDate(preamble.join(' '));
+
+            let weightClass: string | null = null;
+            for (let i = header.rowIndex + 1; i < rows.length; i++) {
+                const cells = rows[i];
+                const filled = cells.filter(Boolean);
+                if (filled.length === 0) continue;
+
+                if (filled.length === 1) {
+                    weightClass = detectWeightClass(filled[0]) || weightClass;
+                    continue;
+                }
+
+                // Repeated header rows start a new block on the same sheet
+                if (mapHeader(cells)) continue;
+
+                const parsed = parseResultRow(cells, header.map, { meet, date, weightClass, section: sheetName, row: i });
+                if (isResultRecord(parsed)) {
+                    records.push(parsed);
+                } else {
+                    unparsed.push(parsed);
+                }
+            }
+        }
+
+        return {
+            sourcePath,
+            parser: this.parser,
+            layout: layouts.size > 0 ? Array.from(layouts).join('+') : 'none',
+            meet,
+            date,
+            extractedAt: new Date().toISOString(),
+            records,
+            unparsed
+        };
+    }
+
+    // Every sheet flattened to tab-separated lines, for full-text search
+    text(data: Buffer): string {
+        const workbook = XLSX.read(data, { type: 'buffer' });
+        return workbook.SheetNames
+            .map(sheetName => `${sheetName}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { FS: '\t', blankrows: false })}`)
+            .join('\n');
+    }
+
+    /**
+     * Looks for a single header row first, then for a two-row header where a merged
+     * "Snatch" / "C&J" cell sits above "1 2 3" attempt columns.
+     */
+    private findHeader(rows: string[][]): HeaderMatch | null {
+        const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+
+        for (let i = 0; i < limit; i++) {
+            const next = rows[i + 1] || [];
+            const nextFilled = next.filter(Boolean);
+            const attemptRow = nextFilled.length >= 3 && nextFilled.every(cell => /^([123]|1st|2nd|3rd)$/i.test(cell));
+
+            if (attemptRow) {
+                const map = mapHeader(this.combineHeaderRows(rows[i], next));
+                if (map) return { rowIndex: i + 1, map, layout: 'two-row-header' };
+            }
+
+            const map = mapHeader(rows[i]);
+            if (map) return { rowIndex: i, map, layout: 'header-row' };
+        }
+
+        return null;
+    }
+
+    private combineHeaderRows(upper: string[], lower: string[]): string[] {
+        const width = Math.max(upper.length, lower.length);
+        const combined: string[] = [];
+        let carried = '';
+
+        for (let c = 0; c < width; c++) {
+            const top = upper[c] || '';
+            const bottom = (lower[c] || '').replace(/(st|nd|rd)$/i, '');
+            // Merged cells only carry their label in the first column of the merge
+            if (top) carried = bottom ? top : '';
+            combined.push(top && !bottom ? top : `${top || carried} ${bottom}`.trim());
+        }
+
+        return combined;
+    }
+}
@@ -0,0 +1,290 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { normalizeCdxUrl, surtKey } from './cdx';
+import { IntegrityChecker } from './integrity';
+import { logger } from './logger';
+
+/**
+ * One archived capture served by the stand-in. The body comes from `file` (relative
+ * to the fixture file) or inline `body`; digest and length are computed from it
+ * unless given, so a fixture can also describe a capture whose digest lies.
+ */
+export interface StandInCapture {
+    url: string;
+    timestamp: string;
+    mimetype?: string;
+    statuscode?: number;
+    // Redirect target for 3xx captures
+    location?: string;
+    file?: string;
+    body?: string;
+    digest?: string;
+}
+
+/**
+ * Canned error responses: the next `times` requests to `route` get `status`
+ * (e.g. 429 with a Retry-After) before the real answer. `match` narrows the rule
+ * to request paths containing it.
+ */
+export interface StandInFailure {
+    route: 'cdx' | 'web';
+    status: number;
+    times: number;
+    retryAfter?: string;
+    match?: string;
+}
+
+export interface StandInFixtures {
+    captures: StandInCapture[];
+    failures?: StandInFailure[];
+}
+
+interface Capture {
+    urlkey: string;
+    timestamp: string;
+    original: string;
+    mimetype: string;
+    statuscode: string;
+    digest: string;
+    length: string;
+    location?: string;
+    body: Buffer;
+}
+
+const CDX_FIELDS = ['urlkey', 'timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'] as const;
+type CdxField = typeof CDX_FIELDS[number];
+
+function isCdxField(field: string): field is CdxField {
+    return (CDX_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Fixture-driven stand-in for the Wayback Machine, so discovery, downloads and asset
+ * recovery can run offline (tests, or `stand-in` from the CLI with USAW_CDX_API_URL /
+ * USAW_WAYBACK_URL pointed at it). It covers the parts of the APIs these tools use:
+ *  - /cdx/search/cdx: url (exact, trailing * prefix, *.domain), matchType, from/to,
+ *    filter (with ! negation), collapse (field or field:N), closest, limit, fl,
+ *    output=json and showResumeKey/resumeKey paging
+ *  - /web/<timestamp>[id_]/<url>: the capture closest to the timestamp, redirects
+ *    pointing back into playback like the real thing
+ * Every request path is recorded in `requests` for assertions.
+ */
+export class WaybackStandIn {
+    readonly requests: string[] = [];
+    private captures: Capture[];
+    private failures: StandInFailure[];
+    private server: Server | null = null;
+    private port = 0;
+
+    constructor(fixtures: StandInFixtures, baseDir = '.') {
+        this.captures = fixtures.captures.map(c => WaybackStandIn.toCapture(c, baseDir))
+            .sort((a, b) => a.urlkey.localeCompare(b.urlkey) || a.timestamp.localeCompare(b.timestamp));
+        this.failures = (fixtures.failures || []).map(f => ({ ...f }));
+    }
+
+    // Reads a fixture file ({ "captures": [...], "failures": [...] }); bodies resolve next to it
+    static async fromFile(filePath: string): Promise<WaybackStandIn> {
+        const fixtures: StandInFixtures = await fs.readJSON(filePath);
+        if (!Array.isArray(fixtures?.captures)) {
+            throw new Error(`Fixture file ${filePath} must contain a "captures" list`);
+        }
+        return new WaybackStandIn(fixtures, path.dirname(filePath));
+    }
+
+    private static toCapture(c: StandInCapture, baseDir: string): Capture {
+        if (!c.url || !/^\d{4,14}$/.test(c.timestamp || '')) {
+            throw new Error(`Stand-in capture needs a url and a numeric timestamp: ${JSON.stringify(c)}`);
+        }
+        const body = c.file ? fs.readFileSync(path.resolve(baseDir, c.file)) : Buffer.from(c.body ?? '');
+        return {
+            urlkey: surtKey(c.url),
+            timestamp: c.timestamp.padEnd(14, '0'),
+            original: c.url,
+            mimetype: c.mimetype || 'text/html',
+            statuscode: String(c.statuscode ?? 200),
+            digest: c.digest || IntegrityChecker.digestOf(body),
+            length: String(body.length),
+            location: c.location,
+            body
+        };
+    }
+
+    get baseUrl(): string {
+        return `http://127.0.0.1:${this.port}`;
+    }
+
+    get cdxUrl(): string {
+        return `${this.baseUrl}/cdx/search/cdx`;
+    }
+
+    get waybackUrl(): string {
+        return `${this.baseUrl}/web`;
+    }
+
+    // Adds canned errors at runtime, e.g. failNext('web', 503, 2)
+    failNext(route: StandInFailure['route'], status: number, times = 1, options?: { retryAfter?: string; match?: string }): void {
+        this.failures.push({ route, status, times, ...options });
+    }
+
+    async start(port = 0): Promise<this> {
+        this.server = createServer((req, res) => this.handle(req, res));
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, '127.0.0.1', () => resolve());
+        });
+        this.port = (this.server.address() as AddressInfo).port;
+        return this;
+    }
+
+    async close(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    private handle(req: IncomingMessage, res: ServerResponse): void {
+        const requestPath = req.url || '/';
+        this.requests.push(requestPath);
+        const url = new URL(requestPath, this.baseUrl);
+        const route = url.pathname === '/cdx/search/cdx' ? 'cdx' : url.pathname.startsWith('/web/') ? 'web' : null;
+
+        const failure = route && this.failures.find(f => f.route === route && f.times > 0 && (!f.match || requestPath.includes(f.match)));
+        if (failure) {
+            failure.times--;
+            res.writeHead(failure.status, {
+                'Content-Type': 'text/plain',
+                ...(failure.retryAfter !== undefined ? { 'Retry-After': failure.retryAfter } : {})
+            });
+            res.end(`Stand-in: canned ${failure.status}`);
+            return;
+        }
+
+        try {
+            if (route === 'cdx') return this.handleCdx(url.searchParams, res);
+            if (route === 'web') return this.handlePlayback(requestPath.substring('/web/'.length), res);
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found');
+        } catch (err: any) {
+            logger.warn(`Stand-in: ${requestPath}: ${err.message}`);
+            res.writeHead(400, { 'Content-Type': 'text/plain' });
+            res.end(err.message);
+        }
+    }
+
+    private handleCdx(params: URLSearchParams, res: ServerResponse): void {
+        const target = params.get('url');
+        if (!target) throw new Error('url parameter is required');
+
+        let rows = this.captures.filter(this.urlMatcher(target, params.get('matchType')));
+
+        const from = params.get('from');
+        const to = params.get('to');
+        if (from) rows = rows.filter(r => r.timestamp >= from.padEnd(14, '0'));
+        if (to) rows = rows.filter(r => r.timestamp <= to.padEnd(14, '9'));
+
+        for (const filter of params.getAll('filter')) {
+            const match = filter.match(/^(!?)(\w+):(.*)$/);
+            if (!match || !isCdxField(match[2])) throw new Error(`Bad filter: ${filter}`);
+            const [, negate, , pattern] = match;
+            const field = match[2];
+            const regex = new RegExp(`^(?:${pattern})$`);
+            rows = rows.filter(r => regex.test(r[field]) !== !!negate);
+        }
+
+        for (const collapse of params.getAll('collapse')) {
+            const [field, length] = collapse.split(':');
+            if (!isCdxField(field)) throw new Error(`Bad collapse: ${collapse}`);
+            const value = (r: Capture) => {
+                const v = r[field];
+                return length ? v.substring(0, Number(length)) : v;
+            };
+            // Like the real index: only adjacent duplicates collapse
+            rows = rows.filter((r, i) => i === 0 || value(r) !== value(rows[i - 1]));
+        }
+
+        const closest = params.get('closest');
+        if (closest) {
+            const target = Number(closest.padEnd(14, '0'));
+            rows = [...rows].sort((a, b) => Math.abs(Number(a.timestamp) - target) - Math.abs(Number(b.timestamp) - target));
+        }
+
+        // Resume keys name the last row sent; paging continues after it
+        const resumeKey = params.get('resumeKey');
+        if (resumeKey) {
+            const index = rows.findIndex(r => `${r.urlkey} ${r.timestamp}` === resumeKey);
+            rows = index === -1 ? [] : rows.slice(index + 1);
+        }
+
+        const limit = Number(params.get('limit'));
+        let nextKey: string | undefined;
+        if (limit > 0 && rows.length > limit) {
+            rows = rows.slice(0, limit);
+            if (params.get('showResumeKey') === 'true') {
+                const last = rows[rows.length - 1];
+                nextKey = `${last.urlkey} ${last.timestamp}`;
+            }
+        }
+
+        const fields: string[] = params.get('fl') ? params.get('fl')!.split(',') : [...CDX_FIELDS];
+        const table = rows.map(r => fields.map(f => isCdxField(f) ? r[f] : '-'));
+
+        if (params.get('output') === 'json') {
+            // The real API answers an empty body, not a bare header, when nothing matches
+            const body = table.length === 0 ? [] : [fields, ...table, ...(nextKey ? [[], [nextKey]] : [])];
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(table.length === 0 ? '' : JSON.stringify(body));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(table.map(row => row.join(' ')).join('\n') + (table.length ? '\n' : '') + (nextKey ? `\n${nextKey}\n` : ''));
+    }
+
+    private urlMatcher(target: string, matchType: string | null): (c: Capture) => boolean {
+        if (target.startsWith('*.') || matchType === 'domain') {
+            const domain = normalizeCdxUrl(target.replace(/^\*\./, '')).replace(/\/.*$/, '');
+            return c => {
+                const host = normalizeCdxUrl(c.original).replace(/[/?].*$/, '');
+                return host === domain || host.endsWith(`.${domain}`);
+            };
+        }
+        if (target.endsWith('*') || matchType === 'prefix') {
+            const prefix = normalizeCdxUrl(target.replace(/\*$/, ''));
+            return c => normalizeCdxUrl(c.original).startsWith(prefix);
+        }
+        if (matchType === 'host') {
+            const host = normalizeCdxUrl(target).replace(/[/?].*$/, '');
+            return c => normalizeCdxUrl(c.original).replace(/[/?].*$/, '') === host;
+        }
+        const exact = normalizeCdxUrl(target);
+        return c => normalizeCdxUrl(c.original) === exact;
+    }
+
+    private handlePlayback(rest: string, res: ServerResponse): void {
+        const match = rest.match(/^(\d{1,14})([a-z]{2}_)?\/(.+)$/);
+        if (!match) throw new Error(`Bad playback path: ${rest}`);
+        const [, timestamp, modifier = '', original] = match;
+
+        const wanted = Number(timestamp.padEnd(14, '0'));
+        const key = normalizeCdxUrl(original);
+        const [capture] = this.captures
+            .filter(c => normalizeCdxUrl(c.original) === key)
+            .sort((a, b) => Math.abs(Number(a.timestamp) - wanted) - Math.abs(Number(b.timestamp) - wanted));
+
+        if (!capture) {
+            res.writeHead(404, { 'Content-Type': 'text/html' });
+            res.end('<html><body>Wayback Machine has not archived that URL.</body></html>');
+            return;
+        }
+
+        const status = Number(capture.statuscode);
+        const headers: Record<string, string> = { 'Content-Type': capture.mimetype };
+        if (status >= 300 && status < 400 && capture.location) {
+            const location = new URL(capture.location, capture.original).toString();
+            headers.Location = `${this.waybackUrl}/${capture.timestamp}${modifier}/${location}`;
+        }
+        res.writeHead(status, headers);
+        res.end(capture.body);
+    }
+}
@@ -0,0 +1,24 @@
+import path from 'path';
+import { publicPlaybackUrl } from './config';
+import { InventoryItem } from './inventory';
+
+/**
+ * Inventory item for specs: a discovered early-web results capture. The filename
+ * follows the URL and the URL follows the filename, whichever of the two is given.
+ */
+export function inventoryItem(overrides: Partial<InventoryItem> = {}): InventoryItem {
+    const originalUrl = overrides.originalUrl || `http://www.usaweightlifting.org/${overrides.filename || 'results.pdf'}`;
+    const timestamp = overrides.timestamp || '20031213060615';
+    return {
+        id: originalUrl,
+        era: 'early-web',
+        year: 2003,
+        category: 'results',
+        filename: path.posix.basename(new URL(originalUrl).pathname),
+        originalUrl,
+        waybackUrl: publicPlaybackUrl(timestamp, originalUrl),
+        timestamp,
+        status: 'discovered',
+        ...overrides
+    };
+}
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { surtKey } from './cdx';
+import { InventoryItem } from './inventory';
+import { inventoryItem } from './testing';
+import { canonicalVersion, diffLines, groupVersions, uniqueFilename, unifiedDiff, versionedFilename, unversionedFilename } from './versions';
+
+const version = (timestamp: string, overrides: Partial<InventoryItem> = {}) => inventoryItem({
+    id: `DIGEST${timestamp}`,
+    year: 2002,
+    originalUrl: 'http://www.usaweightlifting.org/results/2002/state_results.html',
+    timestamp,
+    ...overrides
+});
+
+describe('version grouping', () => {
+    it('groups captures by urlkey, falling back to the URL', () => {
+        const groups = groupVersions([
+            version('20020901000000', { urlkey: 'org,usaweightlifting)/results/2002/state_results.html' }),
+            // Discovered before urlkeys were recorded
+            version('20020401000000', { originalUrl: 'http://usaweightlifting.org/results/2002/state_results.html' }),
+            version('20020401000000', { originalUrl: 'http://www.usaweightlifting.org/results/2002/other.html', filename: 'other.html' })
+        ]);
+        assert.equal(groups.size, 2);
+        assert.deepEqual(groups.get('org,usaweightlifting)/results/2002/state_results.html')!.map(v => v.timestamp), ['20020401000000', '20020901000000']);
+    });
+
+    it('derives urlkeys like the CDX server', () => {
+        assert.equal(surtKey('http://www.USAweightlifting.org:80/Results/2002/a.pdf'), 'org,usaweightlifting)/results/2002/a.pdf');
+        assert.equal(surtKey('http://msbn.tv'), 'tv,msbn)/');
+    });
+
+    it('picks the marked canonical version, else the newest download', () => {
+        const older = version('20020401000000', { status: 'downloaded' });
+        const newer = version('20020901000000', { status: 'downloaded' });
+        const pending = version('20021201000000');
+        assert.equal(canonicalVersion([older, newer, pending]), newer);
+        assert.equal(canonicalVersion([older, { ...newer, canonical: undefined }, { ...pending, status: 'failed' }]).timestamp, '20020901000000');
+        older.canonical = true;
+        assert.equal(canonicalVersion([older, newer, pending]), older);
+    });
+
+    it('gives a later capture of the same file its own name', () => {
+        const first = version('20020401000000');
+        const second = version('20020901000000');
+        assert.equal(uniqueFilename(first, [first]), 'state_results.html');
+        assert.equal(uniqueFilename(second, [first, second]), 'state_results.20020901000000.html');
+        assert.equal(versionedFilename('results', '2002'), 'results.2002');
+        assert.deepEqual(['state_results.20020901000000.html', 'state_results.20020901000000-DIGEST20.html', 'results.20020901000000', 'results.2002.pdf'].map(unversionedFilename),
+            ['state_results.html', 'state_results.html', 'results', 'results.2002.pdf']);
+        // Same filename in another category's directory is no clash
+        assert.equal(uniqueFilename(version('20020901000000', { category: 'event_info' }), [first]), 'state_results.html');
+    });
+});
+
+describe('diff', () => {
+    it('finds the shortest edit script', () => {
+        const ops = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'd', 'e']);
+        assert.deepEqual(ops.map(line => `${line.op}${line.text}`), [' a', '-b', ' c', ' d', '+e']);
+        assert.deepEqual(diffLines([], ['x']), [{ op: '+', text: 'x' }]);
+        assert.deepEqual(diffLines(['x'], []), [{ op: '-', text: 'x' }]);
+    });
+
+    it('diffs long, mostly different texts into a script that rebuilds both sides', () => {
+        const a = Array.from({ length: 5000 }, (_, i) => `row ${i}`);
+        const b = a.map((line, i) => i % 3 === 0 ? `changed ${i}` : line).filter((_, i) => i % 7 !== 0);
+        const ops = diffLines(a, b);
+
+        assert.deepEqual(ops.filter(line => line.op !== '+').map(line => line.text), a);
+        assert.deepEqual(ops.filter(line => line.op !== '-').map(line => line.text), b);
+        // Each changed row is one removal and one addition; dropped rows only a removal
+        const changed = a.filter((_, i) => i % 3 === 0 && i % 7 !== 0).length;
+        assert.equal(ops.filter(line => line.op !== ' ').length, 2 * changed + a.filter((_, i) => i % 7 === 0).length);
+    });
+
+    it('renders unified hunks with context', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13', '14', '15'];
+        const after = [...before];
+        after[1] = 'two';
+        after[13] = 'fourteen';
+
+        assert.equal(unifiedDiff(before, after, ['old', 'new'], 2), [
+            '--- old',
+            '+++ new',
+            '@@ -1,4 +1,4 @@',
+            ' 1',
+            '-2',
+            '+two',
+            ' 3',
+            ' 4',
+            '@@ -12,4 +12,4 @@',
+            ' 12',
+            ' 13',
+            '-14',
+            '+fourteen',
+            ' 15',
+            ''
+        ].join('\n'));
+        assert.equal(unifiedDiff(before, before, ['old', 'new']), '');
+    });
+});
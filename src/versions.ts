@@ -0,0 +1,222 @@
+import path from 'path';
+import { surtKey } from './cdx';
+import { InventoryItem, InventoryStore } from './inventory';
+import { itemPath } from './layout';
+import { documentText } from './search';
+
+// Captures of one URL share this key; items discovered before urlkeys were recorded derive it
+export function versionKey(item: Pick<InventoryItem, 'urlkey' | 'originalUrl'>): string {
+    return item.urlkey || surtKey(item.originalUrl);
+}
+
+// One capture, whichever inventory (and position in it) it comes from
+export function captureKey(item: Pick<InventoryItem, 'urlkey' | 'originalUrl' | 'timestamp'>): string {
+    return `${versionKey(item)} ${item.timestamp}`;
+}
+
+// Every URL's captures, oldest first
+export function groupVersions(items: InventoryItem[]): Map<string, InventoryItem[]> {
+    const groups = new Map<string, InventoryItem[]>();
+    for (const item of items) {
+        const key = versionKey(item);
+        groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    for (const versions of groups.values()) {
+        versions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+    return groups;
+}
+
+/**
+ * The version that stands for the URL: the one marked `canonical`, otherwise the
+ * newest downloaded capture (corrections replace earlier sheets), otherwise the newest.
+ */
+export function canonicalVersion(versions: InventoryItem[]): InventoryItem {
+    const newestFirst = [...versions].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return newestFirst.find(v => v.canonical)
+        || newestFirst.find(v => v.status === 'downloaded')
+        || newestFirst[0];
+}
+
+// results.pdf + 20040302114500 -> results.20040302114500.pdf
+export function versionedFilename(filename: string, timestamp: string): string {
+    const ext = path.extname(filename);
+    return `${path.basename(filename, ext)}.${timestamp}${ext}`;
+}
+
+// results.20040302114500.pdf (or .20040302114500-4JTBEOQT.pdf) -> results.pdf
+export function unversionedFilename(filename: string): string {
+    return filename.replace(/\.\d{14}(-[^.]{1,8})?(?=(\.[^.]*)?$)/, '');
+}
+
+/**
+ * Filename for `item` that gives it a storage path no other inventory item uses.
+ * A later capture of a URL (or any other clash, e.g. page.asp next to page.html) gets
+ * its timestamp added, so every version is kept rather than overwriting or being
+ * skipped as already downloaded.
+ */
+export function uniqueFilename(item: InventoryItem, items: InventoryItem[] | InventoryStore): string {
+    const taken = (filename: string) => {
+        const target = path.resolve(itemPath({ ...item, filename }));
+        const sameName = items instanceof InventoryStore ? items.withFilename(filename) : items.filter(other => other.filename === filename);
+        return sameName.some(other => other !== item && other.id !== item.id && path.resolve(itemPath(other)) === target);
+    };
+
+    if (!taken(item.filename)) return item.filename;
+    const versioned = versionedFilename(item.filename, item.timestamp);
+    return taken(versioned) ? versionedFilename(item.filename, `${item.timestamp}-${item.id.substring(0, 8)}`) : versioned;
+}
+
+// Document text as comparable lines: whitespace collapsed, blank lines dropped
+export async function versionLines(item: InventoryItem): Promise<string[]> {
+    const text = await documentText(item.localPath!);
+    return text.split(/\r?\n/)
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line.length > 0);
+}
+
+export interface DiffLine {
+    op: ' ' | '-' | '+';
+    text: string;
+}
+
+interface Snake {
+    // Where the middle snake starts and ends, relative to the ranges searched
+    x: number;
+    y: number;
+    u: number;
+    v: number;
+}
+
+/**
+ * Line diff (Myers' algorithm, linear-space variant): the shortest edit script turning
+ * `a` into `b`, as kept, removed and added lines in order. Only two diagonal arrays are
+ * kept, so two long, very different captures (tens of thousands of lines of PDF text)
+ * cost time but not memory.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+    const max = Math.ceil((a.length + b.length) / 2) + 1;
+    const forward = new Int32Array(2 * max + 3);
+    const backward = new Int32Array(2 * max + 3);
+    const result: DiffLine[] = [];
+    diffRange(a, 0, a.length, b, 0, b.length, forward, backward, max + 1, result);
+    return result;
+}
+
+function diffRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number,
+    forward: Int32Array, backward: Int32Array, offset: number, result: DiffLine[]): void {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+        result.push({ op: ' ', text: a[aLo] });
+        aLo++;
+        bLo++;
+    }
+    let suffix = 0;
+    while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) suffix++;
+    aHi -= suffix;
+    bHi -= suffix;
+
+    if (aLo === aHi) {
+        for (let j = bLo; j < bHi; j++) result.push({ op: '+', text: b[j] });
+    } else if (bLo === bHi) {
+        for (let i = aLo; i < aHi; i++) result.push({ op: '-', text: a[i] });
+    } else {
+        // Both ends differ, so the edit distance is at least 2 and both halves are smaller
+        const { x, y, u, v } = middleSnake(a, aLo, aHi, b, bLo, bHi, forward, backward, offset);
+        diffRange(a, aLo, aLo + x, b, bLo, bLo + y, forward, backward, offset, result);
+        for (let i = aLo + x; i < aLo + u; i++) result.push({ op: ' ', text: a[i] });
+        diffRange(a, aLo + u, aHi, b, bLo + v, bHi, forward, backward, offset, result);
+    }
+
+    for (let i = aHi; i < aHi + suffix; i++) result.push({ op: ' ', text: a[i] });
+}
+
+// Searches from both corners at once until the paths meet; the snake where they meet
+// lies on some shortest edit script
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number,
+    forward: Int32Array, backward: Int32Array, offset: number): Snake {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+
+    for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1;
+            let y = x - k;
+            const x0 = x;
+            const y0 = y;
+            while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                x++;
+                y++;
+            }
+            forward[offset + k] = x;
+            // Backward path on the same diagonal (delta - k from the other corner), one step behind
+            if (odd && k >= delta - (d - 1) && k <= delta + (d - 1) && x + backward[offset + delta - k] >= n) {
+                return { x: x0, y: y0, u: x, v: y };
+            }
+        }
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1;
+            let y = x - k;
+            const x0 = x;
+            const y0 = y;
+            while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+                x++;
+                y++;
+            }
+            backward[offset + k] = x;
+            if (!odd && k >= delta - d && k <= delta + d && x + forward[offset + delta - k] >= n) {
+                return { x: n - x, y: m - y, u: n - x0, v: m - y0 };
+            }
+        }
+    }
+    throw new Error('diffLines: paths did not meet');
+}
+
+/**
+ * Unified diff of two versions' lines with `context` unchanged lines around each
+ * change. Returns '' when the versions are identical.
+ */
+export function unifiedDiff(a: string[], b: string[], labels: [string, string], context = 3): string {
+    const lines = diffLines(a, b);
+    if (!lines.some(line => line.op !== ' ')) return '';
+
+    const out = [`--- ${labels[0]}`, `+++ ${labels[1]}`];
+    let i = 0;
+    while (i < lines.length) {
+        // Find the next change and open a hunk `context` lines before it
+        while (i < lines.length && lines[i].op === ' ') i++;
+        if (i >= lines.length) break;
+        const start = Math.max(0, i - context);
+
+        // Extend the hunk while changes are within 2 * context lines of each other
+        let end = i;
+        let lastChange = i;
+        while (end < lines.length && end - lastChange <= 2 * context) {
+            if (lines[end].op !== ' ') lastChange = end;
+            end++;
+        }
+        end = Math.min(lines.length, lastChange + context + 1);
+
+        // Line numbers where the hunk starts in a and b
+        let aLine = 1;
+        let bLine = 1;
+        for (let j = 0; j < start; j++) {
+            if (lines[j].op !== '+') aLine++;
+            if (lines[j].op !== '-') bLine++;
+        }
+        const hunk = lines.slice(start, end);
+        const aCount = hunk.filter(line => line.op !== '+').length;
+        const bCount = hunk.filter(line => line.op !== '-').length;
+        out.push(`@@ -${aCount ? aLine : aLine - 1},${aCount} +${bCount ? bLine : bLine - 1},${bCount} @@`);
+        out.push(...hunk.map(line => `${line.op}${line.text}`));
+        i = end;
+    }
+    return out.join('\n') + '\n';
+}
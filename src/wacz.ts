@@ -0,0 +1,178 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as crypto from 'crypto';
+import { ExportedPage, warcDate } from './warc';
+
+// Classic (non-Zip64) ZIP limits
+const MAX_ZIP_BYTES = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+// ZIP's CRC-32; zlib.crc32 only exists from Node 20.15 / 22.2
+export function crc32(data: Buffer, previous = 0): number {
+    let crc = ~previous;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return ~crc >>> 0;
+}
+
+interface ZipEntry {
+    name: string;
+    crc: number;
+    size: number;
+    offset: number;
+}
+
+/**
+ * Minimal ZIP writer for WACZ: entries are stored, not deflated, because the WARCs are
+ * already gzipped and replay tools read them straight out of the archive by offset.
+ * Files are streamed in, so multi-GB WARCs never sit in memory.
+ */
+class StoredZip {
+    private entries: ZipEntry[] = [];
+    private offset = 0;
+
+    private constructor(private fd: number, private filePath: string) { }
+
+    static async create(filePath: string): Promise<StoredZip> {
+        await fs.ensureDir(path.dirname(filePath));
+        return new StoredZip(await fs.open(filePath, 'w'), filePath);
+    }
+
+    async addBuffer(name: string, data: Buffer): Promise<void> {
+        await this.writeHeader(name, crc32(data), data.length);
+        await this.write(data);
+    }
+
+    async addFile(name: string, filePath: string): Promise<void> {
+        const size = (await fs.stat(filePath)).size;
+        let crc = 0;
+        for await (const chunk of fs.createReadStream(filePath)) {
+            crc = crc32(chunk as Buffer, crc);
+        }
+        await this.writeHeader(name, crc, size);
+        for await (const chunk of fs.createReadStream(filePath)) {
+            await this.write(chunk as Buffer);
+        }
+    }
+
+    async close(): Promise<void> {
+        const start = this.offset;
+        for (const entry of this.entries) {
+            const name = Buffer.from(entry.name);
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02014b50, 0);
+            header.writeUInt16LE(20, 4);       // made by
+            header.writeUInt16LE(20, 6);       // needed to extract
+            header.writeUInt16LE(0x0800, 8);   // UTF-8 names
+            header.writeUInt16LE(0, 10);       // stored
+            header.writeUInt32LE(0, 12);       // DOS time/date
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.size, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(name.length, 28);
+            header.writeUInt32LE(entry.offset, 42);
+            await this.write(Buffer.concat([header, name]));
+        }
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(this.offset - start, 12);
+        end.writeUInt32LE(start, 16);
+        await this.write(end);
+        await fs.close(this.fd);
+    }
+
+    // Closes the file and deletes it so a failed export leaves no truncated archive behind
+    async abort(): Promise<void> {
+        await fs.close(this.fd);
+        await fs.remove(this.filePath);
+    }
+
+    private async writeHeader(name: string, crc: number, size: number): Promise<void> {
+        if (this.offset + size > MAX_ZIP_BYTES) {
+            throw new Error(`WACZ would exceed 4 GB at ${name}; export fewer items (e.g. one era) per bundle`);
+        }
+        const nameBytes = Buffer.from(name);
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(0x0800, 6);
+        header.writeUInt16LE(0, 8);
+        header.writeUInt32LE(0, 10);
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(size, 18);
+        header.writeUInt32LE(size, 22);
+        header.writeUInt16LE(nameBytes.length, 26);
+        this.entries.push({ name, crc, size, offset: this.offset });
+        await this.write(Buffer.concat([header, nameBytes]));
+    }
+
+    private async write(data: Buffer): Promise<void> {
+        await fs.write(this.fd, data);
+        this.offset += data.length;
+    }
+}
+
+async function sha256File(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Bundles an export-warc output as a WACZ 1.1.1 file (archive/, indexes/index.cdxj,
+ * pages/pages.jsonl, datapackage.json and its digest) that ReplayWeb.page and pywb open
+ * directly. HTML documents are listed as the pages.
+ */
+export async function writeWacz(waczPath: string, options: { warcFiles: string[]; cdxjPath: string; pages: ExportedPage[]; title?: string }): Promise<void> {
+    const pagesJsonl = [
+        { format: 'json-pages-1.0', id: 'pages', title: 'All Pages' },
+        ...options.pages.map(page => ({ url: page.url, ts: warcDate(page.timestamp), ...(page.title ? { title: page.title } : {}) }))
+    ].map(line => JSON.stringify(line)).join('\n') + '\n';
+
+    const resources: { name: string; path: string; hash: string; bytes: number }[] = [];
+    const describeFile = async (zipPath: string, filePath: string) => {
+        resources.push({ name: path.basename(zipPath), path: zipPath, hash: `sha256:${await sha256File(filePath)}`, bytes: (await fs.stat(filePath)).size });
+    };
+    for (const warc of options.warcFiles) {
+        await describeFile(`archive/${path.basename(warc)}`, warc);
+    }
+    await describeFile('indexes/index.cdxj', options.cdxjPath);
+    const pagesBuffer = Buffer.from(pagesJsonl);
+    resources.push({ name: 'pages.jsonl', path: 'pages/pages.jsonl', hash: `sha256:${crypto.createHash('sha256').update(pagesBuffer).digest('hex')}`, bytes: pagesBuffer.length });
+
+    const datapackage = Buffer.from(JSON.stringify({
+        profile: 'data-package',
+        wacz_version: '1.1.1',
+        title: options.title || 'USA Weightlifting results archive',
+        software: 'usaw-results-archive',
+        created: new Date().toISOString(),
+        resources
+    }, null, 2));
+    const digest = Buffer.from(JSON.stringify({
+        path: 'datapackage.json',
+        hash: `sha256:${crypto.createHash('sha256').update(datapackage).digest('hex')}`
+    }, null, 2));
+
+    const zip = await StoredZip.create(waczPath);
+    try {
+        for (const warc of options.warcFiles) {
+            await zip.addFile(`archive/${path.basename(warc)}`, warc);
+        }
+        await zip.addFile('indexes/index.cdxj', options.cdxjPath);
+        await zip.addBuffer('pages/pages.jsonl', pagesBuffer);
+        await zip.addBuffer('datapackage.json', datapackage);
+        await zip.addBuffer('datapackage-digest.json', digest);
+    } catch (e) {
+        await zip.abort();
+        throw e;
+    }
+    await zip.close();
+}
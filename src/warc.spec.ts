@@ -0,0 +1,196 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import * as zlib from 'zlib';
+import { CONFIG } from './config';
+import { IntegrityChecker } from './integrity';
+import { InventoryItem } from './inventory';
+import { crc32, writeWacz } from './wacz';
+import { contentTypeFor, WarcExporter, warcDate } from './warc';
+
+const PAGE_URL = 'http://www.usaweightlifting.org/results/2003/meet_results.html';
+const PDF_URL = 'http://www.usaweightlifting.org/results/2003/nationals.pdf';
+
+// Splits an uncompressed WARC record into its header fields and block
+function parseRecord(raw: Buffer): { headers: Record<string, string>; block: Buffer } {
+    const end = raw.indexOf('\r\n\r\n');
+    const headers: Record<string, string> = {};
+    for (const line of raw.subarray(0, end).toString().split('\r\n').slice(1)) {
+        const colon = line.indexOf(':');
+        headers[line.substring(0, colon)] = line.substring(colon + 1).trim();
+    }
+    const length = parseInt(headers['Content-Length'], 10);
+    return { headers, block: raw.subarray(end + 4, end + 4 + length) };
+}
+
+// Names and contents of a stored (uncompressed) ZIP, read from its central directory
+function readZip(zip: Buffer): Map<string, Buffer> {
+    const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = zip.readUInt16LE(eocd + 10);
+    let at = zip.readUInt32LE(eocd + 16);
+    const files = new Map<string, Buffer>();
+    for (let i = 0; i < count; i++) {
+        const size = zip.readUInt32LE(at + 24);
+        const nameLength = zip.readUInt16LE(at + 28);
+        const offset = zip.readUInt32LE(at + 42);
+        const name = zip.subarray(at + 46, at + 46 + nameLength).toString();
+        const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+        const data = zip.subarray(dataStart, dataStart + size);
+        assert.equal(crc32(data), zip.readUInt32LE(at + 16), `CRC of ${name}`);
+        files.set(name, data);
+        at += 46 + nameLength;
+    }
+    return files;
+}
+
+describe('warc helpers', () => {
+    it('turns Wayback timestamps into WARC dates', () => {
+        assert.equal(warcDate('20031213060615'), '2003-12-13T06:06:15Z');
+    });
+
+    it('prefers the archived MIME type over the extension', () => {
+        assert.equal(contentTypeFor('a/results.HTM'), 'text/html');
+        assert.equal(contentTypeFor('a/results.html', 'text/html; charset=iso-8859-1'), 'text/html; charset=iso-8859-1');
+        assert.equal(contentTypeFor('a/results-1a2b3c4d'), 'application/octet-stream');
+    });
+
+    it('computes ZIP CRC-32s, including across chunks', () => {
+        assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+        assert.equal(crc32(Buffer.from('6789'), crc32(Buffer.from('12345'))), 0xcbf43926);
+        assert.equal(crc32(Buffer.alloc(0)), 0);
+    });
+});
+
+describe('WarcExporter', () => {
+    let workDir: string;
+    let outDir: string;
+    let items: InventoryItem[];
+    const pageHtml = '<html><head><title>2003 Meet Results</title></head><body><img src="/images/logo.gif"><a href="nationals.pdf">Nationals</a></body></html>';
+    const pdfBytes = Buffer.from('%PDF-1.3 nationals');
+
+    before(async () => {
+        workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usaw-warc-'));
+        outDir = path.join(workDir, 'export');
+        CONFIG.DATA_DIR = path.join(workDir, 'data');
+        const resultsDir = path.join(CONFIG.DATA_DIR, 'early-web', '2003', 'results', 'www.usaweightlifting.org', 'results', '2003');
+
+        // The page as rewritten for offline viewing, with the download kept as .orig
+        const pagePath = path.join(resultsDir, 'meet_results.html');
+        await fs.outputFile(`${pagePath}.orig`, pageHtml);
+        await fs.outputFile(pagePath, pageHtml.replace('/images/logo.gif', '../../../../images/logo.gif'));
+        await fs.outputFile(path.join(resultsDir, 'nationals.pdf'), pdfBytes);
+        await fs.outputFile(path.join(CONFIG.DATA_DIR, 'early-web', '2003', 'images', 'logo.gif'), 'GIF89a');
+
+        const base = { era: 'early-web', year: 2003, category: 'results' as const, status: 'downloaded' as const };
+        items = [
+            {
+                ...base, id: IntegrityChecker.digestOf(pdfBytes), digest: IntegrityChecker.digestOf(pdfBytes),
+                filename: 'nationals.pdf', originalUrl: PDF_URL, timestamp: '20031213060615',
+                waybackUrl: `https://web.archive.org/web/20031213060615id_/${PDF_URL}`, mimetype: 'application/pdf',
+                localPath: path.join(resultsDir, 'nationals.pdf'),
+                linkedFrom: { url: PAGE_URL, timestamp: '20031101000000', depth: 1 }
+            },
+            {
+                ...base, id: IntegrityChecker.digestOf(pageHtml), filename: 'meet_results.html', originalUrl: PAGE_URL,
+                timestamp: '20031101000000', waybackUrl: `https://web.archive.org/web/20031101000000id_/${PAGE_URL}`,
+                localPath: pagePath
+            },
+            {
+                ...base, id: 'GONE', filename: 'gone.pdf', originalUrl: 'http://www.usaweightlifting.org/gone.pdf',
+                timestamp: '20031101000000', waybackUrl: 'https://web.archive.org/web/20031101000000id_/http://www.usaweightlifting.org/gone.pdf',
+                localPath: path.join(resultsDir, 'gone.pdf')
+            },
+            {
+                ...base, status: 'discovered', id: 'LATER', filename: 'later.pdf', originalUrl: 'http://www.usaweightlifting.org/later.pdf',
+                timestamp: '20031101000000', waybackUrl: 'https://web.archive.org/web/20031101000000id_/http://www.usaweightlifting.org/later.pdf'
+            }
+        ];
+    });
+
+    after(async () => {
+        await fs.remove(workDir);
+    });
+
+    it('writes resource records under the original URLs and capture dates, indexed by CDXJ', async () => {
+        const result = await new WarcExporter(items).export(outDir, { prefix: 'test' });
+
+        assert.deepEqual({ documents: result.documents, assets: result.assets, missing: result.missing }, { documents: 2, assets: 1, missing: 1 });
+        assert.deepEqual(result.warcFiles, [path.join(outDir, 'test-00000.warc.gz')]);
+
+        const warc = await fs.readFile(result.warcFiles[0]);
+        // Whole file: a warcinfo record first, then a resource and its metadata per document
+        const types = zlib.gunzipSync(warc).toString('latin1').match(/^WARC-Type: \w+/gm)!.map(t => t.substring(11));
+        assert.deepEqual(types, ['warcinfo', 'resource', 'metadata', 'resource', 'metadata', 'resource', 'metadata']);
+
+        const lines = (await fs.readFile(result.cdxjPath, 'utf-8')).trim().split('\n');
+        assert.deepEqual(lines.map(line => line.split(' ', 2).join(' ')), [
+            'org,usaweightlifting)/images/logo.gif 20031101000000',
+            'org,usaweightlifting)/results/2003/meet_results.html 20031101000000',
+            'org,usaweightlifting)/results/2003/nationals.pdf 20031213060615'
+        ]);
+
+        // Every index entry points at a gzip member holding exactly that record
+        const records = lines.map(line => {
+            const fields = JSON.parse(line.substring(line.indexOf('{')));
+            const member = warc.subarray(parseInt(fields.offset, 10), parseInt(fields.offset, 10) + parseInt(fields.length, 10));
+            return { fields, ...parseRecord(zlib.gunzipSync(member)) };
+        });
+        const [logo, page, pdf] = records;
+
+        assert.equal(pdf.headers['WARC-Target-URI'], PDF_URL);
+        assert.equal(pdf.headers['WARC-Date'], '2003-12-13T06:06:15Z');
+        assert.equal(pdf.headers['Content-Type'], 'application/pdf');
+        assert.deepEqual(pdf.block, pdfBytes);
+        assert.equal(pdf.headers['WARC-Payload-Digest'], `sha1:${items[0].digest}`);
+        assert.equal(pdf.fields.digest, `sha1:${items[0].digest}`);
+
+        // The page as archived, not the rewritten copy
+        assert.equal(page.block.toString(), pageHtml);
+        assert.equal(page.headers['Content-Type'], 'text/html');
+        assert.equal(logo.headers['WARC-Target-URI'], 'http://www.usaweightlifting.org/images/logo.gif');
+        assert.equal(logo.block.toString(), 'GIF89a');
+
+        // Provenance sits in the metadata record written right after the PDF's resource
+        const all = zlib.gunzipSync(warc).toString('latin1');
+        const metadata = all.substring(all.indexOf(`WARC-Concurrent-To: ${pdf.headers['WARC-Record-ID']}`));
+        assert.match(metadata, /via: https:\/\/web\.archive\.org\/web\/20031213060615id_\//);
+        assert.match(metadata, /linked-from: http:\/\/www\.usaweightlifting\.org\/results\/2003\/meet_results\.html 20031101000000/);
+        assert.equal(result.pages.length, 1);
+        assert.deepEqual(result.pages[0], { url: PAGE_URL, timestamp: '20031101000000', title: '2003 Meet Results' });
+    });
+
+    it('starts a new WARC file once the size limit is passed', async () => {
+        const result = await new WarcExporter(items).export(path.join(workDir, 'split'), { prefix: 'small', maxFileBytes: 1 });
+
+        // Each resource (and its metadata record) opens a new file
+        assert.equal(result.warcFiles.length, 3);
+        for (const entry of result.entries) {
+            const warc = await fs.readFile(path.join(workDir, 'split', entry.location.filename));
+            const { headers } = parseRecord(zlib.gunzipSync(warc.subarray(entry.location.offset, entry.location.offset + entry.location.length)));
+            assert.equal(headers['WARC-Target-URI'], entry.url);
+        }
+    });
+
+    it('bundles the export as a WACZ', async () => {
+        const result = await new WarcExporter(items).export(outDir, { prefix: 'test' });
+        const waczPath = path.join(outDir, 'test.wacz');
+        await writeWacz(waczPath, { warcFiles: result.warcFiles, cdxjPath: result.cdxjPath, pages: result.pages });
+
+        const files = readZip(await fs.readFile(waczPath));
+        assert.deepEqual([...files.keys()], [
+            'archive/test-00000.warc.gz', 'indexes/index.cdxj', 'pages/pages.jsonl', 'datapackage.json', 'datapackage-digest.json'
+        ]);
+        assert.deepEqual(files.get('archive/test-00000.warc.gz'), await fs.readFile(result.warcFiles[0]));
+
+        const pages = files.get('pages/pages.jsonl')!.toString().trim().split('\n').map(line => JSON.parse(line));
+        assert.equal(pages[0].format, 'json-pages-1.0');
+        assert.deepEqual(pages[1], { url: PAGE_URL, ts: '2003-11-01T00:00:00Z', title: '2003 Meet Results' });
+
+        const datapackage = JSON.parse(files.get('datapackage.json')!.toString());
+        assert.equal(datapackage.wacz_version, '1.1.1');
+        const cdxj = datapackage.resources.find((r: any) => r.path === 'indexes/index.cdxj');
+        assert.equal(cdxj.bytes, files.get('indexes/index.cdxj')!.length);
+    });
+});
@@ -0,0 +1,287 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import * as cheerio from 'cheerio';
+import { AssetRecovery } from './assets';
+import { surtKey } from './cdx';
+import { IntegrityChecker } from './integrity';
+import { InventoryItem } from './inventory';
+import { logger } from './logger';
+import { readProvenance } from './provenance';
+
+// Common WARC practice: roll over to a new file at about 1 GB
+const DEFAULT_MAX_FILE_BYTES = 1000 * 1000 * 1000;
+
+const EXTENSION_TYPES: Record<string, string> = {
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.pdf': 'application/pdf',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.css': 'text/css',
+    '.js': 'application/javascript',
+    '.gif': 'image/gif',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.txt': 'text/plain'
+};
+
+// Where one record landed, for the CDXJ index
+export interface RecordLocation {
+    filename: string;
+    offset: number;
+    length: number;
+}
+
+// One line of the CDXJ index: `<surt> <timestamp> {json}`, sorted
+export interface CdxjEntry {
+    urlkey: string;
+    timestamp: string;
+    url: string;
+    mime: string;
+    digest: string;
+    location: RecordLocation;
+}
+
+// A page of the export for WACZ pages.jsonl
+export interface ExportedPage {
+    url: string;
+    timestamp: string;
+    title?: string;
+}
+
+export interface WarcExportResult {
+    warcFiles: string[];
+    cdxjPath: string;
+    entries: CdxjEntry[];
+    pages: ExportedPage[];
+    documents: number;
+    assets: number;
+    // Downloaded items whose file is gone
+    missing: number;
+}
+
+// 20031213060615 -> 2003-12-13T06:06:15Z
+export function warcDate(timestamp: string): string {
+    const t = timestamp.padEnd(14, '0');
+    return `${t.substring(0, 4)}-${t.substring(4, 6)}-${t.substring(6, 8)}T${t.substring(8, 10)}:${t.substring(10, 12)}:${t.substring(12, 14)}Z`;
+}
+
+export function contentTypeFor(filePath: string, archived?: string): string {
+    return archived || EXTENSION_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+function sha1Digest(data: Buffer): string {
+    return `sha1:${IntegrityChecker.digestOf(data)}`;
+}
+
+// application/warc-fields body; repeated names (one line per redirect hop) are allowed
+function warcFields(fields: [string, string][]): Buffer {
+    return Buffer.from(fields.map(([name, value]) => `${name}: ${value.replace(/[\r\n]+/g, ' ')}\r\n`).join(''));
+}
+
+/**
+ * Writes WARC 1.1 records, each gzipped as its own member so readers can seek to a
+ * record from the index. Starts a new file (with its own warcinfo record) once the
+ * current one passes `maxFileBytes`.
+ */
+export class WarcWriter {
+    readonly files: string[] = [];
+    private fd: number | null = null;
+    private size = 0;
+
+    constructor(private dir: string, private prefix: string, private maxFileBytes = DEFAULT_MAX_FILE_BYTES) { }
+
+    static recordId(): string {
+        return `<urn:uuid:${crypto.randomUUID()}>`;
+    }
+
+    // `concurrent` records (metadata about the previous one) always stay in its file
+    async write(headers: [string, string][], block: Buffer, options?: { concurrent?: boolean }): Promise<RecordLocation & { id: string }> {
+        if (this.fd === null || (this.size >= this.maxFileBytes && !options?.concurrent)) {
+            await this.rollOver();
+        }
+        return this.append(headers, block);
+    }
+
+    async close(): Promise<void> {
+        if (this.fd !== null) {
+            await fs.close(this.fd);
+            this.fd = null;
+        }
+    }
+
+    private async rollOver(): Promise<void> {
+        await this.close();
+        await fs.ensureDir(this.dir);
+        const filename = `${this.prefix}-${String(this.files.length).padStart(5, '0')}.warc.gz`;
+        this.fd = await fs.open(path.join(this.dir, filename), 'w');
+        this.size = 0;
+        this.files.push(filename);
+
+        await this.append([
+            ['WARC-Type', 'warcinfo'],
+            ['WARC-Date', new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')],
+            ['WARC-Filename', filename],
+            ['Content-Type', 'application/warc-fields']
+        ], warcFields([
+            ['software', 'usaw-results-archive'],
+            ['format', 'WARC File Format 1.1'],
+            ['description', 'USA Weightlifting documents recovered from the Wayback Machine; each record keeps the original URL and capture date']
+        ]));
+    }
+
+    private async append(headers: [string, string][], block: Buffer): Promise<RecordLocation & { id: string }> {
+        const id = WarcWriter.recordId();
+        const head = [
+            'WARC/1.1',
+            ...[['WARC-Record-ID', id] as [string, string], ...headers].map(([name, value]) => `${name}: ${value}`),
+            `Content-Length: ${block.length}`,
+            '', ''
+        ].join('\r\n');
+        const member = zlib.gzipSync(Buffer.concat([Buffer.from(head), block, Buffer.from('\r\n\r\n')]));
+
+        const offset = this.size;
+        await fs.write(this.fd!, member);
+        this.size += member.length;
+        return { id, filename: this.files[this.files.length - 1], offset, length: member.length };
+    }
+}
+
+/**
+ * Packages downloaded documents and their recovered page assets as WARC `resource`
+ * records under their original URLs and capture dates. The Wayback responses' HTTP
+ * headers were never kept, so the records hold the archived payload (the `.orig` copy
+ * for rewritten pages) rather than pretending to be full responses. A `metadata`
+ * record next to each says where it came from: playback URL, CDX digest, era, and
+ * how it was found (crawl link, redirect chain). A CDXJ index covers the resources.
+ */
+export class WarcExporter {
+    private recovery = new AssetRecovery();
+
+    constructor(private items: InventoryItem[]) { }
+
+    async export(outputDir: string, options?: { prefix?: string; maxFileBytes?: number }): Promise<WarcExportResult> {
+        const writer = new WarcWriter(outputDir, options?.prefix || 'usaw-archive', options?.maxFileBytes);
+        const entries: CdxjEntry[] = [];
+        const pages: ExportedPage[] = [];
+        const documentUrls = new Set(this.items.map(item => item.originalUrl));
+        const exportedAssets = new Set<string>();
+        let documents = 0;
+        let assets = 0;
+        let missing = 0;
+
+        const downloaded = this.items
+            .filter(item => item.status === 'downloaded' && item.localPath)
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.originalUrl.localeCompare(b.originalUrl));
+
+        try {
+            for (const item of downloaded) {
+                if (!await fs.pathExists(item.localPath!)) {
+                    logger.warn(`Missing on disk, not exported: ${item.localPath}`);
+                    missing++;
+                    continue;
+                }
+                const payload = await fs.readFile(await IntegrityChecker.payloadPath(item.localPath!));
+                const mime = contentTypeFor(item.localPath!, item.mimetype);
+                entries.push(await this.writeResource(writer, item.originalUrl, item.timestamp, mime, payload, this.provenance(item)));
+                documents++;
+
+                if (mime.includes('html')) {
+                    const html = payload.toString('utf-8');
+                    const title = cheerio.load(html)('title').first().text().trim();
+                    pages.push({ url: item.originalUrl, timestamp: item.timestamp, ...(title ? { title } : {}) });
+
+                    for (const asset of this.pageAssets(item, html)) {
+                        if (documentUrls.has(asset.url) || exportedAssets.has(asset.url)) continue;
+                        exportedAssets.add(asset.url);
+                        const data = await fs.readFile(asset.localPath);
+                        // The asset's own capture when its provenance sidecar says so; assets recovered
+                        // before sidecars were written came from the capture closest to the page
+                        const provenance = await readProvenance(asset.localPath);
+                        const fields: [string, string][] = provenance
+                            ? [['via', provenance.waybackUrl], ['wayback-timestamp', provenance.timestamp], ['asset-of', item.originalUrl]]
+                            : [['asset-of', item.originalUrl], ['capture-date', 'approximate: date of the page capture']];
+                        fields.push(['local-path', asset.localPath]);
+                        entries.push(await this.writeResource(writer, asset.url, provenance?.timestamp || item.timestamp,
+                            contentTypeFor(asset.localPath, provenance?.contentType), data, fields));
+                        assets++;
+                    }
+                }
+            }
+        } finally {
+            await writer.close();
+        }
+
+        const cdxjPath = path.join(outputDir, 'index.cdxj');
+        await fs.writeFile(cdxjPath, WarcExporter.toCdxj(entries));
+        return { warcFiles: writer.files.map(f => path.join(outputDir, f)), cdxjPath, entries, pages, documents, assets, missing };
+    }
+
+    static toCdxj(entries: CdxjEntry[]): string {
+        return entries
+            .map(e => `${e.urlkey} ${e.timestamp} ${JSON.stringify({
+                url: e.url,
+                mime: e.mime,
+                digest: e.digest,
+                length: String(e.location.length),
+                offset: String(e.location.offset),
+                filename: e.location.filename
+            })}`)
+            .sort()
+            .map(line => `${line}\n`)
+            .join('');
+    }
+
+    private async writeResource(writer: WarcWriter, url: string, timestamp: string, mime: string, payload: Buffer, provenance: [string, string][]): Promise<CdxjEntry> {
+        const date = warcDate(timestamp);
+        const digest = sha1Digest(payload);
+        const resource = await writer.write([
+            ['WARC-Type', 'resource'],
+            ['WARC-Target-URI', url],
+            ['WARC-Date', date],
+            ['Content-Type', mime],
+            ['WARC-Block-Digest', digest],
+            ['WARC-Payload-Digest', digest]
+        ], payload);
+        await writer.write([
+            ['WARC-Type', 'metadata'],
+            ['WARC-Target-URI', url],
+            ['WARC-Date', date],
+            ['WARC-Concurrent-To', resource.id],
+            ['Content-Type', 'application/warc-fields']
+        ], warcFields(provenance), { concurrent: true });
+
+        const { id, ...location } = resource;
+        return { urlkey: surtKey(url), timestamp: timestamp.padEnd(14, '0'), url, mime, digest, location };
+    }
+
+    private provenance(item: InventoryItem): [string, string][] {
+        const fields: [string, string][] = [
+            ['via', item.waybackUrl],
+            ['wayback-timestamp', item.timestamp]
+        ];
+        const expected = IntegrityChecker.expectedDigest(item);
+        if (expected) fields.push(['cdx-digest', `sha1:${expected}`]);
+        fields.push(['era', item.era], ['category', item.subcategory ? `${item.category}/${item.subcategory}` : item.category]);
+        if (item.linkedFrom) {
+            fields.push(['linked-from', `${item.linkedFrom.url} ${item.linkedFrom.timestamp}`]);
+        }
+        for (const hop of item.redirects || []) {
+            fields.push(['redirect', `${hop.url} ${hop.timestamp} ${hop.statuscode} -> ${hop.location}`]);
+        }
+        fields.push(['local-path', item.localPath!]);
+        return fields;
+    }
+
+    // Recovered assets of a page that are on disk, by their original URL
+    private pageAssets(item: InventoryItem, html: string): { url: string; localPath: string }[] {
+        return this.recovery.pageAssets(item, item.localPath!, html)
+            .filter(asset => fs.existsSync(asset.localPath) && fs.statSync(asset.localPath).isFile())
+            .map(asset => ({ url: asset.url, localPath: path.relative(process.cwd(), asset.localPath) }));
+    }
+}